@@ -14,7 +14,10 @@ const JpgToPdfPage = lazy(() => import('./pages/JpgToPdfPage'));
 const PdfToJpgPage = lazy(() => import('./pages/PdfToJpgPage'));
 const AddPageNumbersPage = lazy(() => import('./pages/AddPageNumbersPage'));
 const AddWatermarkPage = lazy(() => import('./pages/AddWatermarkPage'));
+const PipelinePage = lazy(() => import('./pages/PipelinePage'));
+const BatchPage = lazy(() => import('./pages/BatchPage'));
 const SitemapPage = lazy(() => import('./pages/SitemapPage'));
+const OpenFilePage = lazy(() => import('./pages/OpenFilePage'));
 // const ProtectPdfPage = lazy(() => import('./pages/ProtectPdfPage'));
 // const UnlockPdfPage = lazy(() => import('./pages/UnlockPdfPage'));
 // const SignPdfPage = lazy(() => import('./pages/SignPdfPage'));
@@ -40,6 +43,7 @@ export default function App() {
           <Route path="/" element={<Layout />}>
             <Route index element={<HomePage />} />
             <Route path="sitemap" element={<SitemapPage />} />
+            <Route path="open" element={<OpenFilePage />} />
 
             {/* Page Manipulation */}
             <Route path="compress-pdf" element={<CompressPage />} />
@@ -58,6 +62,10 @@ export default function App() {
             <Route path="pdf-add-watermark" element={<AddWatermarkPage />} />
             {/* <Route path="convert-pdf-to-pdfa" element={<PdfToPdfaPage />} /> */}
 
+            {/* Workflows */}
+            <Route path="pdf-pipeline" element={<PipelinePage />} />
+            <Route path="batch-pdf" element={<BatchPage />} />
+
             {/* Security */}
             {/* <Route path="protect-pdf" element={<ProtectPdfPage />} /> */}
             {/* <Route path="unlock-pdf" element={<UnlockPdfPage />} /> */}
@@ -0,0 +1,382 @@
+/**
+ * mydevicemypdf CLI
+ *
+ * Headless entry point that runs the same lib functions as the web app from
+ * the command line. Everything stays local; no network access is needed.
+ *
+ * @example
+ * mydevicemypdf compress report.pdf --quality extreme --level 80
+ * mydevicemypdf merge a.pdf b.pdf -o combined.pdf
+ *
+ * @module cli
+ */
+
+import { basename, dirname, join } from 'node:path';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import { analyzePdfSize } from '../lib/pdf-analyze';
+import {
+    addPageNumbers,
+    addWatermark,
+    NUMBER_FORMATS,
+    NUMBER_POSITIONS,
+    WATERMARK_COLORS,
+    type NumberFormat,
+    type NumberPosition,
+} from '../lib/pdf-annotations';
+import { CLEAN_ITEMS, type CleanItem } from '../lib/pdf-clean';
+import { mergePdfs } from '../lib/pdf-merge';
+import { getPdfPageCount, rotatePages } from '../lib/pdf-pages';
+import { applySaveOptions } from '../lib/pdf-save';
+import { protectPdf, unlockPdf } from '../lib/pdf-security';
+import {
+    parsePageRange,
+    splitPdfAllPages,
+    splitPdfByOutline,
+    splitPdfByRange,
+    splitPdfBySize,
+    splitPdfEveryNPages,
+    splitPdfIntoParts,
+    type SplitResult,
+} from '../lib/pdf-split';
+import {
+    compressPDF,
+    DEFAULT_BALANCED_OPTIONS,
+    DEFAULT_EXTREME_OPTIONS,
+    formatBytes,
+    type CompressionQuality,
+    type ExtremeColorMode,
+    type GhostscriptPreset,
+} from '../lib/pdf-utils';
+import { readInputFile, setupNodeEnvironment, writeOutputFile } from './node-env';
+
+const USAGE = `Usage: mydevicemypdf <command> [options]
+
+Commands:
+  compress <file>            --quality lossless|balanced|extreme|target|profiles
+                             --dpi N  --level 1-99  --color-mode color|grayscale|bitonal  --searchable (extreme)
+                             --dpi N  --jpeg-quality 1-100 (balanced)
+                             --max-size SIZE, e.g. 2MB or 500KB (target)
+                             --profiles screen,ebook,printer,prepress (profiles, default: all)
+                             --chain  run the other engines on the best output until it stops shrinking (lossless, profiles)
+                             --clean ${CLEAN_ITEMS.map(({ item }) => item).join(',')}|all
+                                      remove this content before compressing (any quality)
+  analyze <file>             Size breakdown as JSON (printed, or written to -o)
+  split <file>               --range "1-3, 5; 6-end" | --all | --every N | --parts N | --bookmarks [--depth N]
+                             | --max-size SIZE, e.g. 10MB   (-o is an output directory)
+                             groups separated by ";" become separate files; also end, odd, even, last-N
+  merge <files...>           -o is required
+  rotate <file>              --degrees 90|180|270  --pages "1, 3-4" (default: all)
+  number <file>              --position ${NUMBER_POSITIONS.map((p) => p.value).join('|')}
+                             --format ${NUMBER_FORMATS.map((f) => f.value).join('|')}
+                             --font-size N  --start N  --margin N
+  watermark <file>           --text TEXT  --style tiled|center  --color ${WATERMARK_COLORS.map((c) => c.label.toLowerCase()).join('|')}
+                             --font-size N  --opacity 0-1  --rotation DEG
+  protect <file>             --password PW  --owner-password PW  --allow print,copy,modify
+  unlock <file>              --password PW
+
+Options:
+  -o, --output PATH          Output file (or directory for split)
+  --linearize                Save PDF outputs for fast web view (checked after saving;
+                             not applied to --max-size outputs)
+  -h, --help                 Show this help`;
+
+const OPTIONS = {
+    'output': { type: 'string', short: 'o' },
+    'help': { type: 'boolean', short: 'h' },
+    'linearize': { type: 'boolean' },
+    'quality': { type: 'string' },
+    'level': { type: 'string' },
+    'dpi': { type: 'string' },
+    'color-mode': { type: 'string' },
+    'searchable': { type: 'boolean' },
+    'jpeg-quality': { type: 'string' },
+    'max-size': { type: 'string' },
+    'profiles': { type: 'string' },
+    'chain': { type: 'boolean' },
+    'clean': { type: 'string' },
+    'range': { type: 'string' },
+    'all': { type: 'boolean' },
+    'every': { type: 'string' },
+    'parts': { type: 'string' },
+    'bookmarks': { type: 'boolean' },
+    'depth': { type: 'string' },
+    'degrees': { type: 'string' },
+    'pages': { type: 'string' },
+    'position': { type: 'string' },
+    'format': { type: 'string' },
+    'font-size': { type: 'string' },
+    'start': { type: 'string' },
+    'margin': { type: 'string' },
+    'text': { type: 'string' },
+    'style': { type: 'string' },
+    'color': { type: 'string' },
+    'opacity': { type: 'string' },
+    'rotation': { type: 'string' },
+    'password': { type: 'string' },
+    'owner-password': { type: 'string' },
+    'allow': { type: 'string' },
+} satisfies ParseArgsConfig['options'];
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ARGUMENT HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toNumber(value: string | undefined, name: string, fallback: number): number {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) throw new UsageError(`--${name} must be a number`);
+    return parsed;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, 'b': 1, 'k': 1024, 'kb': 1024, 'm': 1024 ** 2, 'mb': 1024 ** 2, 'g': 1024 ** 3, 'gb': 1024 ** 3 };
+
+function toByteSize(value: string, name: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+    const unit = match ? SIZE_UNITS[match[2].toLowerCase()] : undefined;
+    if (!match || unit === undefined || Number(match[1]) <= 0) {
+        throw new UsageError(`--${name} must be a size such as 2MB or 500KB`);
+    }
+    return Math.round(Number(match[1]) * unit);
+}
+
+function oneOf<T extends string>(value: string | undefined, name: string, allowed: readonly T[], fallback: T): T {
+    if (value === undefined) return fallback;
+    if (!allowed.includes(value as T)) {
+        throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+}
+
+function toCleanItems(value: string | undefined): CleanItem[] | undefined {
+    if (value === undefined) return undefined;
+    const allowed = CLEAN_ITEMS.map(({ item }) => item);
+    if (value.trim() === 'all') return allowed;
+    return value.split(',').map((entry) => oneOf<CleanItem>(entry.trim(), 'clean', allowed, 'thumbnails'));
+}
+
+function requireValue(value: string | undefined, name: string): string {
+    if (!value) throw new UsageError(`--${name} is required`);
+    return value;
+}
+
+function singleInput(inputs: string[]): string {
+    if (inputs.length !== 1) throw new UsageError('Expected exactly one input file');
+    return inputs[0];
+}
+
+function defaultOutput(input: string, suffix: string): string {
+    return join(dirname(input), `${basename(input).replace(/\.pdf$/i, '')}_${suffix}.pdf`);
+}
+
+/** Writes a PDF output with the save options from the command line applied. */
+async function writePdf(path: string, blob: Blob, values: CliValues): Promise<void> {
+    const saved = await applySaveOptions(blob, { linearize: values.linearize ?? false });
+    await writeOutputFile(path, saved.blob);
+    if (saved.linearization) console.error(`${basename(path)} is linearized (verified)`);
+}
+
+/**
+ * Turns off --linearize for outputs measured against a size limit, which are
+ * written exactly as measured: linearizing could push them over the limit.
+ */
+function withoutLinearize(values: CliValues): CliValues {
+    if (values.linearize) console.error('--linearize is ignored for size-limited output');
+    return { ...values, linearize: false };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function splitByMode(file: File, values: CliValues): Promise<SplitResult> {
+    if (values.all) return splitPdfAllPages(file);
+    if (values.every !== undefined) return splitPdfEveryNPages(file, toNumber(values.every, 'every', 1));
+    if (values.parts !== undefined) return splitPdfIntoParts(file, toNumber(values.parts, 'parts', 1));
+    if (values.bookmarks) return splitPdfByOutline(file, toNumber(values.depth, 'depth', 1));
+    if (values['max-size'] !== undefined) return splitPdfBySize(file, toByteSize(values['max-size'], 'max-size'));
+    return splitPdfByRange(file, requireValue(values.range, 'range'));
+}
+
+type Command = (inputs: string[], values: CliValues) => Promise<string>;
+
+const COMMANDS: Record<string, Command> = {
+    async compress(inputs, values) {
+        const input = singleInput(inputs);
+        const quality = oneOf<CompressionQuality>(values.quality, 'quality', ['lossless', 'balanced', 'extreme', 'target', 'profiles'], 'lossless');
+        const result = await compressPDF(await readInputFile(input), {
+            quality,
+            compressionLevel: toNumber(values.level, 'level', 70),
+            rasterDpi: toNumber(values.dpi, 'dpi', DEFAULT_EXTREME_OPTIONS.dpi),
+            colorMode: oneOf<ExtremeColorMode>(values['color-mode'], 'color-mode', ['color', 'grayscale', 'bitonal'], DEFAULT_EXTREME_OPTIONS.colorMode),
+            preserveText: values.searchable ?? false,
+            targetDpi: toNumber(values.dpi, 'dpi', DEFAULT_BALANCED_OPTIONS.targetDpi),
+            jpegQuality: toNumber(values['jpeg-quality'], 'jpeg-quality', DEFAULT_BALANCED_OPTIONS.jpegQuality),
+            ghostscriptPresets: values.profiles?.split(',').map((entry) => (
+                oneOf<GhostscriptPreset>(entry.trim(), 'profiles', ['screen', 'ebook', 'printer', 'prepress'], 'screen')
+            )),
+            chainEngines: values.chain ?? false,
+            clean: toCleanItems(values.clean),
+            targetSize: quality === 'target' ? toByteSize(requireValue(values['max-size'], 'max-size'), 'max-size') : undefined,
+            onProgress: (_, status) => status && console.error(status),
+        });
+        const output = values.output ?? defaultOutput(input, 'compressed');
+        await writePdf(output, result.blob, result.target ? withoutLinearize(values) : values);
+
+        const { target } = result;
+        if (target && !target.reached) {
+            console.error(`Could not get under ${formatBytes(target.targetSize)}; wrote the smallest output found`);
+        }
+        if (result.clean) {
+            const removed = result.clean.removed.filter((entry) => entry.count > 0).map((entry) => `${entry.count} ${entry.item}`);
+            console.error(removed.length > 0
+                ? `Removed ${removed.join(', ')} (${formatBytes(result.clean.bytesSaved)})`
+                : 'Nothing to remove');
+        }
+        const settings = target?.settings ? `, ${target.settings.targetDpi} DPI, JPEG ${target.settings.jpegQuality}` : '';
+        const engine = result.chain ? result.chain.map((step) => step.engine).join(' → ') : result.engine;
+        return `${output} (${formatBytes(result.originalSize)} → ${formatBytes(result.compressedSize)}, ${engine}${settings})`;
+    },
+
+    async analyze(inputs, values) {
+        const input = singleInput(inputs);
+        const json = JSON.stringify(await analyzePdfSize(await readInputFile(input)), null, 2);
+        if (!values.output) return json;
+        await writeOutputFile(values.output, new Blob([json], { type: 'application/json' }));
+        return values.output;
+    },
+
+    async split(inputs, values) {
+        const input = singleInput(inputs);
+        const file = await readInputFile(input);
+        const result = await splitByMode(file, values);
+        const outputDir = values.output ?? dirname(input);
+        const saveValues = result.oversizedPages ? withoutLinearize(values) : values;
+        for (const page of result.pages) {
+            await writePdf(join(outputDir, page.fileName), page.blob, saveValues);
+        }
+        if (result.oversizedPages && result.oversizedPages.length > 0) {
+            console.error(`Over the size limit on their own: page(s) ${result.oversizedPages.join(', ')}`);
+        }
+        return `${result.pages.length} file(s) in ${outputDir}`;
+    },
+
+    async merge(inputs, values) {
+        if (inputs.length < 2) throw new UsageError('merge needs at least two input files');
+        const output = requireValue(values.output, 'output');
+        const files = await Promise.all(inputs.map(readInputFile));
+        await writePdf(output, await mergePdfs(files), values);
+        return output;
+    },
+
+    async rotate(inputs, values) {
+        const input = singleInput(inputs);
+        const file = await readInputFile(input);
+        const degrees = Number(oneOf(values.degrees, 'degrees', ['90', '180', '270'], '90'));
+        const totalPages = await getPdfPageCount(file);
+        const pages = values.pages
+            ? parsePageRange(values.pages, totalPages)
+            : Array.from({ length: totalPages }, (_, i) => i + 1);
+        const rotations = Object.fromEntries(pages.map((page) => [page, degrees]));
+        const output = values.output ?? defaultOutput(input, 'rotated');
+        await writePdf(output, await rotatePages(file, rotations), values);
+        return output;
+    },
+
+    async number(inputs, values) {
+        const input = singleInput(inputs);
+        const blob = await addPageNumbers(await readInputFile(input), {
+            position: oneOf<NumberPosition>(values.position, 'position', NUMBER_POSITIONS.map((p) => p.value), 'bottom-center'),
+            format: oneOf<NumberFormat>(values.format, 'format', NUMBER_FORMATS.map((f) => f.value), 'numeric'),
+            fontSize: toNumber(values['font-size'], 'font-size', 12),
+            startFrom: toNumber(values.start, 'start', 1),
+            margin: toNumber(values.margin, 'margin', 30),
+        });
+        const output = values.output ?? defaultOutput(input, 'numbered');
+        await writePdf(output, blob, values);
+        return output;
+    },
+
+    async watermark(inputs, values) {
+        const input = singleInput(inputs);
+        const colorName = oneOf(values.color, 'color', WATERMARK_COLORS.map((c) => c.label.toLowerCase()), 'gray');
+        const color = WATERMARK_COLORS.find((c) => c.label.toLowerCase() === colorName) ?? WATERMARK_COLORS[0];
+        const blob = await addWatermark(await readInputFile(input), {
+            text: requireValue(values.text, 'text'),
+            fontSize: toNumber(values['font-size'], 'font-size', 48),
+            opacity: toNumber(values.opacity, 'opacity', 0.15),
+            rotation: toNumber(values.rotation, 'rotation', -30),
+            color: { r: color.r, g: color.g, b: color.b },
+            position: oneOf(values.style, 'style', ['tiled', 'center'], 'tiled'),
+        });
+        const output = values.output ?? defaultOutput(input, 'watermarked');
+        await writePdf(output, blob, values);
+        return output;
+    },
+
+    async protect(inputs, values) {
+        const input = singleInput(inputs);
+        const allowed = new Set((values.allow ?? '').split(',').map((entry) => entry.trim()).filter(Boolean));
+        const blob = await protectPdf(await readInputFile(input), {
+            userPassword: requireValue(values.password, 'password'),
+            ownerPassword: values['owner-password'],
+            permissions: {
+                printing: allowed.has('print'),
+                copying: allowed.has('copy'),
+                modifying: allowed.has('modify'),
+            },
+        });
+        const output = values.output ?? defaultOutput(input, 'protected');
+        await writePdf(output, blob, values);
+        return output;
+    },
+
+    async unlock(inputs, values) {
+        const input = singleInput(inputs);
+        const blob = await unlockPdf(await readInputFile(input), requireValue(values.password, 'password'));
+        const output = values.output ?? defaultOutput(input, 'unlocked');
+        await writePdf(output, blob, values);
+        return output;
+    },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ENTRY POINT
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function main(argv: string[]): Promise<number> {
+    let parsed: ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+    try {
+        parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const [commandName, ...inputs] = parsed.positionals;
+    if (parsed.values.help || !commandName) {
+        console.log(USAGE);
+        return parsed.values.help ? 0 : 2;
+    }
+
+    const command = COMMANDS[commandName];
+    if (!command) {
+        console.error(`Unknown command: ${commandName}\n\n${USAGE}`);
+        return 2;
+    }
+
+    setupNodeEnvironment();
+
+    try {
+        console.log(await command(inputs, parsed.values));
+        return 0;
+    } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        return error instanceof UsageError ? 2 : 1;
+    }
+}
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,59 @@
+/**
+ * Node Environment
+ *
+ * Makes the browser-oriented lib modules usable from Node: provides the
+ * File global where missing, loads WASM engines from node_modules instead of
+ * the site root, and converts between paths on disk and File/Blob objects.
+ *
+ * @module node-env
+ */
+
+import { File as NodeFile } from 'node:buffer';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { basename, dirname, extname, join } from 'node:path';
+import { setWasmBinaryLoader, type EngineName } from '../lib/wasm-engines';
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Package files holding each engine binary, resolved from node_modules.
+ * mupdf only exports its entry point, so its .wasm is located next to it.
+ */
+const WASM_PATHS: Record<EngineName, () => string> = {
+    mupdf: () => join(dirname(require.resolve('mupdf')), 'mupdf-wasm.wasm'),
+    qpdf: () => require.resolve('@jspawn/qpdf-wasm/qpdf.wasm'),
+    ghostscript: () => require.resolve('@jspawn/ghostscript-wasm/gs.wasm'),
+};
+
+/**
+ * Installs the globals and loaders the lib modules expect. Call once at startup.
+ */
+export function setupNodeEnvironment(): void {
+    // Node 20 ships File globally; older releases only export it from node:buffer.
+    if (typeof globalThis.File === 'undefined') {
+        (globalThis as { File: unknown }).File = NodeFile;
+    }
+
+    setWasmBinaryLoader(async (engine) => {
+        const bytes = await readFile(WASM_PATHS[engine]());
+        return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    });
+}
+
+/**
+ * Reads a file from disk as a File, keeping its base name.
+ */
+export async function readInputFile(path: string): Promise<File> {
+    const bytes = await readFile(path);
+    const type = extname(path).toLowerCase() === '.pdf' ? 'application/pdf' : '';
+    return new File([bytes], basename(path), { type });
+}
+
+/**
+ * Writes a Blob to disk, creating parent directories as needed.
+ */
+export async function writeOutputFile(path: string, blob: Blob): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, new Uint8Array(await blob.arrayBuffer()));
+}
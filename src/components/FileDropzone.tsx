@@ -1,4 +1,6 @@
-import { useState, useRef, type DragEvent, type ChangeEvent } from 'react';
+import { useEffect, useEffectEvent, useState, useRef, type DragEvent, type ChangeEvent } from 'react';
+import { useLocation } from 'react-router-dom';
+import { takeHandedOffFiles } from '../lib/file-handoff';
 import { formatBytes } from '../lib/shared';
 
 interface FileDropzoneProps {
@@ -20,6 +22,7 @@ export default function FileDropzone({
     const [error, setError] = useState<string | null>(null);
     const [fileName, setFileName] = useState<string | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const { pathname } = useLocation();
 
     // Initialize fileName from selectedFile if provided
     if (selectedFile && !fileName) {
@@ -46,6 +49,16 @@ export default function FileDropzone({
         onFileSelect(file);
     };
 
+    // Pick up a PDF opened from the OS or the share sheet (see /open)
+    const receiveHandedOffFile = useEffectEvent(() => {
+        const files = takeHandedOffFiles(pathname);
+        if (files) validateAndProcessFile(files[0]);
+    });
+
+    useEffect(() => {
+        receiveHandedOffFile();
+    }, []);
+
     const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         setIsDragging(true);
@@ -1,9 +1,19 @@
-import { useState } from "react";
+import { useState, useSyncExternalStore } from "react";
 import { Outlet, Link } from "react-router-dom";
-import { Menu, X } from "lucide-react";
+import { Download, Menu, WifiOff, X } from "lucide-react";
+import {
+  applyUpdate,
+  getOnlineStatus,
+  getPwaState,
+  promptInstall,
+  subscribeOnlineStatus,
+  subscribePwaState,
+} from "../lib/pwa";
 
 export default function Layout() {
   const [mobileOpen, setMobileOpen] = useState(false);
+  const pwa = useSyncExternalStore(subscribePwaState, getPwaState);
+  const isOnline = useSyncExternalStore(subscribeOnlineStatus, getOnlineStatus);
 
   return (
     <>
@@ -16,8 +26,24 @@ export default function Layout() {
             </span>
           </Link>
 
+          {!isOnline && (
+            <span className="flex items-center gap-1.5 ml-3 mr-auto px-2 py-1 text-xs font-bold uppercase tracking-wide bg-yellow-100 text-yellow-800 border-2 border-yellow-800 rounded">
+              <WifiOff className="w-4 h-4" />
+              Offline
+            </span>
+          )}
+
           {/* Desktop nav */}
           <nav className="hidden md:flex items-center gap-4">
+            {pwa.canInstall && (
+              <button
+                onClick={promptInstall}
+                className="flex items-center gap-2 font-bold uppercase tracking-wide px-3 py-1 border-4 border-black rounded-lg hover:bg-gray-100 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Install App
+              </button>
+            )}
             <a
               href="https://github.com/kirank55/mydevicemypdf"
               target="_blank"
@@ -46,6 +72,15 @@ export default function Layout() {
         {mobileOpen && (
           <nav className="md:hidden border-t-2 border-black bg-white">
             <div className="max-w-6xl mx-auto px-4 py-4 flex flex-col gap-3">
+              {pwa.canInstall && (
+                <button
+                  onClick={promptInstall}
+                  className="flex items-center gap-2 font-bold uppercase tracking-wide px-2 py-2 border-l-4 border-transparent hover:border-gray-300 transition-colors text-left"
+                >
+                  <Download className="w-4 h-4" />
+                  Install App
+                </button>
+              )}
               <a
                 href="https://github.com/kirank55/mydevicemypdf"
                 target="_blank"
@@ -57,6 +92,21 @@ export default function Layout() {
             </div>
           </nav>
         )}
+
+        {/* Update banner */}
+        {pwa.updateAvailable && (
+          <div className="border-t-2 border-black bg-black text-white">
+            <div className="max-w-6xl mx-auto px-4 py-2 flex items-center justify-between gap-4">
+              <p className="text-sm font-bold">A new version of MyDeviceMyPDF is available.</p>
+              <button
+                onClick={applyUpdate}
+                className="px-3 py-1 text-sm font-bold uppercase tracking-wide bg-white text-black rounded hover:bg-gray-200 transition-colors"
+              >
+                Reload
+              </button>
+            </div>
+          </div>
+        )}
       </header>
       <main className="flex-1">
         <Outlet />
@@ -84,6 +134,12 @@ export default function Layout() {
           </a>
           <span>•</span>
           <span>100% Browser-Based</span>
+          {pwa.offlineReady && (
+            <>
+              <span>•</span>
+              <span>Works Offline</span>
+            </>
+          )}
         </div>
       </footer>
     </>
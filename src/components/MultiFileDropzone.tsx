@@ -1,5 +1,7 @@
 
-import { useState, useRef, type DragEvent, type ChangeEvent } from 'react';
+import { useEffect, useEffectEvent, useState, useRef, type DragEvent, type ChangeEvent } from 'react';
+import { useLocation } from 'react-router-dom';
+import { takeHandedOffFiles } from '../lib/file-handoff';
 
 interface MultiFileDropzoneProps {
     onFilesSelect: (files: File[]) => void;
@@ -17,6 +19,7 @@ export default function MultiFileDropzone({
     const [isDragging, setIsDragging] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
+    const { pathname } = useLocation();
 
     const validateAndProcessFiles = (fileList: FileList | File[]) => {
         setError(null);
@@ -49,6 +52,16 @@ export default function MultiFileDropzone({
         }
     };
 
+    // Pick up PDFs opened from the OS or the share sheet (see /open)
+    const receiveHandedOffFiles = useEffectEvent(() => {
+        const files = takeHandedOffFiles(pathname);
+        if (files) validateAndProcessFiles(files);
+    });
+
+    useEffect(() => {
+        receiveHandedOffFiles();
+    }, []);
+
     const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         setIsDragging(true);
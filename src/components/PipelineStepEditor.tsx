@@ -0,0 +1,255 @@
+import {
+    NUMBER_FORMATS,
+    NUMBER_POSITIONS,
+    WATERMARK_COLORS,
+    type NumberFormat,
+    type NumberPosition,
+    type PageNumberOptions,
+    type WatermarkOptions,
+} from '../lib/pdf-annotations';
+import { CLEAN_ITEMS, type CleanItem } from '../lib/pdf-clean';
+import type { CompressStepOptions, PipelineStep, RemovePagesStepOptions } from '../lib/pdf-pipeline';
+import { DEFAULT_BALANCED_OPTIONS, DEFAULT_EXTREME_OPTIONS } from '../lib/pdf-utils';
+
+interface PipelineStepEditorProps {
+    step: PipelineStep;
+    onChange: (step: PipelineStep) => void;
+}
+
+const labelClass = 'block font-bold text-xs uppercase tracking-wide text-gray-500 mb-2';
+const inputClass = 'w-full px-3 py-2 font-bold border-4 border-black rounded-lg';
+
+function optionButtonClass(selected: boolean): string {
+    return `px-3 py-2 text-xs font-bold uppercase rounded-lg border-4 transition-all ${selected ? 'border-black bg-black text-white' : 'border-gray-300 hover:border-gray-400'}`;
+}
+
+function RemovePagesEditor({ options, onChange }: { options: RemovePagesStepOptions; onChange: (options: RemovePagesStepOptions) => void }) {
+    return (
+        <div>
+            <label className={labelClass}>Pages to Remove</label>
+            <input
+                type="text"
+                value={options.pages}
+                onChange={(e) => onChange({ pages: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. 1, 3-5"
+            />
+            <p className="mt-1 text-xs text-gray-500">Page numbers refer to the document at this step.</p>
+        </div>
+    );
+}
+
+export function PageNumbersEditor({ options, onChange }: { options: PageNumberOptions; onChange: (options: PageNumberOptions) => void }) {
+    return (
+        <div className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass}>Position</label>
+                    <select
+                        value={options.position}
+                        onChange={(e) => onChange({ ...options, position: e.target.value as NumberPosition })}
+                        className={inputClass}
+                    >
+                        {NUMBER_POSITIONS.map(pos => <option key={pos.value} value={pos.value}>{pos.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Format</label>
+                    <select
+                        value={options.format}
+                        onChange={(e) => onChange({ ...options, format: e.target.value as NumberFormat })}
+                        className={inputClass}
+                    >
+                        {NUMBER_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Font Size</label>
+                    <input
+                        type="number"
+                        value={options.fontSize}
+                        onChange={(e) => onChange({ ...options, fontSize: Math.max(6, Math.min(48, parseInt(e.target.value) || 12)) })}
+                        className={inputClass}
+                        min="6" max="48"
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Start From</label>
+                    <input
+                        type="number"
+                        value={options.startFrom}
+                        onChange={(e) => onChange({ ...options, startFrom: Math.max(0, parseInt(e.target.value) || 1) })}
+                        className={inputClass}
+                        min="0"
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Margin (pt)</label>
+                    <input
+                        type="number"
+                        value={options.margin}
+                        onChange={(e) => onChange({ ...options, margin: Math.max(5, Math.min(100, parseInt(e.target.value) || 30)) })}
+                        className={inputClass}
+                        min="5" max="100"
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function WatermarkEditor({ options, onChange }: { options: WatermarkOptions; onChange: (options: WatermarkOptions) => void }) {
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className={labelClass}>Watermark Text</label>
+                <input
+                    type="text"
+                    value={options.text}
+                    onChange={(e) => onChange({ ...options, text: e.target.value })}
+                    className={inputClass}
+                    placeholder="Enter watermark text"
+                />
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <div className="flex gap-2">
+                    {(['tiled', 'center'] as const).map(p => (
+                        <button key={p} onClick={() => onChange({ ...options, position: p })} className={optionButtonClass(options.position === p)}>
+                            {p === 'tiled' ? 'Tiled' : 'Center'}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    {WATERMARK_COLORS.map(c => {
+                        const selected = options.color.r === c.r && options.color.g === c.g && options.color.b === c.b;
+                        return (
+                            <button
+                                key={c.label}
+                                onClick={() => onChange({ ...options, color: { r: c.r, g: c.g, b: c.b } })}
+                                className={`w-8 h-8 rounded-full border-4 transition-all ${selected ? 'border-black scale-110' : 'border-gray-300 hover:border-gray-400'}`}
+                                style={{ backgroundColor: `rgb(${c.r * 255}, ${c.g * 255}, ${c.b * 255})` }}
+                                title={c.label}
+                            />
+                        );
+                    })}
+                </div>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+                <div>
+                    <label className={labelClass}>Font Size: {options.fontSize}</label>
+                    <input type="range" min="12" max="120" value={options.fontSize} onChange={(e) => onChange({ ...options, fontSize: Number(e.target.value) })} className="w-full accent-black" />
+                </div>
+                <div>
+                    <label className={labelClass}>Opacity: {Math.round(options.opacity * 100)}%</label>
+                    <input type="range" min="0.01" max="0.5" step="0.01" value={options.opacity} onChange={(e) => onChange({ ...options, opacity: Number(e.target.value) })} className="w-full accent-black" />
+                </div>
+                <div>
+                    <label className={labelClass}>Rotation: {options.rotation}°</label>
+                    <input type="range" min="-90" max="90" value={options.rotation} onChange={(e) => onChange({ ...options, rotation: Number(e.target.value) })} className="w-full accent-black" />
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function CompressEditor({ options, onChange }: { options: CompressStepOptions; onChange: (options: CompressStepOptions) => void }) {
+    const level = options.compressionLevel ?? 70;
+    const rasterDpi = options.rasterDpi ?? DEFAULT_EXTREME_OPTIONS.dpi;
+    const colorMode = options.colorMode ?? DEFAULT_EXTREME_OPTIONS.colorMode;
+    const targetDpi = options.targetDpi ?? DEFAULT_BALANCED_OPTIONS.targetDpi;
+    const jpegQuality = options.jpegQuality ?? DEFAULT_BALANCED_OPTIONS.jpegQuality;
+    const targetSizeMb = (options.targetSize ?? 2 * 1024 * 1024) / (1024 * 1024);
+    const clean = options.clean ?? [];
+    const toggleClean = (item: CleanItem) => onChange({
+        ...options,
+        clean: clean.includes(item) ? clean.filter((entry) => entry !== item) : [...clean, item],
+    });
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {(['lossless', 'balanced', 'extreme', 'target', 'profiles'] as const).map(q => (
+                    <button key={q} onClick={() => onChange({ ...options, quality: q })} className={optionButtonClass(options.quality === q)}>
+                        {{ lossless: 'Lossless', balanced: 'Balanced', extreme: 'Extreme', target: 'Target Size', profiles: 'GS Profiles' }[q]}
+                    </button>
+                ))}
+            </div>
+            {(options.quality === 'lossless' || options.quality === 'profiles') && (
+                <label className="flex items-center gap-2 text-xs font-bold uppercase text-gray-500">
+                    <input type="checkbox" checked={options.chainEngines ?? false} onChange={(e) => onChange({ ...options, chainEngines: e.target.checked })} className="accent-black" />
+                    Chain Engines
+                </label>
+            )}
+            {options.quality === 'balanced' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Image DPI: {targetDpi}</label>
+                        <input type="range" min="72" max="300" step="6" value={targetDpi} onChange={(e) => onChange({ ...options, targetDpi: Number(e.target.value) })} className="w-full accent-black" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>JPEG Quality: {jpegQuality}</label>
+                        <input type="range" min="10" max="95" value={jpegQuality} onChange={(e) => onChange({ ...options, jpegQuality: Number(e.target.value) })} className="w-full accent-black" />
+                    </div>
+                </div>
+            )}
+            {options.quality === 'target' && (
+                <div>
+                    <label className={labelClass}>Maximum Size (MB)</label>
+                    <input type="number" min="0.1" step="0.1" value={targetSizeMb} onChange={(e) => onChange({ ...options, targetSize: Math.round(Number(e.target.value) * 1024 * 1024) })} className={inputClass} />
+                </div>
+            )}
+            {options.quality === 'extreme' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Resolution: {rasterDpi} DPI</label>
+                        <input type="range" min="36" max="300" step="2" value={rasterDpi} onChange={(e) => onChange({ ...options, rasterDpi: Number(e.target.value) })} className="w-full accent-black" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Compression Level: {level}%</label>
+                        <input type="range" min="1" max="99" value={level} onChange={(e) => onChange({ ...options, compressionLevel: Number(e.target.value) })} className="w-full accent-black" />
+                    </div>
+                    <div className="flex gap-2">
+                        {(['color', 'grayscale', 'bitonal'] as const).map(mode => (
+                            <button key={mode} onClick={() => onChange({ ...options, colorMode: mode })} className={optionButtonClass(colorMode === mode)}>
+                                {{ color: 'Color', grayscale: 'Gray', bitonal: 'B&W' }[mode]}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-bold uppercase text-gray-500">
+                        <input type="checkbox" checked={options.preserveText ?? false} onChange={(e) => onChange({ ...options, preserveText: e.target.checked })} className="accent-black" />
+                        Searchable
+                    </label>
+                </div>
+            )}
+            <div>
+                <label className={labelClass}>Remove First</label>
+                <div className="flex flex-wrap gap-2">
+                    {CLEAN_ITEMS.map(({ item, label }) => (
+                        <button key={item} onClick={() => toggleClean(item)} className={optionButtonClass(clean.includes(item))}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Renders the option form for a single pipeline step.
+ */
+export default function PipelineStepEditor({ step, onChange }: PipelineStepEditorProps) {
+    switch (step.kind) {
+        case 'merge':
+            return <p className="text-sm text-gray-500">Combines all selected PDFs in the order listed.</p>;
+        case 'remove-pages':
+            return <RemovePagesEditor options={step.options} onChange={(options) => onChange({ ...step, options })} />;
+        case 'add-page-numbers':
+            return <PageNumbersEditor options={step.options} onChange={(options) => onChange({ ...step, options })} />;
+        case 'add-watermark':
+            return <WatermarkEditor options={step.options} onChange={(options) => onChange({ ...step, options })} />;
+        case 'compress':
+            return <CompressEditor options={step.options} onChange={(options) => onChange({ ...step, options })} />;
+    }
+}
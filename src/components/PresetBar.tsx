@@ -0,0 +1,158 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { PipelineStep, PipelineStepOptionsMap } from '../lib/pdf-pipeline';
+import {
+    deletePreset,
+    listRecipes,
+    listToolPresets,
+    saveRecipe,
+    saveToolPreset,
+    type Preset,
+    type PresetTool,
+    type RecipePreset,
+    type ToolPreset,
+} from '../lib/presets';
+
+type PresetBarProps =
+    | { scope: 'recipe'; value: PipelineStep[]; onApply: (preset: RecipePreset) => void }
+    | {
+        [K in PresetTool]: {
+            scope: K;
+            value: PipelineStepOptionsMap[K];
+            onApply: (preset: Extract<ToolPreset, { tool: K }>) => void;
+        };
+    }[PresetTool];
+
+function loadPresets(scope: PresetBarProps['scope']): Promise<Preset[]> {
+    return scope === 'recipe' ? listRecipes() : listToolPresets(scope);
+}
+
+/**
+ * Lets the user save the current tool settings (or pipeline steps) under a
+ * name and load them again later. Also applies the preset named in the
+ * `?preset=` query parameter, which is how HomePage launches presets.
+ */
+export default function PresetBar(props: PresetBarProps) {
+    const { scope } = props;
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [presets, setPresets] = useState<Preset[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [isNaming, setIsNaming] = useState(false);
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const requestedId = searchParams.get('preset');
+
+    const applyPreset = (preset: Preset) => {
+        // loadPresets only returns presets of this scope, so the cast is safe.
+        (props.onApply as (preset: Preset) => void)(preset);
+        setSelectedId(preset.id);
+    };
+    const applyRequestedPreset = useEffectEvent(applyPreset);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadPresets(scope)
+            .then((loaded) => {
+                if (cancelled) return;
+                setPresets(loaded);
+                const requested = requestedId ? loaded.find((preset) => preset.id === requestedId) : undefined;
+                if (requested) {
+                    applyRequestedPreset(requested);
+                    setSearchParams((params) => {
+                        params.delete('preset');
+                        return params;
+                    }, { replace: true });
+                }
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load presets');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [scope, requestedId, setSearchParams]);
+
+    const handleSelect = (id: string) => {
+        const preset = presets.find((candidate) => candidate.id === id);
+        if (preset) applyPreset(preset);
+        else setSelectedId('');
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setError(null);
+        try {
+            const saved = props.scope === 'recipe'
+                ? await saveRecipe(name, props.value)
+                : await saveToolPreset(name, props.scope, props.value);
+            setPresets((prev) => [saved, ...prev]);
+            setSelectedId(saved.id);
+            setIsNaming(false);
+            setName('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save preset');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selectedId) return;
+        setError(null);
+        try {
+            await deletePreset(selectedId);
+            setPresets((prev) => prev.filter((preset) => preset.id !== selectedId));
+            setSelectedId('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete preset');
+        }
+    };
+
+    return (
+        <div className="p-4 bg-white border-4 border-black rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="font-bold text-sm uppercase tracking-wide text-gray-500">
+                    {scope === 'recipe' ? 'Recipe' : 'Preset'}
+                </label>
+                <select
+                    value={selectedId}
+                    onChange={(e) => handleSelect(e.target.value)}
+                    className="flex-1 min-w-40 px-3 py-2 font-bold border-2 border-black rounded-lg"
+                >
+                    <option value="">{presets.length === 0 ? 'No saved presets' : 'Choose a saved preset...'}</option>
+                    {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+                {selectedId && (
+                    <button onClick={handleDelete} className="px-3 py-2 text-sm font-bold uppercase tracking-wide text-red-600 border-2 border-red-500 rounded-lg hover:bg-red-50 transition-colors">
+                        Delete
+                    </button>
+                )}
+                {!isNaming && (
+                    <button onClick={() => setIsNaming(true)} className="px-3 py-2 text-sm font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 transition-colors">
+                        Save Current
+                    </button>
+                )}
+            </div>
+
+            {isNaming && (
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') void handleSave(); }}
+                        className="flex-1 px-3 py-2 font-bold border-2 border-black rounded-lg"
+                        placeholder="Preset name"
+                        autoFocus
+                    />
+                    <button onClick={handleSave} disabled={!name.trim()} className="px-3 py-2 text-sm font-bold uppercase tracking-wide text-white bg-black border-2 border-black rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors">
+                        Save
+                    </button>
+                    <button onClick={() => { setIsNaming(false); setName(''); }} className="px-3 py-2 text-sm font-bold uppercase tracking-wide border-2 border-gray-300 rounded-lg hover:bg-gray-100 transition-colors">
+                        Cancel
+                    </button>
+                </div>
+            )}
+
+            {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+        </div>
+    );
+}
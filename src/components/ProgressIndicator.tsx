@@ -2,12 +2,14 @@ interface ProgressIndicatorProps {
     progress: number; // 0-100
     status?: string;
     showPercentage?: boolean;
+    onCancel?: () => void;
 }
 
 export default function ProgressIndicator({
     progress,
     status = 'Processing...',
     showPercentage = true,
+    onCancel,
 }: ProgressIndicatorProps) {
     const clampedProgress = Math.min(100, Math.max(0, progress));
 
@@ -48,6 +50,19 @@ export default function ProgressIndicator({
                 )}
             </div>
 
+            {/* Cancel button while the job is running */}
+            {onCancel && progress < 100 && (
+                <div className="flex justify-end mt-3">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
+
             {/* Completion indicator */}
             {progress >= 100 && (
                 <div className="flex items-center gap-2 mt-3 text-green-600 font-bold">
@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react';
+import { getSaveState, setSaveOptions, subscribeSaveState } from '../lib/pdf-download';
+
+/**
+ * Output options shared by every tool, and whether the last download got them.
+ */
+export default function SaveOptionsPanel() {
+    const { options, saving, lastSave } = useSyncExternalStore(subscribeSaveState, getSaveState);
+
+    return (
+        <div className="p-4 rounded-xl border-2 border-gray-100">
+            <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.linearize}
+                    onChange={(event) => setSaveOptions({ ...options, linearize: event.target.checked })}
+                    className="w-5 h-5 mt-0.5 accent-black"
+                />
+                <span>
+                    <span className="block font-bold text-sm text-gray-700">Fast web view (linearize)</span>
+                    <span className="block text-xs text-gray-500">
+                        Downloaded PDFs open at the first page while the rest is still loading from a web server.
+                    </span>
+                </span>
+            </label>
+            {saving && <p className="text-xs font-bold text-gray-500 mt-2">Linearizing...</p>}
+            {!saving && lastSave && (
+                <p className={`text-xs font-bold mt-2 ${lastSave.linearized ? 'text-green-700' : 'text-red-600'}`}>
+                    {lastSave.linearized
+                        ? `${lastSave.fileName} is linearized (verified)`
+                        : `${lastSave.fileName} was saved without fast web view: ${lastSave.error}`}
+                </p>
+            )}
+        </div>
+    );
+}
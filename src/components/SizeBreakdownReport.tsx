@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { SIZE_CATEGORY_LABELS, type SizeBreakdown, type SizeCategory } from '../lib/pdf-analyze';
+import { downloadBlob, formatBytes } from '../lib/shared';
+
+interface SizeBreakdownReportProps {
+    report: SizeBreakdown;
+    /** Used to name the exported JSON file */
+    fileName: string;
+}
+
+const CATEGORY_COLORS: Record<SizeCategory, string> = {
+    images: 'bg-blue-500',
+    fonts: 'bg-purple-500',
+    content: 'bg-green-500',
+    metadata: 'bg-yellow-500',
+    attachments: 'bg-orange-500',
+    unused: 'bg-red-500',
+    other: 'bg-gray-400',
+};
+
+/** Rows shown per table before "Show all" */
+const PREVIEW_ROWS = 5;
+
+function percentOf(bytes: number, total: number): string {
+    return total > 0 ? `${Math.round((bytes / total) * 100)}%` : '0%';
+}
+
+function formatPages(pages: number[]): string {
+    if (pages.length === 0) return 'unused';
+    if (pages.length > 4) return `${pages.length} pages`;
+    return pages.join(', ');
+}
+
+/**
+ * Shows where the bytes of a PDF go: a bar per category, then the largest
+ * images, fonts, attachments and pages. The full report exports as JSON.
+ */
+export default function SizeBreakdownReport({ report, fileName }: SizeBreakdownReportProps) {
+    const [showAll, setShowAll] = useState(false);
+    const categories = (Object.keys(SIZE_CATEGORY_LABELS) as SizeCategory[]).filter((category) => report.totals[category] > 0);
+    const rows = <T,>(items: T[]) => (showAll ? items : items.slice(0, PREVIEW_ROWS));
+    const largestPages = [...report.pages].sort((a, b) => b.total - a.total);
+
+    const handleExport = () => {
+        const json = JSON.stringify(report, null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${fileName.replace(/\.pdf$/i, '')}_size-report.json`);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <div className="flex h-4 rounded-full overflow-hidden bg-gray-200">
+                    {categories.map((category) => (
+                        <div
+                            key={category}
+                            className={CATEGORY_COLORS[category]}
+                            style={{ width: percentOf(report.totals[category], report.fileSize) }}
+                            title={SIZE_CATEGORY_LABELS[category]}
+                        />
+                    ))}
+                </div>
+                <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-3 text-sm">
+                    {categories.map((category) => (
+                        <li key={category} className="flex items-center gap-2">
+                            <span className={`w-3 h-3 rounded-sm shrink-0 ${CATEGORY_COLORS[category]}`} />
+                            <span className="font-bold">{SIZE_CATEGORY_LABELS[category]}</span>
+                            <span className="text-gray-500">
+                                {formatBytes(report.totals[category])} ({percentOf(report.totals[category], report.fileSize)})
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+                {report.unusedObjectCount > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">
+                        {report.unusedObjectCount} of {report.objectCount} objects are not referenced anywhere; lossless compression drops them.
+                    </p>
+                )}
+            </div>
+
+            {report.images.length > 0 && (
+                <div>
+                    <h5 className="font-black mb-2">Images ({report.images.length})</h5>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-gray-500">
+                                <th className="py-1">Size</th>
+                                <th>Pixels</th>
+                                <th>DPI</th>
+                                <th>Encoding</th>
+                                <th>Pages</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows(report.images).map((image) => (
+                                <tr key={image.objectNumber} className="border-t border-gray-100">
+                                    <td className="py-1 font-bold">{formatBytes(image.bytes)}</td>
+                                    <td>{image.width} × {image.height}</td>
+                                    <td>{image.dpi ?? '—'}</td>
+                                    <td>{image.filter}, {image.colorSpace}</td>
+                                    <td>{formatPages(image.pages)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {report.fonts.length > 0 && (
+                <div>
+                    <h5 className="font-black mb-2">Fonts ({report.fonts.length})</h5>
+                    <table className="w-full text-sm">
+                        <tbody>
+                            {rows(report.fonts).map((font) => (
+                                <tr key={font.objectNumber} className="border-t border-gray-100">
+                                    <td className="py-1 font-bold">{formatBytes(font.bytes)}</td>
+                                    <td className="truncate max-w-48">{font.name}</td>
+                                    <td>{font.type}</td>
+                                    <td className={font.embedded && !font.subset ? 'font-bold text-orange-600' : 'text-gray-500'}>
+                                        {!font.embedded ? 'Not embedded' : font.subset ? 'Subset' : 'Full font'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {report.attachments.length > 0 && (
+                <div>
+                    <h5 className="font-black mb-2">Attachments ({report.attachments.length})</h5>
+                    <ul className="text-sm space-y-1">
+                        {report.attachments.map((attachment) => (
+                            <li key={attachment.name}>
+                                <span className="font-bold">{formatBytes(attachment.bytes)}</span> {attachment.name}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div>
+                <h5 className="font-black mb-2">Largest Pages</h5>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs uppercase text-gray-500">
+                            <th className="py-1">Page</th>
+                            <th>Total</th>
+                            <th>Images</th>
+                            <th>Fonts</th>
+                            <th>Content</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows(largestPages).map((page) => (
+                            <tr key={page.pageNumber} className="border-t border-gray-100">
+                                <td className="py-1 font-bold">{page.pageNumber}</td>
+                                <td>{formatBytes(page.total)}</td>
+                                <td>{formatBytes(page.images)}</td>
+                                <td>{formatBytes(page.fonts)}</td>
+                                <td>{formatBytes(page.content)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-1">Images and fonts shared between pages count on every page that uses them.</p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+                <button onClick={() => setShowAll(!showAll)} className="px-4 py-2 border-2 border-gray-300 font-bold rounded-lg hover:border-black">
+                    {showAll ? 'Show Less' : 'Show All'}
+                </button>
+                <button onClick={handleExport} className="px-4 py-2 border-2 border-black font-bold rounded-lg hover:bg-gray-100">
+                    Export JSON
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,12 +1,15 @@
 import type { ReactNode } from 'react';
+import SaveOptionsPanel from './SaveOptionsPanel';
 
 interface ToolPageTemplateProps {
     title: string;
     description: string;
     children: ReactNode;
+    /** Show the save options shared by every tool; off for tools that do not save PDFs */
+    saveOptions?: boolean;
 }
 
-export default function ToolPageTemplate({ title, description, children }: ToolPageTemplateProps) {
+export default function ToolPageTemplate({ title, description, children, saveOptions = true }: ToolPageTemplateProps) {
     return (
         <div className="max-w-4xl mx-auto px-4 py-12">
             {/* Header */}
@@ -23,6 +26,7 @@ export default function ToolPageTemplate({ title, description, children }: ToolP
             {/* Main content */}
             <div className="space-y-8">
                 {children}
+                {saveOptions && <SaveOptionsPanel />}
             </div>
         </div>
     );
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { PageDiff, VisualDiffReport } from '../lib/pdf-verify';
+
+export interface VisualDiffState {
+    status: 'running' | 'done' | 'failed';
+    progress: number;
+    report: VisualDiffReport | null;
+    error: string | null;
+}
+
+interface VisualDiffPreviewProps {
+    state: VisualDiffState;
+}
+
+function formatScore(score: number): string {
+    return `${(score * 100).toFixed(score < 0.1 ? 1 : 0)}%`;
+}
+
+function PagePair({ page }: { page: PageDiff }) {
+    return (
+        <div className={`p-3 rounded-lg border-2 ${page.flagged ? 'border-red-300 bg-red-50' : 'border-gray-100 bg-white'}`}>
+            <div className="flex justify-between items-center mb-2 text-sm">
+                <span className="font-bold">Page {page.pageNumber}</span>
+                <span className={`font-bold ${page.flagged ? 'text-red-600' : 'text-gray-500'}`}>
+                    {formatScore(page.score)} changed
+                </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {([['Original', page.originalPreview], ['Compressed', page.compressedPreview]] as const).map(([label, preview]) => (
+                    <figure key={label} className="text-center">
+                        {preview ? (
+                            <img src={preview} alt={`${label} page ${page.pageNumber}`} className="w-full border border-gray-200" />
+                        ) : (
+                            <div className="aspect-[3/4] flex items-center justify-center border border-dashed border-gray-300 text-xs text-gray-400">
+                                Missing
+                            </div>
+                        )}
+                        <figcaption className="text-xs text-gray-500 mt-1">{label}</figcaption>
+                    </figure>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Shows the outcome of a visual comparison: a summary, then original and
+ * compressed renders side by side for flagged pages (or every page on request).
+ */
+export default function VisualDiffPreview({ state }: VisualDiffPreviewProps) {
+    const [showAll, setShowAll] = useState(false);
+
+    if (state.status === 'running') {
+        return <p className="text-sm font-bold text-gray-500">Comparing pages... {state.progress}%</p>;
+    }
+
+    if (state.status === 'failed' || !state.report) {
+        return <p className="text-sm text-red-600">Could not compare pages: {state.error || 'Unknown error'}</p>;
+    }
+
+    const { report } = state;
+    const flagged = report.pages.filter((page) => page.flagged);
+    const visible = showAll ? report.pages : flagged;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className={`text-sm font-bold ${flagged.length > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {flagged.length > 0
+                        ? `${flagged.length} of ${report.pages.length} pages look different (page ${report.flaggedPages.join(', ')})`
+                        : `All ${report.pages.length} pages match within ${formatScore(report.threshold)}`}
+                </p>
+                <button onClick={() => setShowAll(!showAll)} className="text-sm font-bold underline">
+                    {showAll ? 'Show flagged pages only' : 'Show all pages'}
+                </button>
+            </div>
+            {visible.length > 0 && (
+                <div className="grid sm:grid-cols-2 gap-3">
+                    {visible.map((page) => <PagePair key={page.pageNumber} page={page} />)}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,70 @@
+import type { LucideIcon } from 'lucide-react';
+import {
+    Merge, Scissors, Minimize2, Trash2, GripVertical, RotateCw,
+    Image, FileImage,
+    Hash, Droplets,
+    Workflow, Layers,
+    // Wrench, Lock, Unlock, PenTool, FileCheck,
+} from 'lucide-react';
+
+export interface ToolInfo {
+    name: string;
+    route: string;
+    /** What the tool's dropzone takes: one PDF, several PDFs, or images */
+    input: 'pdf' | 'pdfs' | 'images';
+    icon: LucideIcon;
+    description: string;
+}
+
+export interface ToolCategory {
+    name: string;
+    tools: ToolInfo[];
+}
+
+/**
+ * Every tool shown on the home page, grouped by category.
+ */
+export const TOOL_CATEGORIES: ToolCategory[] = [
+    {
+        name: 'Organize & Manage',
+        tools: [
+            { name: 'Merge PDF', route: '/merge-pdf', input: 'pdfs', icon: Merge, description: 'Combine multiple PDFs into one' },
+            { name: 'Split PDF', route: '/split-pdf', input: 'pdf', icon: Scissors, description: 'Separate one PDF into multiple files' },
+            { name: 'Remove Pages', route: '/remove-pages', input: 'pdf', icon: Trash2, description: 'Delete specific pages from a file' },
+            { name: 'Organize PDF', route: '/organize-pdf', input: 'pdf', icon: GripVertical, description: 'Sort, add, and delete PDF pages' },
+            { name: 'Rotate PDF', route: '/rotate-pdf', input: 'pdf', icon: RotateCw, description: 'Rotate pages within a document' },
+        ],
+    },
+    {
+        name: 'Optimize',
+        tools: [
+            { name: 'Compress PDF', route: '/compress-pdf', input: 'pdf', icon: Minimize2, description: 'Reduce the file size of your PDF' },
+            // { name: 'Repair PDF', route: '/repair-pdf', icon: Wrench, description: 'Recover data from a corrupted PDF' },
+        ],
+    },
+    {
+        name: 'Convert',
+        tools: [
+            { name: 'JPG to PDF', route: '/jpg-to-pdf', input: 'images', icon: Image, description: 'Convert images to PDF' },
+            { name: 'PDF to JPG', route: '/pdf-to-jpg', input: 'pdf', icon: FileImage, description: 'Save pages as images' },
+            // { name: 'PDF to PDF/A', route: '/convert-pdf-to-pdfa', icon: FileCheck, description: 'Convert to archival format' },
+        ],
+    },
+    {
+        name: 'Edit & Security',
+        tools: [
+            { name: 'Add Page Numbers', route: '/add-pdf-page-number', input: 'pdf', icon: Hash, description: 'Add numbering to pages' },
+            { name: 'Add Watermark', route: '/pdf-add-watermark', input: 'pdf', icon: Droplets, description: 'Stamp text or images over PDF' },
+            // { name: 'Sign PDF', route: '/sign-pdf', icon: PenTool, description: 'Add a digital signature' },
+            // { name: 'Protect PDF', route: '/protect-pdf', icon: Lock, description: 'Add password protection' },
+            // { name: 'Unlock PDF', route: '/unlock-pdf', icon: Unlock, description: 'Remove password security' },
+        ],
+    },
+    {
+        name: 'Workflows',
+        tools: [
+            { name: 'PDF Pipeline', route: '/pdf-pipeline', input: 'pdfs', icon: Workflow, description: 'Chain tools and run them in one go' },
+            { name: 'Batch Process', route: '/batch-pdf', input: 'pdfs', icon: Layers, description: 'Apply one tool to many PDFs at once' },
+        ],
+    },
+];
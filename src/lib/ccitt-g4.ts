@@ -0,0 +1,192 @@
+/**
+ * CCITT Group 4 Encoder
+ *
+ * Encodes 1-bit images with ITU-T T.6 (Group 4 fax) two-dimensional coding,
+ * the format PDF readers decode with the CCITTFaxDecode filter (K = -1).
+ * Scanned text pages typically come out several times smaller than Flate.
+ *
+ * Each row is coded against the row above it (the first row against an
+ * imaginary white row) using pass, vertical and horizontal modes; see T.4
+ * section 4.2 for the mode selection this follows.
+ *
+ * @module ccitt-g4
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CODE TABLES (ITU-T T.4)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Terminating codes for white runs of 0-63 pixels */
+const WHITE_TERMINATING = [
+    '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+    '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+    '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+    '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+    '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+    '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+    '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+    '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+];
+
+/** Terminating codes for black runs of 0-63 pixels */
+const BLACK_TERMINATING = [
+    '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+    '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+    '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+    '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+    '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+    '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+    '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+    '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111',
+];
+
+/** Make-up codes for white runs of 64-1728 pixels (multiples of 64) */
+const WHITE_MAKEUP = [
+    '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101',
+    '01101000', '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101',
+    '011010110', '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001',
+    '010011010', '011000', '010011011',
+];
+
+/** Make-up codes for black runs of 64-1728 pixels (multiples of 64) */
+const BLACK_MAKEUP = [
+    '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101', '0000001101100',
+    '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101', '0000001110010', '0000001110011', '0000001110100',
+    '0000001110101', '0000001110110', '0000001110111', '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010',
+    '0000001011011', '0000001100100', '0000001100101',
+];
+
+/** Make-up codes shared by both colors for runs of 1792-2560 pixels */
+const EXTENDED_MAKEUP = [
+    '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101',
+    '000000010110', '000000010111', '000000011100', '000000011101', '000000011110', '000000011111',
+];
+
+const PASS_CODE = '0001';
+const HORIZONTAL_CODE = '001';
+/** Vertical mode codes, indexed by (b1 - a1) + 3 */
+const VERTICAL_CODES = ['0000011', '000011', '011', '1', '010', '000010', '0000010'];
+/** End of facsimile block: two EOL codes */
+const EOFB = '000000000001000000000001';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BIT WRITER
+// ─────────────────────────────────────────────────────────────────────────────
+
+class BitWriter {
+    private bytes = new Uint8Array(4096);
+    private length = 0;
+    private current = 0;
+    private bitCount = 0;
+
+    write(code: string): void {
+        for (let i = 0; i < code.length; i++) {
+            this.current = (this.current << 1) | (code.charCodeAt(i) === 49 ? 1 : 0);
+            if (++this.bitCount === 8) this.flushByte();
+        }
+    }
+
+    finish(): Uint8Array {
+        if (this.bitCount > 0) {
+            this.current <<= 8 - this.bitCount;
+            this.flushByte();
+        }
+        return this.bytes.slice(0, this.length);
+    }
+
+    private flushByte(): void {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = this.current;
+        this.current = 0;
+        this.bitCount = 0;
+    }
+}
+
+function writeRun(writer: BitWriter, run: number, black: boolean): void {
+    while (run >= 2560 + 64) {
+        writer.write(EXTENDED_MAKEUP[EXTENDED_MAKEUP.length - 1]);
+        run -= 2560;
+    }
+    if (run >= 1792) {
+        writer.write(EXTENDED_MAKEUP[(run >> 6) - 28]);
+        run &= 63;
+    } else if (run >= 64) {
+        writer.write((black ? BLACK_MAKEUP : WHITE_MAKEUP)[(run >> 6) - 1]);
+        run &= 63;
+    }
+    writer.write((black ? BLACK_TERMINATING : WHITE_TERMINATING)[run]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ENCODER
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Returns the first position at or after `start` whose pixel is not `color`,
+ * or `width` when the rest of the row is `color`.
+ */
+function nextChange(row: Uint8Array, offset: number, start: number, width: number, color: number): number {
+    let position = start;
+    while (position < width && row[offset + position] === color) position++;
+    return position;
+}
+
+/**
+ * Encodes a 1-bit image with CCITT Group 4.
+ *
+ * @param pixels - One byte per pixel, row by row; 1 is black, 0 is white
+ * @param width - Pixels per row
+ * @param height - Number of rows
+ * @returns Data for a CCITTFaxDecode stream with K -1, Columns `width`,
+ *          Rows `height` and the default BlackIs1 false
+ */
+export function encodeCcittG4(pixels: Uint8Array, width: number, height: number): Uint8Array {
+    const writer = new BitWriter();
+    const white = new Uint8Array(width);
+
+    for (let y = 0; y < height; y++) {
+        const rowOffset = y * width;
+        const reference = y === 0 ? white : pixels;
+        const referenceOffset = y === 0 ? 0 : (y - 1) * width;
+        const pixel = (x: number) => pixels[rowOffset + x];
+        const referencePixel = (x: number) => reference[referenceOffset + x];
+
+        let a0 = 0;
+        let a1 = pixel(0) !== 0 ? 0 : nextChange(pixels, rowOffset, 0, width, 0);
+        let b1 = referencePixel(0) !== 0 ? 0 : nextChange(reference, referenceOffset, 0, width, 0);
+
+        for (;;) {
+            const b2 = b1 < width ? nextChange(reference, referenceOffset, b1, width, referencePixel(b1)) : width;
+
+            if (b2 < a1) {
+                writer.write(PASS_CODE);
+                a0 = b2;
+            } else if (Math.abs(b1 - a1) <= 3) {
+                writer.write(VERTICAL_CODES[b1 - a1 + 3]);
+                a0 = a1;
+            } else {
+                const a2 = a1 < width ? nextChange(pixels, rowOffset, a1, width, pixel(a1)) : width;
+                // At the start of a row a0 sits on an imaginary white pixel.
+                const firstIsBlack = a0 + a1 !== 0 && pixel(a0) !== 0;
+                writer.write(HORIZONTAL_CODE);
+                writeRun(writer, a1 - a0, firstIsBlack);
+                writeRun(writer, a2 - a1, !firstIsBlack);
+                a0 = a2;
+            }
+
+            if (a0 >= width) break;
+
+            const color = pixel(a0);
+            a1 = nextChange(pixels, rowOffset, a0, width, color);
+            b1 = nextChange(reference, referenceOffset, a0, width, color === 0 ? 1 : 0);
+            b1 = nextChange(reference, referenceOffset, b1, width, color);
+        }
+    }
+
+    writer.write(EOFB);
+    return writer.finish();
+}
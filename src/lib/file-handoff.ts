@@ -0,0 +1,152 @@
+/**
+ * File Handoff
+ *
+ * Receives PDFs opened from outside the app, either through the operating
+ * system ("Open with", File Handling API) or through the share sheet (Web
+ * Share Target), and passes them on to whichever tool the user picks.
+ *
+ * OS launches arrive through `window.launchQueue`. Shared files are POSTed
+ * to the service worker, which parks them in a cache and redirects to
+ * {@link OPEN_ROUTE}; they are read back from there with {@link loadSharedFiles}.
+ *
+ * @module file-handoff
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** File Handling API launch parameters (not yet in the DOM typings) */
+interface LaunchParams {
+    files: readonly FileSystemHandle[];
+}
+
+interface LaunchQueue {
+    setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+export type IncomingSource = 'launch' | 'share';
+
+export interface IncomingFiles {
+    files: File[];
+    source: IncomingSource | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STATE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Route the manifest's file_handlers and share_target land on */
+export const OPEN_ROUTE = '/open';
+
+// Keep in sync with src/service-worker.ts, which writes the shared files.
+const SHARE_CACHE = 'mydevicemypdf-share';
+
+let incoming: IncomingFiles = { files: [], source: null };
+let handoffRoute: string | null = null;
+const listeners = new Set<() => void>();
+
+function setIncoming(next: IncomingFiles): void {
+    incoming = next;
+    handoffRoute = null;
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the files waiting to be handed to a tool (a new object after every change).
+ */
+export function getIncomingFiles(): IncomingFiles {
+    return incoming;
+}
+
+/**
+ * Subscribes to changes of the incoming files.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeIncomingFiles(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Drops the incoming files without handing them to a tool.
+ */
+export function clearIncomingFiles(): void {
+    setIncoming({ files: [], source: null });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SOURCES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Starts listening for files the OS opens with the installed app.
+ * Call once at startup; does nothing in browsers without the File Handling API.
+ */
+export function startFileHandling(): void {
+    const launchQueue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue;
+    if (!launchQueue) return;
+
+    launchQueue.setConsumer(async (params) => {
+        const handles = params.files.filter((handle): handle is FileSystemFileHandle => handle.kind === 'file');
+        if (handles.length === 0) return;
+
+        try {
+            const files = await Promise.all(handles.map((handle) => handle.getFile()));
+            setIncoming({ files, source: 'launch' });
+        } catch (error) {
+            console.error('Failed to read launched files:', error);
+        }
+    });
+}
+
+/**
+ * Moves files shared with the app out of the service worker's cache.
+ *
+ * @returns Promise resolving to the number of files received
+ */
+export async function loadSharedFiles(): Promise<number> {
+    if (!('caches' in window) || !(await caches.has(SHARE_CACHE))) return 0;
+
+    const cache = await caches.open(SHARE_CACHE);
+    const requests = await cache.keys();
+    const files: File[] = [];
+
+    for (const request of requests) {
+        const response = await cache.match(request);
+        if (!response) continue;
+        const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'shared');
+        const blob = await response.blob();
+        // Share sheets do not always keep the extension; the manifest only accepts PDFs.
+        files.push(new File([blob], /\.pdf$/i.test(name) ? name : `${name}.pdf`, { type: 'application/pdf' }));
+    }
+
+    await caches.delete(SHARE_CACHE);
+    if (files.length > 0) setIncoming({ files, source: 'share' });
+    return files.length;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HANDOFF
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Marks the incoming files for the tool at `route`. The tool's dropzone
+ * picks them up with {@link takeHandedOffFiles} when it mounts.
+ */
+export function handOffFiles(route: string): void {
+    handoffRoute = route;
+}
+
+/**
+ * Returns the files handed to the tool at `pathname` and clears them, or
+ * null when nothing was handed to that tool.
+ */
+export function takeHandedOffFiles(pathname: string): File[] | null {
+    if (handoffRoute === null || handoffRoute !== pathname || incoming.files.length === 0) return null;
+
+    const { files } = incoming;
+    setIncoming({ files: [], source: null });
+    return files;
+}
@@ -0,0 +1,56 @@
+/**
+ * Ink Coverage
+ *
+ * Measures how much of a rendered page is covered by ink, to tell blank
+ * separator sheets from pages with content. Works on raw RGBA pixels and
+ * knows nothing about how they were produced.
+ *
+ * @module ink-coverage
+ */
+
+/** Pages with less ink than this share of their area count as blank */
+export const DEFAULT_BLANK_THRESHOLD = 0.005;
+
+/** Share of the width and height ignored at each edge, where scanners leave shadows and punch holes */
+export const DEFAULT_EDGE_MARGIN = 0.05;
+
+/** Pixels lighter than this (0-255 luminance) are paper, including bleed-through from the back */
+const INK_LUMINANCE = 160;
+
+/**
+ * Measures the share of a page that is covered by ink.
+ *
+ * @param pixels - RGBA pixels of the rendered page
+ * @param width - Width of the render in pixels
+ * @param height - Height of the render in pixels
+ * @param margin - Share of the width and height to ignore at each edge
+ * @returns Share of the pixels (0-1) inside the margins that are dark enough to be ink
+ */
+export function inkCoverage(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    margin = DEFAULT_EDGE_MARGIN,
+): number {
+    if (pixels.length !== width * height * 4) {
+        throw new Error('Pixel data does not match the image size');
+    }
+
+    const left = Math.floor(width * margin);
+    const top = Math.floor(height * margin);
+    const right = width - left;
+    const bottom = height - top;
+    const pixelCount = (right - left) * (bottom - top);
+    if (pixelCount <= 0) return 0;
+
+    let ink = 0;
+    for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+            const i = (y * width + x) * 4;
+            if (0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2] < INK_LUMINANCE) {
+                ink++;
+            }
+        }
+    }
+    return ink / pixelCount;
+}
@@ -0,0 +1,396 @@
+/**
+ * PDF Size Analyzer
+ *
+ * Explains where the bytes of a PDF go: images, embedded fonts, page
+ * content, metadata, attachments and objects nothing refers to any more,
+ * for the whole file and per page. Uses MuPDF to walk the object graph.
+ *
+ * Sizes are measured per object (serialized dictionary plus raw stream
+ * data). Small objects packed into compressed object streams are counted at
+ * their uncompressed size; whatever is left of the file size (cross-reference
+ * tables, headers, padding) is reported as "other".
+ *
+ * @module pdf-analyze
+ */
+
+import {
+    collectReachable,
+    measureImageDpi,
+    nameOf,
+    objectBytes,
+    type LoadedImage,
+    type MupdfPdfDocument,
+    type MupdfPdfObject,
+} from './pdf-objects';
+import { withEngine } from './wasm-engines';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SizeCategory = 'images' | 'fonts' | 'content' | 'metadata' | 'attachments' | 'unused' | 'other';
+
+export interface ImageSizeInfo {
+    objectNumber: number;
+    width: number;
+    height: number;
+    bitsPerComponent: number;
+    colorSpace: string;
+    /** Stream filters joined with "+", e.g. "DCTDecode" or "FlateDecode" */
+    filter: string;
+    /** Image stream plus its soft mask */
+    bytes: number;
+    /** Lowest resolution the image is drawn at, or null when no page draws it */
+    dpi: number | null;
+    /** 1-based pages that use the image */
+    pages: number[];
+}
+
+export interface FontSizeInfo {
+    objectNumber: number;
+    name: string;
+    /** Font dictionary subtype, e.g. "TrueType" or "Type0" */
+    type: string;
+    /** True when the name carries a subset tag ("ABCDEF+Name") */
+    subset: boolean;
+    embedded: boolean;
+    /** Font dictionary, descriptor, font program and encoding objects */
+    bytes: number;
+    pages: number[];
+}
+
+export interface AttachmentSizeInfo {
+    name: string;
+    bytes: number;
+}
+
+export interface PageSizeInfo {
+    pageNumber: number;
+    /** Bytes of what the page uses; objects shared between pages count on each of them */
+    images: number;
+    fonts: number;
+    content: number;
+    total: number;
+}
+
+export interface SizeBreakdown {
+    fileSize: number;
+    totals: Record<SizeCategory, number>;
+    pages: PageSizeInfo[];
+    /** Largest first */
+    images: ImageSizeInfo[];
+    /** Largest first */
+    fonts: FontSizeInfo[];
+    attachments: AttachmentSizeInfo[];
+    objectCount: number;
+    unusedObjectCount: number;
+}
+
+export const SIZE_CATEGORY_LABELS: Record<SizeCategory, string> = {
+    images: 'Images',
+    fonts: 'Fonts',
+    content: 'Page content',
+    metadata: 'Metadata & XMP',
+    attachments: 'Attachments',
+    unused: 'Unused objects',
+    other: 'Structure & other',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OBJECT HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function describeFilter(obj: MupdfPdfObject): string {
+    const filter = obj.get('Filter');
+    if (filter.isName()) return filter.asName();
+    if (!filter.isArray()) return 'None';
+
+    const names: string[] = [];
+    filter.forEach((entry) => {
+        if (entry.isName()) names.push(entry.asName());
+    });
+    return names.join('+') || 'None';
+}
+
+function describeColorSpace(obj: MupdfPdfObject): string {
+    if (obj.get('ImageMask').isBoolean() && obj.get('ImageMask').asBoolean()) return 'Mask';
+    const colorSpace = obj.get('ColorSpace');
+    if (colorSpace.isName()) return colorSpace.asName();
+    if (colorSpace.isArray()) return nameOf(colorSpace.get(0)) ?? 'Unknown';
+    return 'Unknown';
+}
+
+/**
+ * Objects that belong to one font: its dictionary, descendants, descriptor,
+ * program and encoding. Type 3 glyph procedures may use resources of their
+ * own; those are not the font's bytes.
+ */
+function collectFontObjects(font: MupdfPdfObject): Set<number> {
+    const objects = new Set<number>();
+    collectReachable(font, objects, ['Resources']);
+    return objects;
+}
+
+function fontFileOf(font: MupdfPdfObject): MupdfPdfObject | null {
+    const descendants = font.get('DescendantFonts');
+    const dict = descendants.isArray() ? descendants.get(0) : font;
+    const descriptor = dict.isDictionary() ? dict.get('FontDescriptor') : dict;
+    if (!descriptor.isDictionary()) return null;
+    for (const key of ['FontFile', 'FontFile2', 'FontFile3']) {
+        const file = descriptor.get(key);
+        if (file.isStream()) return file;
+    }
+    return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PAGE WALK
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PageObjects {
+    images: Set<number>;
+    fonts: Set<number>;
+    /** Objects counted as content: content streams and form XObjects */
+    content: Set<number>;
+}
+
+interface ImageEntry extends LoadedImage {
+    info: ImageSizeInfo;
+}
+
+interface FontEntry {
+    objects: Set<number>;
+    info: FontSizeInfo;
+}
+
+/**
+ * Records the images, fonts and form XObjects a resource dictionary uses,
+ * following nested form resources.
+ */
+function walkResources(
+    resources: MupdfPdfObject,
+    doc: MupdfPdfDocument,
+    page: PageObjects,
+    images: Map<number, ImageEntry>,
+    fonts: Map<number, FontEntry>,
+    visited: Set<number>,
+): void {
+    const fontDict = resources.get('Font');
+    if (fontDict.isDictionary()) fontDict.forEach((ref) => {
+        if (!ref.isIndirect()) return;
+        const num = ref.asIndirect();
+        let entry = fonts.get(num);
+        if (!entry) {
+            const font = ref.resolve();
+            const name = nameOf(font.get('BaseFont')) ?? 'Unnamed';
+            entry = {
+                objects: collectFontObjects(ref),
+                info: {
+                    objectNumber: num,
+                    name,
+                    type: nameOf(font.get('Subtype')) ?? 'Unknown',
+                    subset: /^[A-Z]{6}\+/.test(name),
+                    embedded: fontFileOf(font) !== null,
+                    bytes: 0,
+                    pages: [],
+                },
+            };
+            fonts.set(num, entry);
+        }
+        entry.objects.forEach((object) => page.fonts.add(object));
+    });
+
+    const xobjects = resources.get('XObject');
+    if (xobjects.isDictionary()) xobjects.forEach((ref) => {
+        if (!ref.isIndirect()) return;
+        const num = ref.asIndirect();
+        const subtype = nameOf(ref.get('Subtype'));
+
+        if (subtype === 'Image') {
+            if (!images.has(num)) {
+                images.set(num, {
+                    ref,
+                    image: doc.loadImage(ref),
+                    info: {
+                        objectNumber: num,
+                        width: ref.get('Width').asNumber(),
+                        height: ref.get('Height').asNumber(),
+                        bitsPerComponent: ref.get('BitsPerComponent').isNumber() ? ref.get('BitsPerComponent').asNumber() : 1,
+                        colorSpace: describeColorSpace(ref),
+                        filter: describeFilter(ref),
+                        bytes: 0,
+                        dpi: null,
+                        pages: [],
+                    },
+                });
+            }
+            page.images.add(num);
+            const mask = ref.get('SMask');
+            if (mask.isIndirect()) page.images.add(mask.asIndirect());
+        } else if (subtype === 'Form') {
+            page.content.add(num);
+            if (visited.has(num)) return;
+            visited.add(num);
+            const formResources = ref.get('Resources');
+            if (formResources.isDictionary()) walkResources(formResources, doc, page, images, fonts, visited);
+        }
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ANALYSIS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function emptyTotals(): Record<SizeCategory, number> {
+    return { images: 0, fonts: 0, content: 0, metadata: 0, attachments: 0, unused: 0, other: 0 };
+}
+
+function sumBytes(objects: Iterable<number>, sizes: Map<number, number>): number {
+    let total = 0;
+    for (const num of objects) total += sizes.get(num) ?? 0;
+    return total;
+}
+
+/**
+ * Breaks the size of a PDF down by what the bytes are used for.
+ *
+ * @param file - The PDF File to analyze
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between pages
+ * @returns Promise resolving to totals per category, per-page sizes and image, font and attachment details
+ */
+export async function analyzePdfSize(
+    file: File,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+): Promise<SizeBreakdown> {
+    const buffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
+
+    return withEngine('mupdf', (m) => {
+        const doc = new m.PDFDocument(new Uint8Array(buffer));
+        const objectCount = doc.countObjects();
+        const trailer = doc.getTrailer();
+
+        // 1. Size every object, leaving out the file's own bookkeeping streams.
+        const sizes = new Map<number, number>();
+        const kinds = new Map<number, SizeCategory>();
+        for (let num = 1; num < objectCount; num++) {
+            // Stream checks need the reference; the resolved object is only the dictionary.
+            const ref = doc.newIndirect(num);
+            const obj = ref.resolve();
+            if (obj.isNull()) continue;
+
+            const type = nameOf(obj.get('Type'));
+            if (type === 'XRef' || type === 'ObjStm') continue;
+
+            sizes.set(num, objectBytes(ref));
+            const subtype = nameOf(obj.get('Subtype'));
+            if (ref.isStream() && subtype === 'Image') kinds.set(num, 'images');
+            else if (ref.isStream() && subtype === 'Form') kinds.set(num, 'content');
+            else if (type === 'EmbeddedFile') kinds.set(num, 'attachments');
+            else if (type === 'Metadata' || (ref.isStream() && subtype === 'XML')) kinds.set(num, 'metadata');
+        }
+
+        const info = trailer.get('Info');
+        if (info.isIndirect()) kinds.set(info.asIndirect(), 'metadata');
+
+        const reachable = new Set<number>();
+        collectReachable(trailer, reachable);
+        onProgress?.(10);
+
+        // 2. Walk the pages for what each one uses, and where images are drawn.
+        const images = new Map<number, ImageEntry>();
+        const fonts = new Map<number, FontEntry>();
+        const pages: PageSizeInfo[] = [];
+        const pageCount = doc.countPages();
+
+        for (let index = 0; index < pageCount; index++) {
+            signal?.throwIfAborted();
+            const pageNumber = index + 1;
+            const page = doc.loadPage(index);
+            const pageObject = page.getObject();
+            const used: PageObjects = { images: new Set(), fonts: new Set(), content: new Set() };
+
+            const contents = pageObject.get('Contents');
+            if (contents.isIndirect()) used.content.add(contents.asIndirect());
+            if (contents.isArray()) {
+                contents.forEach((stream) => {
+                    if (stream.isIndirect()) used.content.add(stream.asIndirect());
+                });
+            }
+            used.content.forEach((num) => kinds.set(num, 'content'));
+
+            const resources = pageObject.getInheritable('Resources');
+            if (resources.isDictionary()) walkResources(resources, doc, used, images, fonts, new Set());
+
+            measureImageDpi(m, page, images.values(), (entry, placedDpi) => {
+                const dpi = Math.round(placedDpi);
+                entry.info.dpi = entry.info.dpi === null ? dpi : Math.min(entry.info.dpi, dpi);
+            });
+
+            for (const num of used.images) images.get(num)?.info.pages.push(pageNumber);
+            for (const entry of fonts.values()) {
+                if (used.fonts.has(entry.info.objectNumber)) entry.info.pages.push(pageNumber);
+            }
+
+            const imageBytes = sumBytes(used.images, sizes);
+            const fontBytes = sumBytes(used.fonts, sizes);
+            const contentBytes = sumBytes(used.content, sizes);
+            pages.push({
+                pageNumber,
+                images: imageBytes,
+                fonts: fontBytes,
+                content: contentBytes,
+                total: imageBytes + fontBytes + contentBytes,
+            });
+            onProgress?.(10 + Math.round((pageNumber / pageCount) * 80));
+        }
+
+        // 3. Font objects only become known while walking pages.
+        for (const entry of fonts.values()) {
+            entry.objects.forEach((num) => {
+                if (!kinds.has(num)) kinds.set(num, 'fonts');
+            });
+            entry.info.bytes = sumBytes(entry.objects, sizes);
+        }
+        for (const entry of images.values()) {
+            const mask = entry.ref.get('SMask');
+            const maskBytes = mask.isIndirect() ? sizes.get(mask.asIndirect()) ?? 0 : 0;
+            entry.info.bytes = (sizes.get(entry.info.objectNumber) ?? 0) + maskBytes;
+        }
+
+        // 4. Totals: unreachable objects are unused whatever they are.
+        const totals = emptyTotals();
+        let unusedObjectCount = 0;
+        for (const [num, bytes] of sizes) {
+            if (!reachable.has(num)) {
+                totals.unused += bytes;
+                unusedObjectCount++;
+            } else {
+                totals[kinds.get(num) ?? 'other'] += bytes;
+            }
+        }
+        const measured = Object.values(totals).reduce((sum, bytes) => sum + bytes, 0);
+        totals.other += Math.max(0, file.size - measured);
+
+        const attachments = Object.entries(doc.getEmbeddedFiles()).map(([name, filespec]) => {
+            const embedded = filespec.get('EF');
+            const stream = embedded.isDictionary() ? embedded.get('F') : embedded;
+            return { name, bytes: stream.isIndirect() ? sizes.get(stream.asIndirect()) ?? 0 : 0 };
+        });
+
+        onProgress?.(100);
+
+        return {
+            fileSize: file.size,
+            totals,
+            pages,
+            images: [...images.values()].map((entry) => entry.info).sort((a, b) => b.bytes - a.bytes),
+            fonts: [...fonts.values()].map((entry) => entry.info).sort((a, b) => b.bytes - a.bytes),
+            attachments,
+            objectCount: sizes.size,
+            unusedObjectCount,
+        };
+    });
+}
@@ -33,6 +33,29 @@ export interface WatermarkOptions {
     tileOffsetY?: number;
 }
 
+export const NUMBER_POSITIONS: { value: NumberPosition; label: string }[] = [
+    { value: 'top-left', label: 'Top Left' },
+    { value: 'top-center', label: 'Top Center' },
+    { value: 'top-right', label: 'Top Right' },
+    { value: 'bottom-left', label: 'Bottom Left' },
+    { value: 'bottom-center', label: 'Bottom Center' },
+    { value: 'bottom-right', label: 'Bottom Right' },
+];
+
+export const NUMBER_FORMATS: { value: NumberFormat; label: string; example: string }[] = [
+    { value: 'numeric', label: '1, 2, 3...', example: '1' },
+    { value: 'roman', label: 'i, ii, iii...', example: 'i' },
+    { value: 'page-of', label: 'Page 1 of N', example: 'Page 1 of 10' },
+];
+
+export const WATERMARK_COLORS = [
+    { label: 'Gray', r: 0.5, g: 0.5, b: 0.5 },
+    { label: 'Red', r: 0.8, g: 0.1, b: 0.1 },
+    { label: 'Blue', r: 0.1, g: 0.1, b: 0.8 },
+    { label: 'Green', r: 0.1, g: 0.6, b: 0.1 },
+    { label: 'Black', r: 0, g: 0, b: 0 },
+];
+
 function toRoman(num: number): string {
     const vals = [1000, 900, 500, 400, 100, 90, 50, 40, 10, 9, 5, 4, 1];
     const syms = ['M', 'CM', 'D', 'CD', 'C', 'XC', 'L', 'XL', 'X', 'IX', 'V', 'IV', 'I'];
@@ -57,7 +80,7 @@ function formatPageNumber(pageNum: number, totalPages: number, format: NumberFor
 /**
  * Adds page numbers to every page of a PDF.
  */
-export async function addPageNumbers(file: File, options: PageNumberOptions): Promise<Blob> {
+export async function addPageNumbers(file: File, options: PageNumberOptions, signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -65,6 +88,7 @@ export async function addPageNumbers(file: File, options: PageNumberOptions): Pr
     const totalPages = pages.length;
 
     for (let i = 0; i < totalPages; i++) {
+        signal?.throwIfAborted();
         const page = pages[i];
         const { width, height } = page.getSize();
         const displayNum = i + options.startFrom;
@@ -110,6 +134,7 @@ export async function addPageNumbers(file: File, options: PageNumberOptions): Pr
         });
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await pdfDoc.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
@@ -117,7 +142,7 @@ export async function addPageNumbers(file: File, options: PageNumberOptions): Pr
 /**
  * Adds a text watermark to every page of a PDF.
  */
-export async function addWatermark(file: File, options: WatermarkOptions): Promise<Blob> {
+export async function addWatermark(file: File, options: WatermarkOptions, signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
     const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
@@ -126,6 +151,7 @@ export async function addWatermark(file: File, options: WatermarkOptions): Promi
     const radians = (options.rotation * Math.PI) / 180;
 
     for (const page of pages) {
+        signal?.throwIfAborted();
         const { width, height } = page.getSize();
 
         if (options.position === 'tiled') {
@@ -164,6 +190,7 @@ export async function addWatermark(file: File, options: WatermarkOptions): Promi
         }
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await pdfDoc.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
@@ -0,0 +1,234 @@
+/**
+ * PDF Batch Utilities
+ *
+ * Applies one single-file tool to many PDFs, tracking status per file, and
+ * packs the outputs into a ZIP together with a manifest describing the run.
+ * A failing file is recorded and skipped; it never stops the rest of the batch.
+ *
+ * @module pdf-batch
+ */
+
+import JSZip from 'jszip';
+import { addPageNumbers, addWatermark, type PageNumberOptions, type WatermarkOptions } from './pdf-annotations';
+import { getPdfPageCount, rotatePages } from './pdf-pages';
+import type { CompressStepOptions } from './pdf-pipeline';
+import { protectPdf, type ProtectOptions } from './pdf-security';
+import { compressPDF } from './pdf-utils';
+
+export { downloadBlob, formatBytes } from './shared';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RotateAllOptions {
+    /** Clockwise rotation applied to every page */
+    degrees: 90 | 180 | 270;
+}
+
+/**
+ * Options accepted by every batch tool, keyed by tool.
+ */
+export interface BatchToolOptionsMap {
+    'compress': CompressStepOptions;
+    'add-watermark': WatermarkOptions;
+    'add-page-numbers': PageNumberOptions;
+    'rotate': RotateAllOptions;
+    'protect': ProtectOptions;
+}
+
+export type BatchTool = keyof BatchToolOptionsMap;
+
+export type BatchJob = {
+    [K in BatchTool]: { tool: K; options: BatchToolOptionsMap[K] };
+}[BatchTool];
+
+export type BatchItemStatus = 'pending' | 'processing' | 'success' | 'failed';
+
+export interface BatchItemResult {
+    fileName: string;
+    status: BatchItemStatus;
+    originalSize: number;
+    outputName: string | null;
+    outputSize: number | null;
+    blob: Blob | null;
+    error: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TOOLS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BATCH_TOOLS: Record<BatchTool, { label: string; suffix: string }> = {
+    'compress': { label: 'Compress', suffix: 'compressed' },
+    'add-watermark': { label: 'Add Watermark', suffix: 'watermarked' },
+    'add-page-numbers': { label: 'Add Page Numbers', suffix: 'numbered' },
+    'rotate': { label: 'Rotate', suffix: 'rotated' },
+    'protect': { label: 'Protect', suffix: 'protected' },
+};
+
+/**
+ * Applies a batch tool to a single file.
+ *
+ * @param job - Tool and options to apply
+ * @param file - The PDF to process
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the processed PDF Blob
+ */
+export async function applyBatchTool(job: BatchJob, file: File, signal?: AbortSignal): Promise<Blob> {
+    switch (job.tool) {
+        case 'compress': {
+            const result = await compressPDF(file, { ...job.options, signal });
+            return result.blob;
+        }
+        case 'add-watermark':
+            return addWatermark(file, job.options, signal);
+        case 'add-page-numbers':
+            return addPageNumbers(file, job.options, signal);
+        case 'rotate': {
+            const pageCount = await getPdfPageCount(file, signal);
+            const rotations: Record<number, number> = {};
+            for (let page = 1; page <= pageCount; page++) {
+                rotations[page] = job.options.degrees;
+            }
+            return rotatePages(file, rotations, signal);
+        }
+        case 'protect':
+            return protectPdf(file, job.options, signal);
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RUNNER
+// ─────────────────────────────────────────────────────────────────────────────
+
+function outputNameFor(fileName: string, tool: BatchTool): string {
+    return `${fileName.replace(/\.pdf$/i, '')}_${BATCH_TOOLS[tool].suffix}.pdf`;
+}
+
+/**
+ * Creates the initial (pending) result entry for every file.
+ */
+export function createBatchItems(files: File[]): BatchItemResult[] {
+    return files.map((file) => ({
+        fileName: file.name,
+        status: 'pending',
+        originalSize: file.size,
+        outputName: null,
+        outputSize: null,
+        blob: null,
+        error: null,
+    }));
+}
+
+/**
+ * Processes every file with a limited number running at once.
+ *
+ * @param files - PDFs to process
+ * @param tool - Tool being applied (used for output names)
+ * @param processFile - Runs the tool on one file (usually via the worker pool)
+ * @param onItemUpdate - Called whenever a file changes status
+ * @param signal - Optional signal to stop starting new files
+ * @param concurrency - Maximum files processed at the same time
+ * @returns Promise resolving to the result of every file, in input order
+ */
+export async function runBatch(
+    files: File[],
+    tool: BatchTool,
+    processFile: (file: File, signal?: AbortSignal) => Promise<Blob>,
+    onItemUpdate?: (index: number, item: BatchItemResult) => void,
+    signal?: AbortSignal,
+    concurrency = 2
+): Promise<BatchItemResult[]> {
+    const items = createBatchItems(files);
+    let nextIndex = 0;
+
+    const update = (index: number, patch: Partial<BatchItemResult>) => {
+        items[index] = { ...items[index], ...patch };
+        onItemUpdate?.(index, items[index]);
+    };
+
+    const worker = async () => {
+        while (nextIndex < files.length) {
+            signal?.throwIfAborted();
+            const index = nextIndex++;
+            update(index, { status: 'processing' });
+
+            try {
+                const blob = await processFile(files[index], signal);
+                update(index, {
+                    status: 'success',
+                    outputName: outputNameFor(files[index].name, tool),
+                    outputSize: blob.size,
+                    blob,
+                });
+            } catch (error) {
+                signal?.throwIfAborted();
+                update(index, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+    return items;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ZIP OUTPUT
+// ─────────────────────────────────────────────────────────────────────────────
+
+function uniqueName(name: string, used: Set<string>): string {
+    if (!used.has(name)) {
+        used.add(name);
+        return name;
+    }
+
+    const base = name.replace(/\.pdf$/i, '');
+    let counter = 2;
+    while (used.has(`${base} (${counter}).pdf`)) counter++;
+    const unique = `${base} (${counter}).pdf`;
+    used.add(unique);
+    return unique;
+}
+
+/**
+ * Packs successful outputs into a ZIP with a `manifest.json` summary.
+ * Tool options are not written to the manifest so passwords never end up in it.
+ *
+ * @param items - Results from {@link runBatch}
+ * @param tool - Tool that produced the results
+ * @returns Promise resolving to the ZIP Blob
+ */
+export async function createBatchZip(items: BatchItemResult[], tool: BatchTool): Promise<Blob> {
+    const zip = new JSZip();
+    const usedNames = new Set<string>(['manifest.json']);
+
+    const files = items.map((item) => {
+        let outputName: string | null = null;
+        if (item.status === 'success' && item.blob && item.outputName) {
+            outputName = uniqueName(item.outputName, usedNames);
+            zip.file(outputName, item.blob);
+        }
+
+        return {
+            input: item.fileName,
+            output: outputName,
+            status: item.status,
+            originalSize: item.originalSize,
+            outputSize: item.outputSize,
+            error: item.error,
+        };
+    });
+
+    const manifest = {
+        tool: BATCH_TOOLS[tool].label,
+        createdAt: new Date().toISOString(),
+        total: items.length,
+        succeeded: items.filter((item) => item.status === 'success').length,
+        failed: items.filter((item) => item.status === 'failed').length,
+        files,
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,343 @@
+/**
+ * PDF Cleaning
+ *
+ * Removes content a PDF carries without needing it to display its pages:
+ * thumbnails, JavaScript, XMP metadata, attached files, named destinations
+ * nothing links to, application private data and form field appearances.
+ * Runs before the compression engines, which then only see what is left.
+ *
+ * Savings are measured per item as the objects a removal leaves unreferenced
+ * plus the entries deleted from objects that stay, at their size in the file.
+ *
+ * @module pdf-clean
+ */
+
+import { collectReachable, nameOf, objectBytes, type MupdfPdfDocument, type MupdfPdfObject } from './pdf-objects';
+import { withEngine } from './wasm-engines';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CleanItem = 'thumbnails' | 'javascript' | 'metadata' | 'attachments' | 'destinations' | 'pieceInfo' | 'appearances';
+
+export interface CleanedItem {
+    item: CleanItem;
+    /** How many thumbnails, scripts, files, ... were removed */
+    count: number;
+    bytes: number;
+}
+
+export interface CleanReport {
+    /** One entry per requested item, in {@link CLEAN_ITEMS} order, including items there was nothing of */
+    removed: CleanedItem[];
+    bytesSaved: number;
+}
+
+export interface CleanResult {
+    /** The cleaned PDF, or the input unchanged when nothing was found */
+    blob: Blob;
+    report: CleanReport;
+}
+
+/** Tally of one item's removals; `bytes` holds direct values only, objects are measured afterwards */
+interface Removal {
+    count: number;
+    bytes: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CLEAN_ITEMS: { item: CleanItem; label: string; description: string }[] = [
+    { item: 'thumbnails', label: 'Page thumbnails', description: 'Preview images stored per page; viewers draw their own' },
+    { item: 'javascript', label: 'JavaScript', description: 'Document, page, link and form field scripts' },
+    { item: 'metadata', label: 'XMP metadata', description: 'XML metadata streams; title and author in the document info stay' },
+    { item: 'attachments', label: 'Attached files', description: 'Embedded files and file attachment annotations' },
+    { item: 'destinations', label: 'Unused named destinations', description: 'Jump targets no link or bookmark in this file uses; links from other documents to them stop working' },
+    { item: 'pieceInfo', label: 'Application data', description: 'Private editing data (PieceInfo) left by the application that made the file' },
+    { item: 'appearances', label: 'Form field appearances', description: 'Stored looks of text and choice fields; viewers redraw them from the field values' },
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OBJECT HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Calls `visit` for every dictionary in the file: each indirect object and
+ * the dictionaries nested directly inside it.
+ */
+function forEachDictionary(doc: MupdfPdfDocument, visit: (dict: MupdfPdfObject) => void): void {
+    const walk = (obj: MupdfPdfObject) => {
+        if (obj.isDictionary()) visit(obj);
+        if (obj.isDictionary() || obj.isArray()) {
+            obj.forEach((child) => {
+                if (!child.isIndirect()) walk(child);
+            });
+        }
+    };
+
+    for (let num = 1; num < doc.countObjects(); num++) {
+        walk(doc.newIndirect(num).resolve());
+    }
+}
+
+function deleteEntry(container: MupdfPdfObject, key: string | number, removal: Removal): void {
+    const value = container.get(key);
+    if (!value.isIndirect()) removal.bytes += value.toString(true).length;
+    container.delete(key);
+}
+
+function keysOf(dict: MupdfPdfObject): string[] {
+    const keys: string[] = [];
+    dict.forEach((_, key) => keys.push(String(key)));
+    return keys;
+}
+
+/** Key/value pairs of a name tree, in tree order (which is sorted order) */
+function nameTreeEntries(tree: MupdfPdfObject): [MupdfPdfObject, MupdfPdfObject][] {
+    const entries: [MupdfPdfObject, MupdfPdfObject][] = [];
+    const visited = new Set<number>();
+
+    const walk = (node: MupdfPdfObject) => {
+        if (node.isIndirect()) {
+            if (visited.has(node.asIndirect())) return;
+            visited.add(node.asIndirect());
+        }
+        if (!node.isDictionary()) return;
+
+        const names = node.get('Names');
+        if (names.isArray()) {
+            for (let i = 0; i + 1 < names.length; i += 2) entries.push([names.get(i), names.get(i + 1)]);
+        }
+        const kids = node.get('Kids');
+        if (kids.isArray()) kids.forEach((kid) => walk(kid));
+    };
+
+    walk(tree);
+    return entries;
+}
+
+function textOf(obj: MupdfPdfObject): string | null {
+    if (obj.isString()) return obj.asString();
+    return nameOf(obj);
+}
+
+function namesDictionary(doc: MupdfPdfDocument): MupdfPdfObject | null {
+    const names = doc.getTrailer().get('Root', 'Names');
+    return names.isDictionary() ? names : null;
+}
+
+function isJavaScriptAction(obj: MupdfPdfObject): boolean {
+    return obj.isDictionary() && nameOf(obj.get('S')) === 'JavaScript';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REMOVERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function removeThumbnails(doc: MupdfPdfDocument, removal: Removal): void {
+    for (let index = 0; index < doc.countPages(); index++) {
+        const page = doc.findPage(index);
+        if (page.get('Thumb').isNull()) continue;
+        deleteEntry(page, 'Thumb', removal);
+        removal.count++;
+    }
+}
+
+function removeJavaScript(doc: MupdfPdfDocument, removal: Removal): void {
+    const names = namesDictionary(doc);
+    const scripts = names?.get('JavaScript');
+    if (names && scripts && !scripts.isNull()) {
+        removal.count += nameTreeEntries(scripts).length;
+        deleteEntry(names, 'JavaScript', removal);
+    }
+
+    // Actions run on open, on links and widgets, and on page and field events (AA).
+    forEachDictionary(doc, (dict) => {
+        for (const key of ['OpenAction', 'A']) {
+            if (isJavaScriptAction(dict.get(key))) {
+                deleteEntry(dict, key, removal);
+                removal.count++;
+            }
+        }
+
+        const events = dict.get('AA');
+        if (!events.isDictionary()) return;
+        const eventKeys = keysOf(events);
+        const scripted = eventKeys.filter((key) => isJavaScriptAction(events.get(key)));
+        for (const key of scripted) {
+            deleteEntry(events, key, removal);
+            removal.count++;
+        }
+        if (scripted.length > 0 && scripted.length === eventKeys.length) deleteEntry(dict, 'AA', removal);
+    });
+}
+
+function removeMetadata(doc: MupdfPdfDocument, removal: Removal): void {
+    forEachDictionary(doc, (dict) => {
+        const metadata = dict.get('Metadata');
+        if (metadata.isStream() && nameOf(metadata.get('Subtype')) === 'XML') {
+            deleteEntry(dict, 'Metadata', removal);
+            removal.count++;
+        }
+    });
+}
+
+function removeAttachments(doc: MupdfPdfDocument, removal: Removal): void {
+    const names = namesDictionary(doc);
+    const files = names?.get('EmbeddedFiles');
+    if (names && files && !files.isNull()) {
+        removal.count += nameTreeEntries(files).length;
+        deleteEntry(names, 'EmbeddedFiles', removal);
+    }
+
+    // A portfolio without its files, and associated-file links to them, mean nothing.
+    const root = doc.getTrailer().get('Root');
+    if (!root.get('Collection').isNull()) deleteEntry(root, 'Collection', removal);
+    forEachDictionary(doc, (dict) => {
+        if (!dict.get('AF').isNull()) deleteEntry(dict, 'AF', removal);
+    });
+
+    for (let index = 0; index < doc.countPages(); index++) {
+        const annots = doc.findPage(index).get('Annots');
+        if (!annots.isArray()) continue;
+        for (let i = annots.length - 1; i >= 0; i--) {
+            const annot = annots.get(i);
+            if (!annot.isDictionary() || nameOf(annot.get('Subtype')) !== 'FileAttachment') continue;
+            deleteEntry(annots, i, removal);
+            removal.count++;
+        }
+    }
+}
+
+/**
+ * Keeps the named destinations something in the file jumps to (link and
+ * bookmark /Dest entries, GoTo action /D entries) and drops the rest, from
+ * both the old /Dests dictionary and the /Dests name tree.
+ */
+function removeUnusedDestinations(doc: MupdfPdfDocument, removal: Removal): void {
+    const used = new Set<string>();
+    forEachDictionary(doc, (dict) => {
+        for (const key of ['Dest', 'D']) {
+            const target = textOf(dict.get(key));
+            if (target !== null) used.add(target);
+        }
+    });
+
+    const root = doc.getTrailer().get('Root');
+    const dests = root.get('Dests');
+    if (dests.isDictionary()) {
+        for (const key of keysOf(dests).filter((name) => !used.has(name))) {
+            deleteEntry(dests, key, removal);
+            removal.count++;
+        }
+    }
+
+    const names = namesDictionary(doc);
+    const tree = names?.get('Dests');
+    if (!names || !tree || tree.isNull()) return;
+
+    const entries = nameTreeEntries(tree);
+    const kept = entries.filter(([key]) => used.has(textOf(key) ?? ''));
+    if (kept.length === entries.length) return;
+
+    removal.count += entries.length - kept.length;
+    const flat = doc.newArray();
+    for (const [key, value] of kept) {
+        flat.push(key);
+        flat.push(value);
+    }
+    deleteEntry(names, 'Dests', removal);
+    if (kept.length > 0) names.put('Dests', doc.addObject({ Names: flat }));
+}
+
+function removePieceInfo(doc: MupdfPdfDocument, removal: Removal): void {
+    forEachDictionary(doc, (dict) => {
+        if (dict.get('PieceInfo').isNull()) return;
+        deleteEntry(dict, 'PieceInfo', removal);
+        removal.count++;
+    });
+}
+
+/**
+ * Drops the appearance streams of text and choice fields and asks viewers to
+ * rebuild them from the field values. Buttons keep theirs: a check box's
+ * on and off states are defined by its appearance names.
+ */
+function removeAppearances(doc: MupdfPdfDocument, removal: Removal): void {
+    forEachDictionary(doc, (dict) => {
+        if (nameOf(dict.get('Subtype')) !== 'Widget' || dict.get('AP').isNull()) return;
+        const fieldType = nameOf(dict.getInheritable('FT'));
+        if (fieldType !== 'Tx' && fieldType !== 'Ch') return;
+        deleteEntry(dict, 'AP', removal);
+        removal.count++;
+    });
+
+    const form = doc.getTrailer().get('Root', 'AcroForm');
+    if (removal.count > 0 && form.isDictionary()) form.put('NeedAppearances', true);
+}
+
+const REMOVERS: Record<CleanItem, (doc: MupdfPdfDocument, removal: Removal) => void> = {
+    thumbnails: removeThumbnails,
+    javascript: removeJavaScript,
+    metadata: removeMetadata,
+    attachments: removeAttachments,
+    destinations: removeUnusedDestinations,
+    pieceInfo: removePieceInfo,
+    appearances: removeAppearances,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLEANING
+// ─────────────────────────────────────────────────────────────────────────────
+
+function reachableObjects(doc: MupdfPdfDocument): Set<number> {
+    const reachable = new Set<number>();
+    collectReachable(doc.getTrailer(), reachable);
+    return reachable;
+}
+
+/**
+ * Removes the selected kinds of content from a PDF.
+ *
+ * @param file - The PDF File to clean
+ * @param items - What to remove; see {@link CLEAN_ITEMS}
+ * @param signal - Optional signal to cancel between items
+ * @returns Promise resolving to the cleaned PDF and what was removed
+ */
+export async function cleanPdf(file: File, items: CleanItem[], signal?: AbortSignal): Promise<CleanResult> {
+    const buffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
+
+    return withEngine('mupdf', (m) => {
+        const doc = new m.PDFDocument(new Uint8Array(buffer));
+        const removed: CleanedItem[] = [];
+        let reachable = reachableObjects(doc);
+
+        for (const { item } of CLEAN_ITEMS.filter((entry) => items.includes(entry.item))) {
+            signal?.throwIfAborted();
+            const removal: Removal = { count: 0, bytes: 0 };
+            REMOVERS[item](doc, removal);
+
+            if (removal.count > 0 || removal.bytes > 0) {
+                const after = reachableObjects(doc);
+                for (const num of reachable) {
+                    if (!after.has(num)) removal.bytes += objectBytes(doc.newIndirect(num));
+                }
+                reachable = after;
+            }
+            removed.push({ item, count: removal.count, bytes: removal.bytes });
+        }
+
+        const bytesSaved = removed.reduce((sum, entry) => sum + entry.bytes, 0);
+        if (bytesSaved === 0) return { blob: file, report: { removed, bytesSaved } };
+
+        const cleanedBuffer = doc.saveToBuffer('garbage=4,compress=yes');
+        const data = new Uint8Array(cleanedBuffer.asUint8Array());
+        cleanedBuffer.destroy();
+
+        return { blob: new Blob([data], { type: 'application/pdf' }), report: { removed, bytesSaved } };
+    });
+}
@@ -1,55 +1,14 @@
 import { PDFDocument } from 'pdf-lib';
-import type { WasmModule as GhostscriptModule } from '@jspawn/ghostscript-wasm';
-import type { WasmModule as QpdfModule } from '@jspawn/qpdf-wasm';
-
-let qpdfModulePromise: Promise<QpdfModule> | null = null;
-let ghostscriptModulePromise: Promise<GhostscriptModule> | null = null;
+import { safeUnlink, withEngine } from './wasm-engines';
 
 function createRunId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
-function safeUnlink(module: { FS: { unlink: (path: string) => void } }, path: string): void {
-  try {
-    module.FS.unlink(path);
-  } catch {
-    // Ignore cleanup failures.
-  }
-}
-
-async function loadQpdfModule(): Promise<QpdfModule> {
-  if (!qpdfModulePromise) {
-    qpdfModulePromise = import('@jspawn/qpdf-wasm').then(({ default: createQpdfModule }) =>
-      createQpdfModule({
-        locateFile: (path, prefix) => (path.endsWith('.wasm') ? '/qpdf-wasm.wasm' : `${prefix || ''}${path}`),
-        print: () => undefined,
-        printErr: () => undefined,
-      })
-    );
-  }
-
-  return qpdfModulePromise;
-}
-
-async function loadGhostscriptModule(): Promise<GhostscriptModule> {
-  if (!ghostscriptModulePromise) {
-    ghostscriptModulePromise = import('@jspawn/ghostscript-wasm').then(
-      ({ default: createGhostscriptModule }) =>
-        createGhostscriptModule({
-          locateFile: (path, prefix) =>
-            path.endsWith('.wasm') ? '/ghostscript-wasm.wasm' : `${prefix || ''}${path}`,
-          print: () => undefined,
-          printErr: () => undefined,
-        })
-    );
-  }
-
-  return ghostscriptModulePromise;
-}
-
-export async function compressLosslessPdfLib(file: File): Promise<Blob> {
+export async function compressLosslessPdfLib(file: File, signal?: AbortSignal): Promise<Blob> {
   const input = new Uint8Array(await file.arrayBuffer());
   const pdfDoc = await PDFDocument.load(input, { updateMetadata: false });
+  signal?.throwIfAborted();
 
   const output = await pdfDoc.save({
     addDefaultPage: false,
@@ -60,75 +19,149 @@ export async function compressLosslessPdfLib(file: File): Promise<Blob> {
   return new Blob([new Uint8Array(output)], { type: 'application/pdf' });
 }
 
-export async function compressLosslessQpdf(file: File): Promise<Blob> {
-  const qpdf = await loadQpdfModule();
+export async function compressLosslessQpdf(file: File, signal?: AbortSignal): Promise<Blob> {
   const inputBytes = new Uint8Array(await file.arrayBuffer());
-  const runId = createRunId('qpdf');
-  const inputPath = `/${runId}-input.pdf`;
-  const outputPath = `/${runId}-output.pdf`;
-
-  qpdf.FS.writeFile(inputPath, inputBytes);
-
-  try {
-    const exitCode = qpdf.callMain([
-      '--stream-data=compress',
-      '--object-streams=generate',
-      '--recompress-flate',
-      '--compression-level=9',
-      inputPath,
-      outputPath,
-    ]);
-
-    if (exitCode !== 0) {
-      throw new Error(`QPDF exited with code ${exitCode}`);
+  signal?.throwIfAborted();
+
+  return withEngine('qpdf', (qpdf) => {
+    const runId = createRunId('qpdf');
+    const inputPath = `/${runId}-input.pdf`;
+    const outputPath = `/${runId}-output.pdf`;
+
+    // Temp files are removed in `finally`, including when the run is aborted.
+    try {
+      qpdf.FS.writeFile(inputPath, inputBytes);
+      signal?.throwIfAborted();
+
+      const exitCode = qpdf.callMain([
+        '--stream-data=compress',
+        '--object-streams=generate',
+        '--recompress-flate',
+        '--compression-level=9',
+        inputPath,
+        outputPath,
+      ]);
+
+      if (exitCode !== 0) {
+        throw new Error(`QPDF exited with code ${exitCode}`);
+      }
+
+      signal?.throwIfAborted();
+      const outputBytes = qpdf.FS.readFile(outputPath);
+      return new Blob([new Uint8Array(outputBytes)], { type: 'application/pdf' });
+    } finally {
+      safeUnlink(qpdf, inputPath);
+      safeUnlink(qpdf, outputPath);
     }
-
-    const outputBytes = qpdf.FS.readFile(outputPath);
-    return new Blob([new Uint8Array(outputBytes)], { type: 'application/pdf' });
-  } finally {
-    safeUnlink(qpdf, inputPath);
-    safeUnlink(qpdf, outputPath);
-  }
+  });
 }
 
-export async function compressLosslessGhostscript(file: File): Promise<Blob> {
-  const ghostscript = await loadGhostscriptModule();
+async function runGhostscript(file: File, args: string[], signal?: AbortSignal): Promise<Blob> {
   const inputBytes = new Uint8Array(await file.arrayBuffer());
-  const runId = createRunId('ghostscript');
-  const inputPath = `/${runId}-input.pdf`;
-  const outputPath = `/${runId}-output.pdf`;
-
-  ghostscript.FS.writeFile(inputPath, inputBytes);
-
-  try {
-    const exitCode = ghostscript.callMain([
-      '-sDEVICE=pdfwrite',
-      '-dNOPAUSE',
-      '-dBATCH',
-      '-dQUIET',
-      '-dDetectDuplicateImages=true',
-      '-dCompressFonts=true',
-      '-dSubsetFonts=true',
-      '-dDownsampleColorImages=false',
-      '-dDownsampleGrayImages=false',
-      '-dDownsampleMonoImages=false',
-      '-dAutoFilterColorImages=false',
-      '-dAutoFilterGrayImages=false',
-      '-dColorImageFilter=/FlateEncode',
-      '-dGrayImageFilter=/FlateEncode',
-      '-dMonoImageFilter=/CCITTFaxEncode',
-      `-sOutputFile=${outputPath}`,
-      inputPath,
-    ]);
-
-    if (exitCode !== 0) {
-      throw new Error(`Ghostscript exited with code ${exitCode}`);
+  signal?.throwIfAborted();
+
+  return withEngine('ghostscript', (ghostscript) => {
+    const runId = createRunId('ghostscript');
+    const inputPath = `/${runId}-input.pdf`;
+    const outputPath = `/${runId}-output.pdf`;
+
+    // Temp files are removed in `finally`, including when the run is aborted.
+    try {
+      ghostscript.FS.writeFile(inputPath, inputBytes);
+      signal?.throwIfAborted();
+
+      const exitCode = ghostscript.callMain([
+        '-sDEVICE=pdfwrite',
+        '-dNOPAUSE',
+        '-dBATCH',
+        '-dQUIET',
+        ...args,
+        `-sOutputFile=${outputPath}`,
+        inputPath,
+      ]);
+
+      if (exitCode !== 0) {
+        throw new Error(`Ghostscript exited with code ${exitCode}`);
+      }
+
+      signal?.throwIfAborted();
+      const outputBytes = ghostscript.FS.readFile(outputPath);
+      return new Blob([new Uint8Array(outputBytes)], { type: 'application/pdf' });
+    } finally {
+      safeUnlink(ghostscript, inputPath);
+      safeUnlink(ghostscript, outputPath);
     }
+  });
+}
+
+export async function compressLosslessGhostscript(file: File, signal?: AbortSignal): Promise<Blob> {
+  return runGhostscript(file, [
+    '-dDetectDuplicateImages=true',
+    '-dCompressFonts=true',
+    '-dSubsetFonts=true',
+    '-dDownsampleColorImages=false',
+    '-dDownsampleGrayImages=false',
+    '-dDownsampleMonoImages=false',
+    '-dAutoFilterColorImages=false',
+    '-dAutoFilterGrayImages=false',
+    '-dColorImageFilter=/FlateEncode',
+    '-dGrayImageFilter=/FlateEncode',
+    '-dMonoImageFilter=/CCITTFaxEncode',
+  ], signal);
+}
+
+// Lossy Ghostscript runs. Unlike the engines above these downsample and
+// re-encode images, so they trade quality for size.
+
+/** Ghostscript's built-in -dPDFSETTINGS distiller profiles */
+export type GhostscriptPreset = 'screen' | 'ebook' | 'printer' | 'prepress';
+
+export interface GhostscriptDownsampling {
+  colorDpi: number;
+  grayDpi: number;
+  monoDpi: number;
+  /** Images are only downsampled when above resolution × threshold (Ghostscript's default is 1.5) */
+  threshold: number;
+}
+
+export const DEFAULT_GHOSTSCRIPT_DOWNSAMPLING: GhostscriptDownsampling = {
+  colorDpi: 150,
+  grayDpi: 150,
+  monoDpi: 300,
+  threshold: 1.5,
+};
+
+export async function compressGhostscriptPreset(
+  file: File,
+  preset: GhostscriptPreset,
+  signal?: AbortSignal
+): Promise<Blob> {
+  return runGhostscript(file, [`-dPDFSETTINGS=/${preset}`, '-dDetectDuplicateImages=true'], signal);
+}
 
-    const outputBytes = ghostscript.FS.readFile(outputPath);
-    return new Blob([new Uint8Array(outputBytes)], { type: 'application/pdf' });
-  } finally {
-    safeUnlink(ghostscript, inputPath);
-    safeUnlink(ghostscript, outputPath);
-  }
+export async function compressGhostscriptDownsampled(
+  file: File,
+  downsampling: GhostscriptDownsampling,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { colorDpi, grayDpi, monoDpi, threshold } = downsampling;
+
+  return runGhostscript(file, [
+    '-dPDFSETTINGS=/default',
+    '-dDetectDuplicateImages=true',
+    '-dCompressFonts=true',
+    '-dSubsetFonts=true',
+    '-dDownsampleColorImages=true',
+    '-dColorImageDownsampleType=/Bicubic',
+    `-dColorImageResolution=${colorDpi}`,
+    `-dColorImageDownsampleThreshold=${threshold}`,
+    '-dDownsampleGrayImages=true',
+    '-dGrayImageDownsampleType=/Bicubic',
+    `-dGrayImageResolution=${grayDpi}`,
+    `-dGrayImageDownsampleThreshold=${threshold}`,
+    '-dDownsampleMonoImages=true',
+    '-dMonoImageDownsampleType=/Subsample',
+    `-dMonoImageResolution=${monoDpi}`,
+    `-dMonoImageDownsampleThreshold=${threshold}`,
+  ], signal);
 }
@@ -1,88 +1,240 @@
-// We use dynamic import to configure the WASM path before mupdf loads
-let mupdf: any = null;
-
-async function getMupdf() {
-    if (mupdf) return mupdf;
-
-    // Configure the WASM path globally before importing mupdf
-    // This hook is used by the mupdf emscripten module
-    (window as any)["$libmupdf_wasm_Module"] = {
-        locateFile: (path: string, prefix: string) => {
-            if (path.endsWith('.wasm')) {
-                // Return variable URL based on environment if needed, 
-                // but here we just use the public path where we copied the file.
-                return '/mupdf-wasm.wasm';
-            }
-            return prefix + path;
-        }
-    };
+import {
+    beginText,
+    concatTransformationMatrix,
+    drawObject,
+    endText,
+    PDFDocument,
+    popGraphicsState,
+    pushGraphicsState,
+    setCharacterSqueeze,
+    setFontAndSize,
+    setTextMatrix,
+    setTextRenderingMode,
+    showText,
+    StandardFonts,
+    TextRenderingMode,
+    type PDFFont,
+    type PDFPage,
+} from 'pdf-lib';
+import { encodeCcittG4 } from './ccitt-g4';
+import {
+    measureImageDpi,
+    type LoadedImage,
+    type MupdfImage,
+    type MupdfPdfDocument,
+    type MupdfPdfObject,
+} from './pdf-objects';
+import { withEngine, type MupdfModule } from './wasm-engines';
+
+type MupdfPixmap = InstanceType<MupdfModule['Pixmap']>;
+
+export interface BalancedCompressionOptions {
+    /** Images placed at a higher resolution than this are downsampled to it */
+    targetDpi: number;
+    /** JPEG quality (1-100) for the downsampled images */
+    jpegQuality: number;
+}
+
+export const DEFAULT_BALANCED_OPTIONS: BalancedCompressionOptions = { targetDpi: 150, jpegQuality: 75 };
+
+export type ExtremeColorMode = 'color' | 'grayscale' | 'bitonal';
+
+export interface ExtremeCompressionOptions {
+    /** Resolution pages are rasterized at */
+    dpi: number;
+    colorMode: ExtremeColorMode;
+    /** JPEG quality (1-100) for color and grayscale pages */
+    jpegQuality: number;
+    /** Keep the original text as an invisible layer so the result stays searchable */
+    preserveText: boolean;
+}
 
-    mupdf = await import('mupdf');
-    return mupdf;
+export const DEFAULT_EXTREME_OPTIONS: ExtremeCompressionOptions = {
+    dpi: 36,
+    colorMode: 'color',
+    jpegQuality: 30,
+    preserveText: false,
+};
+
+/**
+ * Lines of text on a page, read from mupdf's structured text. Coordinates
+ * are in page space with the origin at the top left, like the rendered pixmap.
+ */
+interface TextLine {
+    /** Unit vector along the baseline */
+    direction: [number, number];
+    chars: { c: string; origin: [number, number]; size: number; quad: number[] }[];
 }
 
-import { PDFDocument } from 'pdf-lib';
+function collectTextLines(page: InstanceType<MupdfModule['Page']>): TextLine[] {
+    const lines: TextLine[] = [];
+    let current: TextLine | null = null;
+
+    page.toStructuredText().walk({
+        beginLine(_bbox, wmode, direction) {
+            // Vertical writing has no sensible place in a horizontal text layer.
+            current = wmode === 0 ? { direction: [direction[0], direction[1]], chars: [] } : null;
+        },
+        onChar(c, origin, _font, size, quad) {
+            current?.chars.push({ c, origin: [origin[0], origin[1]], size, quad });
+        },
+        endLine() {
+            if (current && current.chars.length > 0) lines.push(current);
+            current = null;
+        },
+    });
+
+    return lines;
+}
+
+/**
+ * Writes each line as invisible text (render mode 3) over the page image,
+ * stretched so selections and search hits line up with the rendered words.
+ * Characters the standard font cannot encode are left out.
+ */
+function drawInvisibleText(page: PDFPage, font: PDFFont, lines: TextLine[]): void {
+    const supported = new Set(font.getCharacterSet());
+    const fontName = page.node.newFontDictionary(font.name, font.ref);
+    const pageHeight = page.getHeight();
+
+    for (const { direction, chars } of lines) {
+        const text = chars.map((char) => char.c).filter((c) => supported.has(c.codePointAt(0) ?? -1)).join('');
+        if (!text.trim()) continue;
+
+        const first = chars[0];
+        const last = chars[chars.length - 1];
+        const [dx, dy] = direction;
+        // Length along the baseline from the first origin to the end of the last glyph (its lower-right corner)
+        const length = (last.quad[6] - first.origin[0]) * dx + (last.quad[7] - first.origin[1]) * dy;
+        const naturalWidth = font.widthOfTextAtSize(text, first.size);
+        if (length <= 0 || naturalWidth <= 0) continue;
+
+        page.pushOperators(
+            beginText(),
+            setFontAndSize(fontName, first.size),
+            setTextRenderingMode(TextRenderingMode.Invisible),
+            setCharacterSqueeze((length / naturalWidth) * 100),
+            // Page space has y pointing down; flip the baseline direction into PDF space.
+            setTextMatrix(dx, -dy, dy, dx, first.origin[0], pageHeight - first.origin[1]),
+            showText(font.encodeText(text)),
+            endText()
+        );
+    }
+}
+
+/**
+ * Packs a grayscale pixmap into one byte per pixel, 1 for black, splitting at mid-gray.
+ */
+function toBitonal(pixmap: InstanceType<MupdfModule['Pixmap']>): Uint8Array {
+    const width = pixmap.getWidth();
+    const height = pixmap.getHeight();
+    const stride = pixmap.getStride();
+    const samples = pixmap.getPixels();
+    const bits = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            bits[y * width + x] = samples[y * stride + x] < 128 ? 1 : 0;
+        }
+    }
+    return bits;
+}
+
+/**
+ * Draws a 1-bit page image encoded with CCITT Group 4 over the whole page.
+ */
+function drawBitonalImage(pdfLibDoc: PDFDocument, page: PDFPage, pixmap: InstanceType<MupdfModule['Pixmap']>): void {
+    const width = pixmap.getWidth();
+    const height = pixmap.getHeight();
+    const stream = pdfLibDoc.context.stream(encodeCcittG4(toBitonal(pixmap), width, height), {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: width,
+        Height: height,
+        BitsPerComponent: 1,
+        ColorSpace: 'DeviceGray',
+        Filter: 'CCITTFaxDecode',
+        DecodeParms: { K: -1, Columns: width, Rows: height },
+    });
+    const imageName = page.node.newXObject('Image', pdfLibDoc.context.register(stream));
+
+    page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(page.getWidth(), 0, 0, page.getHeight(), 0, 0),
+        drawObject(imageName),
+        popGraphicsState()
+    );
+}
 
 /**
  * Compresses a PDF using mupdf by rasterizing pages to low-quality images.
  * This effectively implements an "Extreme" compression mode.
- * 
+ *
+ * Color and grayscale pages are stored as JPEG; bitonal pages as 1-bit
+ * CCITT Group 4, which suits scanned text. With `preserveText` the original
+ * text is kept as an invisible layer, so the result can still be searched
+ * and copied from.
+ *
  * @param file - The PDF File to compress
+ * @param options - Resolution, color mode, JPEG quality and text layer
+ * @param signal - Optional signal to cancel between pages
  * @returns Promise resolving to the compressed PDF Blob
  */
-export async function compressExtreme(file: File, sliderValue: number): Promise<Blob> {
+export async function compressExtreme(
+    file: File,
+    options: ExtremeCompressionOptions = DEFAULT_EXTREME_OPTIONS,
+    signal?: AbortSignal
+): Promise<Blob> {
     try {
-        const m = await getMupdf();
-
-        // 1. Load the document with mupdf
         const buffer = await file.arrayBuffer();
-        const mupdfDoc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
-
-        // 2. Create a new PDF with pdf-lib for output
-        const pdfLibDoc = await PDFDocument.create();
 
-        const pageCount = mupdfDoc.countPages();
+        return await withEngine('mupdf', async (m) => {
+            // 1. Load the document with mupdf
+            const mupdfDoc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
 
-        // 3. Process each page
-        for (let i = 0; i < pageCount; i++) {
-            const page = mupdfDoc.loadPage(i);
+            // 2. Create a new PDF with pdf-lib for output
+            const pdfLibDoc = await PDFDocument.create();
+            const textFont = options.preserveText ? await pdfLibDoc.embedFont(StandardFonts.Helvetica) : null;
 
-            // Calculate dimensions at 36 DPI (Standard screen is 72, 36 is half resolution)
-            const scale = 36 / 72;
-            const matrix = m.Matrix.scale(scale, scale);
+            const pageCount = mupdfDoc.countPages();
+            const scale = options.dpi / 72;
+            const colorspace = options.colorMode === 'color' ? m.ColorSpace.DeviceRGB : m.ColorSpace.DeviceGray;
 
-            // Render to pixmap
-            const pixmap = page.toPixmap(matrix, m.ColorSpace.DeviceRGB, false);
+            // 3. Process each page
+            for (let i = 0; i < pageCount; i++) {
+                signal?.throwIfAborted();
+                const page = mupdfDoc.loadPage(i);
 
-            // Convert to JPEG with 30% quality
-            const jpegData = pixmap.asJPEG(100 - sliderValue);
+                // Get original page dimensions to maintain aspect ratio in the new PDF
+                const bounds = page.getBounds(); // [x0, y0, x1, y1]
+                const width = bounds[2] - bounds[0];
+                const height = bounds[3] - bounds[1];
+                const newPage = pdfLibDoc.addPage([width, height]);
 
-            // Embed into pdf-lib document
-            const jpgImage = await pdfLibDoc.embedJpg(jpegData);
+                // Render to pixmap
+                const pixmap = page.toPixmap(m.Matrix.scale(scale, scale), colorspace, false);
 
-            // Get original page dimensions to maintain aspect ratio in the new PDF
-            const bounds = page.getBounds(); // [x0, y0, x1, y1]
-            const width = bounds[2] - bounds[0];
-            const height = bounds[3] - bounds[1];
+                if (options.colorMode === 'bitonal') {
+                    drawBitonalImage(pdfLibDoc, newPage, pixmap);
+                } else {
+                    const jpgImage = await pdfLibDoc.embedJpg(pixmap.asJPEG(options.jpegQuality));
+                    newPage.drawImage(jpgImage, { x: 0, y: 0, width, height });
+                }
+                pixmap.destroy();
 
-            // Add page to new PDF
-            const newPage = pdfLibDoc.addPage([width, height]);
-
-            // Draw the compressed image
-            newPage.drawImage(jpgImage, {
-                x: 0,
-                y: 0,
-                width: width,
-                height: height,
-            });
-        }
+                if (textFont) {
+                    drawInvisibleText(newPage, textFont, collectTextLines(page));
+                }
+            }
 
-        // 4. Save the new PDF
-        const pdfBytes = await pdfLibDoc.save();
+            // 4. Save the new PDF
+            signal?.throwIfAborted();
+            const pdfBytes = await pdfLibDoc.save();
 
-        return new Blob([pdfBytes as any], { type: 'application/pdf' });
+            return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
+        });
     } catch (error) {
-        console.error("Error in compressExtreme:", error);
+        if (!signal?.aborted) console.error("Error in compressExtreme:", error);
         throw error;
     }
 }
@@ -92,38 +244,357 @@ export async function compressExtreme(file: File, sliderValue: number): Promise<
  * This is a lossless operation that removes unused objects and compresses streams.
  * 
  * @param file - The PDF File to compress
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the compressed PDF Blob
+ */
+export async function compressLossless(file: File, signal?: AbortSignal): Promise<Blob> {
+    try {
+        const buffer = await file.arrayBuffer();
+        signal?.throwIfAborted();
+
+        return await withEngine('mupdf', (m) => {
+            // Load the document
+            const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+
+            // Ensure we have a PDF document to access saveToBuffer
+            const pdfDoc = doc.asPDF();
+            if (!pdfDoc) {
+                throw new Error("Failed to open document as PDF");
+            }
+
+            // Save with compression options
+            // garbage=4: Deduplicate objects and remove unused ones (most aggressive GC)
+            // compress=true: Compress streams
+            // clean=true: Clean content streams
+            const compressedBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
+
+            // Convert mupdf Buffer to Uint8Array and ensure we copy the data before cleanup
+            const data = new Uint8Array(compressedBuffer.asUint8Array());
+
+            // Clean up WASM memory
+            compressedBuffer.destroy();
+
+            // mupdf returns a Uint8Array (or similar view), wrap in Blob
+            return new Blob([data], { type: 'application/pdf' });
+        });
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error in compressLossless:", error);
+        throw error;
+    }
+}
+
+interface ImageXObject extends LoadedImage {
+    /** Lowest resolution the image is shown at anywhere in the document */
+    minDpi: number;
+}
+
+/**
+ * Collects the image XObjects reachable from a resource dictionary,
+ * including those inside form XObjects.
+ */
+function collectImageXObjects(resources: MupdfPdfObject, doc: MupdfPdfDocument, images: Map<number, ImageXObject>, visited: Set<number>): void {
+    const xobjects = resources.get('XObject');
+    if (!xobjects.isDictionary()) return;
+
+    xobjects.forEach((ref) => {
+        if (!ref.isIndirect() || visited.has(ref.asIndirect())) return;
+        visited.add(ref.asIndirect());
+
+        const subtype = ref.get('Subtype');
+        if (subtype.isName() && subtype.asName() === 'Image') {
+            images.set(ref.asIndirect(), { ref, image: doc.loadImage(ref), minDpi: Infinity });
+        } else if (subtype.isName() && subtype.asName() === 'Form') {
+            const formResources = ref.get('Resources');
+            if (formResources.isDictionary()) collectImageXObjects(formResources, doc, images, visited);
+        }
+    });
+}
+
+/**
+ * Whether an image can be re-encoded as JPEG without changing how it looks
+ * beyond the lossy encoding: stencil masks, 1-bit scans and color-key
+ * masked images are left alone.
+ */
+function isDownsampleCandidate(ref: MupdfPdfObject, image: MupdfImage): boolean {
+    if (image.getImageMask() || image.getBitsPerComponent() < 8) return false;
+    if (ref.get('Mask').isArray()) return false;
+    return true;
+}
+
+/**
+ * Replaces an image stream with a downsampled JPEG when that is smaller.
+ */
+function downsampleImage(m: MupdfModule, entry: ImageXObject, options: BalancedCompressionOptions): void {
+    const { ref, image, minDpi } = entry;
+    const scale = options.targetDpi / minDpi;
+    const width = Math.max(1, Math.round(image.getWidth() * scale));
+    const height = Math.max(1, Math.round(image.getHeight() * scale));
+
+    // Decoded pixmaps live in the WASM heap, and finalizers cannot run while
+    // the image loop is busy, so each one is destroyed here.
+    const pixmaps: MupdfPixmap[] = [];
+    let isGray: boolean;
+    let jpeg: Uint8Array;
+    try {
+        let pixmap = image.toPixmap();
+        pixmaps.push(pixmap);
+        if (pixmap.getAlpha()) return;
+
+        const colorspace = pixmap.getColorSpace();
+        isGray = colorspace?.isGray() ?? false;
+        if (!colorspace || !(isGray || colorspace.isRGB())) {
+            pixmap = pixmap.convertToColorSpace(m.ColorSpace.DeviceRGB);
+            pixmaps.push(pixmap);
+        }
+
+        const w = pixmap.getWidth();
+        const h = pixmap.getHeight();
+        const resized = pixmap.warp([[0, 0], [w, 0], [w, h], [0, h]], width, height);
+        pixmaps.push(resized);
+        jpeg = resized.asJPEG(options.jpegQuality);
+    } finally {
+        pixmaps.forEach((pixmap) => pixmap.destroy());
+    }
+
+    const rawStream = ref.readRawStream();
+    const originalLength = rawStream.getLength();
+    rawStream.destroy();
+    if (jpeg.length >= originalLength) return;
+
+    ref.writeRawStream(jpeg);
+    ref.put('Filter', 'DCTDecode');
+    ref.put('Width', width);
+    ref.put('Height', height);
+    ref.put('BitsPerComponent', 8);
+    ref.put('ColorSpace', isGray ? 'DeviceGray' : 'DeviceRGB');
+    // The pixels were decoded with these applied; the JPEG needs none of them.
+    ref.delete('DecodeParms');
+    ref.delete('Decode');
+    ref.delete('SMaskInData');
+}
+
+/**
+ * Compresses a PDF by downsampling only the images that are placed at more
+ * than `targetDpi` and re-encoding them as JPEG. Text, fonts and vector
+ * graphics are left untouched, so the result stays sharp and searchable.
+ *
+ * @param file - The PDF File to compress
+ * @param options - Target resolution and JPEG quality
+ * @param signal - Optional signal to cancel between pages
  * @returns Promise resolving to the compressed PDF Blob
  */
-export async function compressLossless(file: File): Promise<Blob> {
+export async function compressBalanced(
+    file: File,
+    options: BalancedCompressionOptions = DEFAULT_BALANCED_OPTIONS,
+    signal?: AbortSignal
+): Promise<Blob> {
     try {
-        const m = await getMupdf();
         const buffer = await file.arrayBuffer();
 
-        // Load the document
-        const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+        return await withEngine('mupdf', (m) => {
+            const doc = new m.PDFDocument(new Uint8Array(buffer));
+            const images = new Map<number, ImageXObject>();
+            const visited = new Set<number>();
+            const pageCount = doc.countPages();
+
+            // 1. Find the lowest resolution every image is shown at.
+            for (let i = 0; i < pageCount; i++) {
+                signal?.throwIfAborted();
+                const page = doc.loadPage(i);
+                const resources = page.getObject().getInheritable('Resources');
+                if (resources.isDictionary()) collectImageXObjects(resources, doc, images, visited);
+
+                measureImageDpi(m, page, images.values(), (entry, dpi) => {
+                    entry.minDpi = Math.min(entry.minDpi, dpi);
+                });
+            }
+
+            // 2. Downsample each image once, however many pages share it.
+            for (const entry of images.values()) {
+                signal?.throwIfAborted();
+                // Images that are never drawn keep minDpi = Infinity and are left as they are.
+                if (!Number.isFinite(entry.minDpi) || entry.minDpi <= options.targetDpi) continue;
+                if (!isDownsampleCandidate(entry.ref, entry.image)) continue;
+                downsampleImage(m, entry, options);
+            }
+
+            // 3. Save
+            signal?.throwIfAborted();
+            const compressedBuffer = doc.saveToBuffer("garbage=4,compress=yes");
+            const data = new Uint8Array(compressedBuffer.asUint8Array());
+            compressedBuffer.destroy();
+
+            return new Blob([data], { type: 'application/pdf' });
+        });
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error in compressBalanced:", error);
+        throw error;
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// FONT OPTIMIZATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** FNV-1a over the raw bytes; equal hashes are confirmed byte by byte */
+function hashBytes(bytes: Uint8Array): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${bytes.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+interface FingerprintCache {
+    byObject: Map<number, string>;
+    /** Streams seen per hash, to tell real duplicates from hash collisions */
+    streams: Map<string, { num: number; bytes: Uint8Array }[]>;
+}
+
+function streamId(num: number, bytes: Uint8Array, cache: FingerprintCache): string {
+    const hash = hashBytes(bytes);
+    const seen = cache.streams.get(hash) ?? [];
+    const match = seen.find((entry) => sameBytes(entry.bytes, bytes));
+    if (match) return `${hash}#${match.num}`;
+
+    seen.push({ num, bytes: new Uint8Array(bytes) });
+    cache.streams.set(hash, seen);
+    return `${hash}#${num}`;
+}
+
+/**
+ * Describes an object by content rather than object numbers, so two copies
+ * of the same font (say, one per merged document) get the same fingerprint.
+ */
+function fingerprintObject(obj: MupdfPdfObject, cache: FingerprintCache): string {
+    if (obj.isIndirect()) {
+        const num = obj.asIndirect();
+        const known = cache.byObject.get(num);
+        if (known !== undefined) return known;
+
+        // Placeholder for cycles; an object that points back at itself only matches itself.
+        cache.byObject.set(num, `cycle:${num}`);
+        let fingerprint = fingerprintObject(obj.resolve(), cache);
+        if (obj.isStream()) fingerprint += `stream:${streamId(num, obj.readRawStream().asUint8Array(), cache)}`;
+        cache.byObject.set(num, fingerprint);
+        return fingerprint;
+    }
+
+    if (obj.isArray()) {
+        const parts: string[] = [];
+        obj.forEach((child) => parts.push(fingerprintObject(child, cache)));
+        return `[${parts.join(' ')}]`;
+    }
+
+    if (obj.isDictionary()) {
+        const parts: string[] = [];
+        obj.forEach((child, key) => {
+            // Length follows the stream bytes, which are compared separately.
+            if (key !== 'Length') parts.push(`/${key} ${fingerprintObject(child, cache)}`);
+        });
+        return `<<${parts.sort().join('')}>>`;
+    }
+
+    return obj.toString(true);
+}
 
-        // Ensure we have a PDF document to access saveToBuffer
-        const pdfDoc = doc.asPDF();
-        if (!pdfDoc) {
-            throw new Error("Failed to open document as PDF");
+/**
+ * Calls `visit` with every font map (the /Font entry of a resource
+ * dictionary) stored directly in `obj`, without following references.
+ */
+function forEachFontMap(obj: MupdfPdfObject, visit: (fonts: MupdfPdfObject) => void): void {
+    if (!obj.isDictionary() && !obj.isArray()) return;
+
+    obj.forEach((child, key) => {
+        if (key === 'Font' && child.isDictionary()) {
+            // May be a reference to a shared font map; it is resolved and edited in place.
+            visit(child.isIndirect() ? child.resolve() : child);
+        } else if (!child.isIndirect()) {
+            forEachFontMap(child, visit);
         }
+    });
+}
+
+/**
+ * Points every resource dictionary at a single copy of each font that is
+ * embedded more than once. The copies left unreferenced are dropped when
+ * the document is saved with garbage collection.
+ *
+ * @returns Number of font references redirected to another copy
+ */
+function mergeDuplicateFonts(doc: MupdfPdfDocument): number {
+    const cache: FingerprintCache = { byObject: new Map(), streams: new Map() };
+    const canonical = new Map<string, MupdfPdfObject>();
+    let merged = 0;
+
+    for (let num = 1; num < doc.countObjects(); num++) {
+        const obj = doc.newIndirect(num).resolve();
+        forEachFontMap(obj, (fonts) => {
+            fonts.forEach((ref, name) => {
+                if (!ref.isIndirect() || !ref.resolve().isDictionary()) return;
+
+                const fingerprint = fingerprintObject(ref, cache);
+                const first = canonical.get(fingerprint);
+                if (!first) {
+                    canonical.set(fingerprint, ref);
+                } else if (first.asIndirect() !== ref.asIndirect()) {
+                    fonts.put(name, first);
+                    merged++;
+                }
+            });
+        });
+    }
+
+    return merged;
+}
+
+/** Fonts of an interactive form are used for text typed into its fields later */
+function hasFormFields(doc: MupdfPdfDocument): boolean {
+    const fields = doc.getTrailer().get('Root', 'AcroForm', 'Fields');
+    return fields.isArray() && fields.length > 0;
+}
+
+/**
+ * Lossless font optimization: fonts embedded more than once (typical after
+ * merging PDFs) are unified, then embedded fonts are cut down to the glyphs
+ * the document uses. Documents with form fields keep their full fonts so new
+ * field values still render.
+ *
+ * @param file - The PDF File to optimize
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the optimized PDF Blob
+ */
+export async function compressFonts(file: File, signal?: AbortSignal): Promise<Blob> {
+    try {
+        const buffer = await file.arrayBuffer();
+        signal?.throwIfAborted();
+
+        return await withEngine('mupdf', (m) => {
+            const doc = new m.PDFDocument(new Uint8Array(buffer));
 
-        // Save with compression options
-        // garbage=4: Deduplicate objects and remove unused ones (most aggressive GC)
-        // compress=true: Compress streams
-        // clean=true: Clean content streams
-        const compressedBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
+            mergeDuplicateFonts(doc);
+            signal?.throwIfAborted();
 
-        // Convert mupdf Buffer to Uint8Array and ensure we copy the data before cleanup
-        const data = new Uint8Array(compressedBuffer.asUint8Array());
+            if (!hasFormFields(doc)) doc.subsetFonts();
+            signal?.throwIfAborted();
 
-        // Clean up WASM memory
-        compressedBuffer.destroy();
+            const compressedBuffer = doc.saveToBuffer("garbage=4,compress=yes");
+            const data = new Uint8Array(compressedBuffer.asUint8Array());
+            compressedBuffer.destroy();
 
-        // mupdf returns a Uint8Array (or similar view), wrap in Blob
-        return new Blob([data], { type: 'application/pdf' });
+            return new Blob([data], { type: 'application/pdf' });
+        });
     } catch (error) {
-        console.error("Error in compressLossless:", error);
+        if (!signal?.aborted) console.error("Error in compressFonts:", error);
         throw error;
     }
 }
@@ -0,0 +1,130 @@
+/**
+ * PDF Downloads
+ *
+ * The one way tools hand a finished PDF to the user. The save options the
+ * user picked (see {@link SaveOptions}) are applied in the worker pool first,
+ * and the outcome of the last save is kept so the UI can show whether the
+ * file really came out linearized. State is module-level so any component
+ * can read it through useSyncExternalStore; the options persist across visits.
+ *
+ * @module pdf-download
+ */
+
+import { DEFAULT_SAVE_OPTIONS, type SaveOptions, type SavedPdf } from './pdf-save';
+import { downloadBlob, isAbortError } from './shared';
+import { runPdfJob } from './worker-pool';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SaveState {
+    options: SaveOptions;
+    /** True while save options are being applied to an output */
+    saving: boolean;
+    /** Outcome of the last save that applied options; null before the first one */
+    lastSave: { fileName: string; linearized: boolean; error: string | null } | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STATE
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'mydevicemypdf-save-options';
+
+function loadOptions(): SaveOptions {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<SaveOptions>;
+        return { linearize: typeof stored.linearize === 'boolean' ? stored.linearize : DEFAULT_SAVE_OPTIONS.linearize };
+    } catch {
+        return { ...DEFAULT_SAVE_OPTIONS };
+    }
+}
+
+let state: SaveState = { options: loadOptions(), saving: false, lastSave: null };
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<SaveState>): void {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the current save state (a new object after every change).
+ */
+export function getSaveState(): SaveState {
+    return state;
+}
+
+/**
+ * Subscribes to save state changes.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeSaveState(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Changes the save options for every tool and remembers them.
+ */
+export function setSaveOptions(options: SaveOptions): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch {
+        // Storage can be unavailable (private mode); the options still apply to this visit.
+    }
+    setState({ options });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SAVING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Applies the current save options to a PDF. When they cannot be applied
+ * (an output encrypted with an open password cannot be linearized, for one)
+ * the PDF is returned unchanged and the failure is recorded in the state.
+ *
+ * @param blob - A finished PDF from any tool
+ * @param fileName - Name the PDF will be saved under, for the status line
+ * @returns Promise resolving to the PDF to save
+ */
+export async function preparePdf(blob: Blob, fileName: string): Promise<Blob> {
+    const { options } = state;
+    if (!options.linearize) return blob;
+
+    setState({ saving: true });
+    try {
+        const saved: SavedPdf = await runPdfJob('save-pdf', { blob, options });
+        setState({ saving: false, lastSave: { fileName, linearized: saved.linearization?.linearized ?? false, error: null } });
+        return saved.blob;
+    } catch (error) {
+        const message = isAbortError(error) ? 'Cancelled' : error instanceof Error ? error.message : 'Could not apply save options';
+        setState({ saving: false, lastSave: { fileName, linearized: false, error: message } });
+        return blob;
+    }
+}
+
+/**
+ * Applies the current save options to a PDF and downloads it.
+ *
+ * @param blob - A finished PDF from any tool
+ * @param fileName - The filename to save as
+ */
+export async function downloadPdf(blob: Blob, fileName: string): Promise<void> {
+    downloadBlob(await preparePdf(blob, fileName), fileName);
+}
+
+/**
+ * Downloads a PDF that was measured against a size limit exactly as it was
+ * measured. The save options are skipped: linearizing rewrites the file and
+ * can push it back over the limit.
+ *
+ * @param blob - A part of a size-limited split, or a target-size compression
+ * @param fileName - The filename to save as
+ */
+export function downloadMeasuredPdf(blob: Blob, fileName: string): void {
+    downloadBlob(blob, fileName);
+}
@@ -28,16 +28,19 @@ export type PageSizeKey = keyof typeof PAGE_SIZES;
  * @param files - Array of image files (JPG, PNG)
  * @param pageSize - Page size preset or 'Fit to Image'
  * @param onProgress - Optional progress callback
+ * @param signal - Optional signal to cancel between images
  * @returns Promise resolving to a Blob of the resulting PDF
  */
 export async function imagesToPdf(
     files: File[],
     pageSize: PageSizeKey = 'A4',
     onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
 ): Promise<Blob> {
     const pdfDoc = await PDFDocument.create();
 
     for (let i = 0; i < files.length; i++) {
+        signal?.throwIfAborted();
         const file = files[i];
         const bytes = new Uint8Array(await file.arrayBuffer());
 
@@ -88,6 +91,7 @@ export async function imagesToPdf(
         }
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await pdfDoc.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
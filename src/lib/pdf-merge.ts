@@ -15,13 +15,19 @@ import { PDFDocument } from 'pdf-lib';
  * 
  * @param files - Array of PDF files to merge (in order)
  * @param onProgress - Optional callback for progress updates (0-100)
+ * @param signal - Optional signal to cancel between files
  * @returns Promise resolving to the merged PDF Blob
  */
-export async function mergePdfs(files: File[], onProgress?: (progress: number) => void): Promise<Blob> {
+export async function mergePdfs(
+    files: File[],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
     const mergedPdf = await PDFDocument.create();
     const totalFiles = files.length;
 
     for (let i = 0; i < totalFiles; i++) {
+        signal?.throwIfAborted();
         const file = files[i];
         const arrayBuffer = await file.arrayBuffer();
         const pdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
@@ -36,6 +42,7 @@ export async function mergePdfs(files: File[], onProgress?: (progress: number) =
         }
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await mergedPdf.save();
     // Create a new Uint8Array with explicit ArrayBuffer to fix TypeScript 5.6+ strict typing
     // pdf-lib returns Uint8Array<ArrayBufferLike> which isn't directly assignable to BlobPart
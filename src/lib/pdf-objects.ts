@@ -0,0 +1,93 @@
+/**
+ * PDF Object Helpers
+ *
+ * Small helpers for walking a MuPDF object graph, shared by the modules that
+ * inspect or rewrite PDFs object by object (size analysis, cleaning,
+ * image downsampling).
+ *
+ * @module pdf-objects
+ */
+
+import type { MupdfModule } from './wasm-engines';
+
+export type MupdfPdfDocument = InstanceType<MupdfModule['PDFDocument']>;
+export type MupdfPdfObject = InstanceType<MupdfModule['PDFObject']>;
+export type MupdfImage = InstanceType<MupdfModule['Image']>;
+type MupdfPage = InstanceType<MupdfModule['Page']>;
+
+/** An image XObject and the image MuPDF loaded for it */
+export interface LoadedImage {
+    ref: MupdfPdfObject;
+    /** Kept alive so images met while running the page resolve to the same pointer */
+    image: MupdfImage;
+}
+
+export function nameOf(obj: MupdfPdfObject): string | null {
+    return obj.isName() ? obj.asName() : null;
+}
+
+/**
+ * Serialized size of an object: its dictionary plus, for streams, the raw
+ * (still encoded) data. Takes the reference, since stream checks need it.
+ */
+export function objectBytes(ref: MupdfPdfObject): number {
+    const obj = ref.resolve();
+    let bytes = obj.toString(true).length;
+    if (ref.isStream()) {
+        const length = obj.get('Length');
+        bytes += length.isNumber() ? length.asNumber() : ref.readRawStream().getLength();
+    }
+    return bytes;
+}
+
+/**
+ * Adds every indirect object reachable from `start` to `into`, without
+ * following the keys in `skip` (which would leave the object's own subgraph).
+ */
+export function collectReachable(start: MupdfPdfObject, into: Set<number>, skip: string[] = []): void {
+    const stack = [start];
+    while (stack.length > 0) {
+        let obj = stack.pop() as MupdfPdfObject;
+        if (obj.isIndirect()) {
+            const num = obj.asIndirect();
+            if (into.has(num)) continue;
+            into.add(num);
+            obj = obj.resolve();
+        }
+        if (obj.isDictionary() || obj.isArray()) {
+            obj.forEach((child, key) => {
+                if (typeof key === 'string' && skip.includes(key)) return;
+                if (child.isIndirect() || child.isDictionary() || child.isArray()) stack.push(child);
+            });
+        }
+    }
+}
+
+/**
+ * Runs a page and reports the resolution each of `images` is drawn at, once
+ * per placement. The device sees each placement with its transform; the
+ * image's size on the page is the length of the transformed unit square's
+ * sides. The less dense axis counts, so neither axis is overstated.
+ */
+export function measureImageDpi<T extends LoadedImage>(
+    m: MupdfModule,
+    page: MupdfPage,
+    images: Iterable<T>,
+    onPlacement: (entry: T, dpi: number) => void,
+): void {
+    const byPointer = new Map([...images].map((entry) => [entry.image.pointer, entry]));
+    const device = new m.Device({
+        fillImage(image, ctm) {
+            const entry = byPointer.get(image.pointer);
+            if (!entry) return;
+
+            const widthInches = Math.hypot(ctm[0], ctm[1]) / 72;
+            const heightInches = Math.hypot(ctm[2], ctm[3]) / 72;
+            if (widthInches === 0 || heightInches === 0) return;
+
+            onPlacement(entry, Math.min(image.getWidth() / widthInches, image.getHeight() / heightInches));
+        },
+    });
+    page.run(device, m.Matrix.identity);
+    device.close();
+}
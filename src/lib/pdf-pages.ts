@@ -16,11 +16,13 @@ export { downloadBlob, formatBytes } from './shared';
  * 
  * @param file - The source PDF file
  * @param pageNumbersToRemove - Array of 1-indexed page numbers to remove
+ * @param signal - Optional signal to cancel the operation
  * @returns Promise resolving to a Blob of the resulting PDF
  */
-export async function removePages(file: File, pageNumbersToRemove: number[]): Promise<Blob> {
+export async function removePages(file: File, pageNumbersToRemove: number[], signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    signal?.throwIfAborted();
     const totalPages = sourcePdf.getPageCount();
 
     const removeSet = new Set(pageNumbersToRemove);
@@ -35,6 +37,7 @@ export async function removePages(file: File, pageNumbersToRemove: number[]): Pr
     const copiedPages = await newPdf.copyPages(sourcePdf, keepIndices);
     copiedPages.forEach(page => newPdf.addPage(page));
 
+    signal?.throwIfAborted();
     const pdfBytes = await newPdf.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
@@ -44,19 +47,22 @@ export async function removePages(file: File, pageNumbersToRemove: number[]): Pr
  * 
  * @param file - The source PDF file
  * @param rotations - Map of 1-indexed page number to rotation in degrees (90, 180, 270)
+ * @param signal - Optional signal to cancel between pages
  * @returns Promise resolving to a Blob of the resulting PDF
  */
-export async function rotatePages(file: File, rotations: Record<number, number>): Promise<Blob> {
+export async function rotatePages(file: File, rotations: Record<number, number>, signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
 
     for (const [pageNumStr, rotation] of Object.entries(rotations)) {
+        signal?.throwIfAborted();
         const pageIndex = parseInt(pageNumStr, 10) - 1;
         const page = pdfDoc.getPage(pageIndex);
         const currentRotation = page.getRotation().angle;
         page.setRotation(degrees((currentRotation + rotation) % 360));
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await pdfDoc.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
@@ -66,17 +72,20 @@ export async function rotatePages(file: File, rotations: Record<number, number>)
  * 
  * @param file - The source PDF file
  * @param newOrder - Array of 1-indexed page numbers in the desired order
+ * @param signal - Optional signal to cancel the operation
  * @returns Promise resolving to a Blob of the resulting PDF
  */
-export async function reorderPages(file: File, newOrder: number[]): Promise<Blob> {
+export async function reorderPages(file: File, newOrder: number[], signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    signal?.throwIfAborted();
 
     const newPdf = await PDFDocument.create();
     const indices = newOrder.map(p => p - 1);
     const copiedPages = await newPdf.copyPages(sourcePdf, indices);
     copiedPages.forEach(page => newPdf.addPage(page));
 
+    signal?.throwIfAborted();
     const pdfBytes = await newPdf.save();
     return new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
 }
@@ -84,8 +93,9 @@ export async function reorderPages(file: File, newOrder: number[]): Promise<Blob
 /**
  * Gets the page count of a PDF file.
  */
-export async function getPdfPageCount(file: File): Promise<number> {
+export async function getPdfPageCount(file: File, signal?: AbortSignal): Promise<number> {
     const arrayBuffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
     return pdfDoc.getPageCount();
 }
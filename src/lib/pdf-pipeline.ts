@@ -0,0 +1,243 @@
+/**
+ * PDF Pipeline
+ *
+ * Chains the individual tools (merge, remove pages, page numbers, watermark,
+ * compress) into a single job. Each step receives the previous step's output,
+ * so only the final file has to be downloaded.
+ *
+ * @module pdf-pipeline
+ */
+
+import { addPageNumbers, addWatermark, type PageNumberOptions, type WatermarkOptions } from './pdf-annotations';
+import type { CleanItem } from './pdf-clean';
+import { mergePdfs } from './pdf-merge';
+import { getPdfPageCount, removePages } from './pdf-pages';
+import { parsePageRange } from './pdf-split';
+import {
+    compressPDF,
+    type CompressionQuality,
+    type ExtremeColorMode,
+    type GhostscriptDownsampling,
+    type GhostscriptPreset,
+} from './pdf-utils';
+
+export { downloadBlob, formatBytes } from './shared';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RemovePagesStepOptions {
+    /** Pages to remove, e.g. "1, 3-5" (evaluated against the page count at this step) */
+    pages: string;
+}
+
+export interface CompressStepOptions {
+    quality: CompressionQuality;
+    compressionLevel?: number;
+    rasterDpi?: number;
+    colorMode?: ExtremeColorMode;
+    preserveText?: boolean;
+    targetDpi?: number;
+    jpegQuality?: number;
+    targetSize?: number;
+    ghostscriptPresets?: GhostscriptPreset[];
+    customDownsampling?: GhostscriptDownsampling;
+    chainEngines?: boolean;
+    clean?: CleanItem[];
+}
+
+/**
+ * Options accepted by every pipeline step, keyed by step kind.
+ */
+export interface PipelineStepOptionsMap {
+    'merge': Record<string, never>;
+    'remove-pages': RemovePagesStepOptions;
+    'add-page-numbers': PageNumberOptions;
+    'add-watermark': WatermarkOptions;
+    'compress': CompressStepOptions;
+}
+
+export type PipelineStepKind = keyof PipelineStepOptionsMap;
+
+export type PipelineStep = {
+    [K in PipelineStepKind]: { id: string; kind: K; options: PipelineStepOptionsMap[K] };
+}[PipelineStepKind];
+
+export interface PipelineStepResult {
+    kind: PipelineStepKind;
+    label: string;
+    /** Size of the document after this step, in bytes */
+    outputSize: number;
+    pageCount: number;
+}
+
+export interface PipelineResult {
+    blob: Blob;
+    fileName: string;
+    originalSize: number;
+    steps: PipelineStepResult[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STEP DEFINITIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PIPELINE_STEP_LABELS: Record<PipelineStepKind, string> = {
+    'merge': 'Merge PDFs',
+    'remove-pages': 'Remove Pages',
+    'add-page-numbers': 'Add Page Numbers',
+    'add-watermark': 'Add Watermark',
+    'compress': 'Compress',
+};
+
+export const DEFAULT_STEP_OPTIONS: PipelineStepOptionsMap = {
+    'merge': {},
+    'remove-pages': { pages: '' },
+    'add-page-numbers': { position: 'bottom-center', fontSize: 12, format: 'numeric', startFrom: 1, margin: 30 },
+    'add-watermark': {
+        text: 'CONFIDENTIAL',
+        fontSize: 48,
+        opacity: 0.15,
+        rotation: -30,
+        color: { r: 0.5, g: 0.5, b: 0.5 },
+        position: 'tiled',
+        tileOffsetX: 0,
+        tileOffsetY: 0,
+    },
+    'compress': { quality: 'lossless' },
+};
+
+let nextStepId = 1;
+
+/**
+ * Creates a step of the given kind with default options.
+ */
+export function createPipelineStep<K extends PipelineStepKind>(
+    kind: K,
+    options: PipelineStepOptionsMap[K] = structuredClone(DEFAULT_STEP_OPTIONS[kind])
+): PipelineStep {
+    return { id: `step-${Date.now()}-${nextStepId++}`, kind, options } as PipelineStep;
+}
+
+/**
+ * Checks that a list of steps can run against the given number of input files.
+ *
+ * @param steps - Steps in execution order
+ * @param fileCount - Number of input PDFs
+ * @returns An error message, or null when the pipeline is runnable
+ */
+export function validatePipeline(steps: PipelineStep[], fileCount: number): string | null {
+    if (steps.length === 0) return 'Add at least one step';
+    if (fileCount === 0) return 'Add at least one PDF';
+
+    const mergeIndex = steps.findIndex((step) => step.kind === 'merge');
+    if (mergeIndex > 0) return 'Merge must be the first step';
+    if (steps.filter((step) => step.kind === 'merge').length > 1) return 'Only one merge step is allowed';
+    if (fileCount > 1 && mergeIndex !== 0) return 'Multiple PDFs need a merge step first';
+
+    for (const step of steps) {
+        if (step.kind === 'remove-pages' && !step.options.pages.trim()) {
+            return 'Enter the pages to remove';
+        }
+        if (step.kind === 'add-watermark' && !step.options.text.trim()) {
+            return 'Enter the watermark text';
+        }
+    }
+
+    return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EXECUTION
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function runStep(
+    step: PipelineStep,
+    files: File[],
+    input: File,
+    onProgress: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    switch (step.kind) {
+        case 'merge':
+            return mergePdfs(files, onProgress, signal);
+        case 'remove-pages': {
+            const totalPages = await getPdfPageCount(input, signal);
+            const pages = parsePageRange(step.options.pages, totalPages);
+            return removePages(input, pages, signal);
+        }
+        case 'add-page-numbers':
+            return addPageNumbers(input, step.options, signal);
+        case 'add-watermark':
+            return addWatermark(input, step.options, signal);
+        case 'compress': {
+            const result = await compressPDF(input, {
+                ...step.options,
+                onProgress: (progress) => onProgress(progress),
+                signal,
+            });
+            return result.blob;
+        }
+    }
+}
+
+/**
+ * Runs every step in order, feeding each step's output into the next.
+ *
+ * @example
+ * const result = await runPipeline(files, [
+ *     createPipelineStep('merge'),
+ *     createPipelineStep('compress'),
+ * ]);
+ *
+ * @param files - Input PDFs (more than one requires a leading merge step)
+ * @param steps - Steps in execution order
+ * @param onProgress - Optional callback for overall progress (0-100) and the current step
+ * @param signal - Optional signal to cancel between steps
+ * @returns Promise resolving to the final file and per-step sizes
+ * @throws Error if the pipeline is invalid or a step fails
+ */
+export async function runPipeline(
+    files: File[],
+    steps: PipelineStep[],
+    onProgress?: (progress: number, status?: string) => void,
+    signal?: AbortSignal
+): Promise<PipelineResult> {
+    const validationError = validatePipeline(steps, files.length);
+    if (validationError) throw new Error(validationError);
+
+    const originalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const baseName = files[0].name.replace(/\.pdf$/i, '');
+    const stepResults: PipelineStepResult[] = [];
+    const totalSteps = steps.length;
+    let current: File = files[0];
+
+    for (let i = 0; i < totalSteps; i++) {
+        signal?.throwIfAborted();
+        const step = steps[i];
+        const label = PIPELINE_STEP_LABELS[step.kind];
+        const reportStep = (stepProgress: number) =>
+            onProgress?.(Math.round(((i + stepProgress / 100) / totalSteps) * 100), `Step ${i + 1}/${totalSteps}: ${label}...`);
+
+        reportStep(0);
+        const output = await runStep(step, files, current, reportStep, signal);
+
+        current = new File([output], `${baseName}.pdf`, { type: 'application/pdf' });
+        stepResults.push({
+            kind: step.kind,
+            label,
+            outputSize: current.size,
+            pageCount: await getPdfPageCount(current, signal),
+        });
+    }
+
+    onProgress?.(100, 'Pipeline complete');
+
+    return {
+        blob: current,
+        fileName: `${baseName}_processed.pdf`,
+        originalSize,
+        steps: stepResults,
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * PDF Rendering
+ *
+ * Opens PDFs with pdf.js and renders pages onto canvases for the features
+ * that look at pages rather than at PDF objects. pdf.js draws onto a DOM
+ * canvas, so everything here runs on the main thread.
+ *
+ * @module pdf-render
+ */
+
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorker;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DOCUMENTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Opens a PDF, runs a task with it and destroys it afterwards. Aborting the
+ * signal tears the document down while the task runs; the abort listener is
+ * removed again once the document is gone, so a long-lived signal does not
+ * collect one listener per run.
+ *
+ * @param blob - The PDF to open
+ * @param signal - Optional signal to cancel loading and rendering
+ * @param task - Work to do with the open document
+ * @returns Promise resolving to the task result
+ */
+export async function withDocument<T>(
+    blob: Blob,
+    signal: AbortSignal | undefined,
+    task: (pdf: PDFDocumentProxy) => Promise<T>,
+): Promise<T> {
+    const loadingTask = getDocument({ data: new Uint8Array(await blob.arrayBuffer()) });
+    const onAbort = () => void loadingTask.destroy();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        return await task(await loadingTask.promise);
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        await loadingTask.destroy();
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PAGES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Renders a page onto a white canvas. With `width` set the page is scaled to
+ * that width instead of to `dpi`, so pages of two documents line up pixel
+ * for pixel.
+ */
+export async function renderPage(pdf: PDFDocumentProxy, pageNumber: number, dpi: number, width?: number): Promise<HTMLCanvasElement> {
+    const page = await pdf.getPage(pageNumber);
+    const natural = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: width ? width / natural.width : dpi / 72 });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(viewport.width));
+    canvas.height = Math.max(1, Math.round(viewport.height));
+    const context = canvas.getContext('2d', { willReadFrequently: true })!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvas, canvasContext: context, viewport }).promise;
+    page.cleanup();
+    return canvas;
+}
+
+/**
+ * Reads the RGBA pixels of a rendered page, from the top down to `height`.
+ */
+export function pixelsOf(canvas: HTMLCanvasElement, height = canvas.height): Uint8ClampedArray {
+    return canvas.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, canvas.width, height).data;
+}
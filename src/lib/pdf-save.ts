@@ -0,0 +1,141 @@
+/**
+ * PDF Save Options
+ *
+ * Output options that apply to the result of any tool, independent of what
+ * the tool did. Currently linearization ("fast web view"): QPDF rewrites the
+ * file so the first page and the hint tables come first, which lets a viewer
+ * show page one of a file served over HTTP before the rest has arrived.
+ * MuPDF no longer writes linearized files, so QPDF does this.
+ *
+ * @module pdf-save
+ */
+
+import { safeUnlink, withEngine } from './wasm-engines';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SaveOptions {
+    /** Rewrite the output for fast web view */
+    linearize: boolean;
+}
+
+export interface LinearizationStatus {
+    linearized: boolean;
+    /** Why the file does not count as linearized; null when it does */
+    problem: string | null;
+}
+
+export interface SavedPdf {
+    blob: Blob;
+    /** Checked after linearizing; null when linearization was not requested */
+    linearization: LinearizationStatus | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_SAVE_OPTIONS: SaveOptions = { linearize: false };
+
+/** The linearization dictionary has to be the first object, within the first 1024 bytes */
+const LINEARIZATION_WINDOW = 1024;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LINEARIZATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads the linearization dictionary at the start of a PDF, the way viewers
+ * decide whether to offer fast web view. A file saved again after it was
+ * linearized (an incremental update, say) keeps the dictionary but no longer
+ * matches its recorded length, and counts as not linearized.
+ *
+ * @param bytes - The complete PDF file
+ * @returns Whether the file is linearized, and if not, why
+ */
+export function checkLinearization(bytes: Uint8Array): LinearizationStatus {
+    const head = new TextDecoder('latin1').decode(bytes.subarray(0, LINEARIZATION_WINDOW));
+    const firstObject = /\d+\s+\d+\s+obj\s*<<([\s\S]*?)>>/.exec(head);
+
+    if (!firstObject || !/\/Linearized\s/.test(firstObject[1])) {
+        return { linearized: false, problem: 'No linearization dictionary at the start of the file' };
+    }
+
+    const dict = firstObject[1];
+    const length = /\/L\s+(\d+)/.exec(dict);
+    if (!length || Number(length[1]) !== bytes.length) {
+        return { linearized: false, problem: 'The file was changed after it was linearized' };
+    }
+    if (!/\/H\s*\[/.test(dict)) {
+        return { linearized: false, problem: 'The hint tables are missing' };
+    }
+
+    return { linearized: true, problem: null };
+}
+
+/**
+ * Rewrites a PDF for fast web view with QPDF. Object streams and stream
+ * compression are kept as they are, so the file size barely changes.
+ *
+ * @param blob - The PDF to linearize
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the linearized PDF
+ */
+export async function linearizePdf(blob: Blob, signal?: AbortSignal): Promise<Blob> {
+    const inputBytes = new Uint8Array(await blob.arrayBuffer());
+    signal?.throwIfAborted();
+
+    return withEngine('qpdf', (qpdf) => {
+        const runId = `linearize-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+        const inputPath = `/${runId}-input.pdf`;
+        const outputPath = `/${runId}-output.pdf`;
+
+        // Temp files are removed in `finally`, including when the run is aborted.
+        try {
+            qpdf.FS.writeFile(inputPath, inputBytes);
+            signal?.throwIfAborted();
+
+            const exitCode = qpdf.callMain(['--linearize', '--object-streams=preserve', inputPath, outputPath]);
+            // Exit code 3 means QPDF repaired something along the way; the output is still written.
+            if (exitCode !== 0 && exitCode !== 3) {
+                throw new Error(`QPDF exited with code ${exitCode}`);
+            }
+
+            signal?.throwIfAborted();
+            return new Blob([new Uint8Array(qpdf.FS.readFile(outputPath))], { type: 'application/pdf' });
+        } finally {
+            safeUnlink(qpdf, inputPath);
+            safeUnlink(qpdf, outputPath);
+        }
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SAVING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Applies the save options to a finished PDF. A linearized output is checked
+ * with {@link checkLinearization} before it is returned.
+ *
+ * @param blob - Output of any tool
+ * @param options - Save options to apply
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the PDF to save and its linearization status
+ * @throws Error if linearization fails or the result does not check out
+ */
+export async function applySaveOptions(blob: Blob, options: SaveOptions, signal?: AbortSignal): Promise<SavedPdf> {
+    if (!options.linearize) {
+        return { blob, linearization: null };
+    }
+
+    const linearized = await linearizePdf(blob, signal);
+    const linearization = checkLinearization(new Uint8Array(await linearized.arrayBuffer()));
+    if (!linearization.linearized) {
+        throw new Error(`Linearized output did not verify: ${linearization.problem}`);
+    }
+
+    return { blob: linearized, linearization };
+}
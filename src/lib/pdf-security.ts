@@ -8,6 +8,7 @@
  */
 
 import { PDFDocument } from 'pdf-lib';
+import { withEngine } from './wasm-engines';
 
 export { downloadBlob, formatBytes } from './shared';
 
@@ -24,13 +25,15 @@ export interface ProtectOptions {
 /**
  * Protects a PDF with a password.
  * 
- * Note: pdf-lib supports basic encryption. For full permission control,
- * this sets user and owner passwords. The PDF viewer will prompt for a
+ * The file is encrypted with AES-256 by MuPDF. The user password opens it
+ * with only the given permissions; the owner password (the user password if
+ * none is given) opens it with all of them. The PDF viewer will prompt for a
  * password when opening.
  */
-export async function protectPdf(file: File, options: ProtectOptions): Promise<Blob> {
+export async function protectPdf(file: File, options: ProtectOptions, signal?: AbortSignal): Promise<Blob> {
     const arrayBuffer = await file.arrayBuffer();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    signal?.throwIfAborted();
 
     const pdfBytes = await pdfDoc.save({
         useObjectStreams: false,
@@ -40,31 +43,25 @@ export async function protectPdf(file: File, options: ProtectOptions): Promise<B
     });
 
     // Use mupdf for actual encryption
-    let mupdfModule: any = null;
-    (window as any)["$libmupdf_wasm_Module"] = {
-        locateFile: (path: string, prefix: string) => {
-            if (path.endsWith('.wasm')) return '/mupdf-wasm.wasm';
-            return prefix + path;
-        },
-    };
-    mupdfModule = await import('mupdf');
-
-    const doc = mupdfModule.Document.openDocument(new Uint8Array(pdfBytes), "application/pdf");
-    const pdfMupdf = doc.asPDF();
-    if (!pdfMupdf) throw new Error("Failed to process PDF");
+    return withEngine('mupdf', (mupdf) => {
+        const doc = mupdf.Document.openDocument(new Uint8Array(pdfBytes), "application/pdf");
+        const pdfMupdf = doc.asPDF();
+        if (!pdfMupdf) throw new Error("Failed to process PDF");
 
-    const ownerPw = options.ownerPassword || options.userPassword;
+        const ownerPw = options.ownerPassword || options.userPassword;
 
-    // Build permission string
-    // MuPDF encrypt options: "user-password=X,owner-password=Y,permissions=N"
-    const permValue = calculatePermissions(options.permissions);
-    const saveOpts = `user-password=${options.userPassword},owner-password=${ownerPw},permissions=${permValue}`;
+        // Build permission string
+        // MuPDF encrypt options: "encrypt=METHOD,user-password=X,owner-password=Y,permissions=N"
+        // Without an explicit method MuPDF writes the file unencrypted.
+        const permValue = calculatePermissions(options.permissions);
+        const saveOpts = `encrypt=aes-256,user-password=${options.userPassword},owner-password=${ownerPw},permissions=${permValue}`;
 
-    const encryptedBuffer = pdfMupdf.saveToBuffer(saveOpts);
-    const data = new Uint8Array(encryptedBuffer.asUint8Array());
-    encryptedBuffer.destroy();
+        const encryptedBuffer = pdfMupdf.saveToBuffer(saveOpts);
+        const data = new Uint8Array(encryptedBuffer.asUint8Array());
+        encryptedBuffer.destroy();
 
-    return new Blob([data], { type: 'application/pdf' });
+        return new Blob([data], { type: 'application/pdf' });
+    });
 }
 
 function calculatePermissions(perms?: { printing?: boolean; copying?: boolean; modifying?: boolean }): number {
@@ -82,35 +79,32 @@ function calculatePermissions(perms?: { printing?: boolean; copying?: boolean; m
 }
 
 /**
- * Attempts to unlock a password-protected PDF.
+ * Attempts to unlock a password-protected PDF. The result is saved without
+ * any encryption, so it opens without a password and without restrictions.
  */
-export async function unlockPdf(file: File, password: string): Promise<Blob> {
-    let mupdfModule: any = null;
-    (window as any)["$libmupdf_wasm_Module"] = {
-        locateFile: (path: string, prefix: string) => {
-            if (path.endsWith('.wasm')) return '/mupdf-wasm.wasm';
-            return prefix + path;
-        },
-    };
-    mupdfModule = await import('mupdf');
-
+export async function unlockPdf(file: File, password: string, signal?: AbortSignal): Promise<Blob> {
     const buffer = await file.arrayBuffer();
-    const doc = mupdfModule.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+    signal?.throwIfAborted();
+
+    return withEngine('mupdf', (mupdf) => {
+        const doc = mupdf.Document.openDocument(new Uint8Array(buffer), "application/pdf");
 
-    if (doc.needsPassword()) {
-        const authenticated = doc.authenticatePassword(password);
-        if (!authenticated) {
-            throw new Error('Incorrect password. Please try again.');
+        if (doc.needsPassword()) {
+            const authenticated = doc.authenticatePassword(password);
+            if (!authenticated) {
+                throw new Error('Incorrect password. Please try again.');
+            }
         }
-    }
 
-    const pdfDoc = doc.asPDF();
-    if (!pdfDoc) throw new Error("Failed to process PDF");
+        const pdfDoc = doc.asPDF();
+        if (!pdfDoc) throw new Error("Failed to process PDF");
+        signal?.throwIfAborted();
 
-    // Save without encryption
-    const cleanBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
-    const data = new Uint8Array(cleanBuffer.asUint8Array());
-    cleanBuffer.destroy();
+        // Save without encryption (MuPDF keeps the original encryption unless told otherwise)
+        const cleanBuffer = pdfDoc.saveToBuffer("encrypt=none,garbage=4,compress=yes,clean=yes");
+        const data = new Uint8Array(cleanBuffer.asUint8Array());
+        cleanBuffer.destroy();
 
-    return new Blob([data], { type: 'application/pdf' });
+        return new Blob([data], { type: 'application/pdf' });
+    });
 }
@@ -0,0 +1,141 @@
+/**
+ * Separator Page Detection
+ *
+ * Renders every page with pdf.js and finds the separator sheets a scanner
+ * put between documents: pages that are (nearly) blank, and optionally pages
+ * carrying a barcode or QR code. Codes are read with the browser's
+ * BarcodeDetector, where it exists; blank pages are rendered at a low
+ * resolution unless codes have to be read too.
+ *
+ * @module pdf-separators
+ */
+
+import { DEFAULT_BLANK_THRESHOLD, inkCoverage } from './ink-coverage';
+import { pixelsOf, renderPage, withDocument } from './pdf-render';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SeparatorOptions {
+    /** Pages with less ink than this share of their area are separators (default {@link DEFAULT_BLANK_THRESHOLD}) */
+    blankThreshold?: number;
+    /** Also count pages with a barcode or QR code as separators */
+    detectCodes?: boolean;
+    /** With `detectCodes`, only codes whose text contains this count; required, so ordinary barcodes on content pages are not taken for separators */
+    codeText?: string;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface PageInk {
+    /** 1-based page number */
+    pageNumber: number;
+    /** Share of the page (0-1) covered by ink */
+    coverage: number;
+    /** Text of the first matching code on the page, null if none was found or looked for */
+    code: string | null;
+    separator: boolean;
+}
+
+export interface SeparatorReport {
+    pages: PageInk[];
+    /** Page numbers with `separator` set */
+    separatorPages: number[];
+    /** Separators found by their code rather than by being blank */
+    codePages: number[];
+    /** Whether codes were looked for; 'unsupported' when the browser cannot read them */
+    codeDetection: 'off' | 'on' | 'unsupported';
+}
+
+interface BarcodeDetectorLike {
+    detect(image: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+interface BarcodeDetectorConstructor {
+    new (options?: { formats?: string[] }): BarcodeDetectorLike;
+    getSupportedFormats(): Promise<string[]>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Enough to see a few lines of text on an otherwise empty page */
+const BLANK_RENDER_DPI = 40;
+
+/** Barcode bars and QR modules need more pixels to be read */
+const CODE_RENDER_DPI = 150;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CODE DETECTION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Creates a detector for every code format the browser can read, or returns
+ * null when it has no BarcodeDetector.
+ */
+async function createCodeDetector(): Promise<BarcodeDetectorLike | null> {
+    const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return null;
+
+    const formats = await Detector.getSupportedFormats();
+    return formats.length > 0 ? new Detector({ formats }) : null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DETECTION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Measures the ink on every page (see {@link inkCoverage}) and, if asked,
+ * reads codes on the pages that are not blank.
+ *
+ * @param file - The scanned PDF
+ * @param options - Blank threshold, code detection, progress and cancellation
+ * @returns Promise resolving to the per-page findings and the separator pages
+ * @throws Error if `detectCodes` is set without a `codeText`
+ */
+export async function findSeparatorPages(file: Blob, options: SeparatorOptions = {}): Promise<SeparatorReport> {
+    const {
+        blankThreshold = DEFAULT_BLANK_THRESHOLD,
+        detectCodes = false,
+        codeText = '',
+        onProgress,
+        signal,
+    } = options;
+
+    if (detectCodes && !codeText) {
+        throw new Error('Enter the text of the separator code to look for');
+    }
+
+    const detector = detectCodes ? await createCodeDetector() : null;
+    const codeDetection = !detectCodes ? 'off' : detector ? 'on' : 'unsupported';
+
+    return withDocument(file, signal, async (pdf) => {
+        const pages: PageInk[] = [];
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            signal?.throwIfAborted();
+
+            const canvas = await renderPage(pdf, pageNumber, detector ? CODE_RENDER_DPI : BLANK_RENDER_DPI);
+            const coverage = inkCoverage(pixelsOf(canvas), canvas.width, canvas.height);
+
+            let code: string | null = null;
+            if (detector && coverage >= blankThreshold) {
+                const codes = await detector.detect(canvas);
+                code = codes.find(({ rawValue }) => rawValue.includes(codeText))?.rawValue ?? null;
+            }
+
+            pages.push({ pageNumber, coverage, code, separator: coverage < blankThreshold || code !== null });
+            onProgress?.(Math.round((pageNumber / pdf.numPages) * 100));
+        }
+
+        return {
+            pages,
+            separatorPages: pages.filter((page) => page.separator).map((page) => page.pageNumber),
+            codePages: pages.filter((page) => page.code !== null).map((page) => page.pageNumber),
+            codeDetection,
+        };
+    });
+}
@@ -9,6 +9,7 @@
 
 import { PDFDocument } from 'pdf-lib';
 import JSZip from 'jszip';
+import { withEngine } from './wasm-engines';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -26,6 +27,8 @@ export interface SplitResult {
     totalPages: number;
     /** Original filename */
     originalName: string;
+    /** Pages that are over the size limit on their own (size-limit splits only) */
+    oversizedPages?: number[];
 }
 
 export interface SplitPage {
@@ -37,18 +40,125 @@ export interface SplitPage {
     fileName: string;
 }
 
+export interface OutlineEntry {
+    title: string;
+    /** Page the bookmark points to (1-indexed) */
+    pageNumber: number;
+    /** Nesting level; 1 for top-level bookmarks */
+    depth: number;
+}
+
+export interface OutlineSection {
+    title: string;
+    pageNumbers: number[];
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PARSING UTILITIES
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Parses a page range string into an array of page numbers.
+ * Resolves one page reference of a range: a number, or "end" for the last page.
+ */
+function resolvePage(token: string, totalPages: number): number {
+    return token.toLowerCase() === 'end' ? totalPages : parseInt(token, 10);
+}
+
+/**
+ * Parses one comma-separated entry of a group into its pages.
+ */
+function parseRangePart(part: string, totalPages: number): number[] {
+    const keyword = part.toLowerCase();
+    if (keyword === 'odd' || keyword === 'even') {
+        const pages: number[] = [];
+        for (let i = keyword === 'odd' ? 1 : 2; i <= totalPages; i += 2) {
+            pages.push(i);
+        }
+        return pages;
+    }
+
+    const last = /^last\s*-\s*(\d+)$/.exec(keyword);
+    if (last) {
+        const count = parseInt(last[1], 10);
+        if (count < 1 || count > totalPages) {
+            throw new Error(`"${part}" is out of bounds (PDF has ${totalPages} pages)`);
+        }
+        return Array.from({ length: count }, (_, i) => totalPages - count + 1 + i);
+    }
+
+    if (part.includes('-')) {
+        const [startStr, endStr] = part.split('-').map(s => s.trim());
+        const start = resolvePage(startStr, totalPages);
+        const end = resolvePage(endStr, totalPages);
+
+        if (isNaN(start) || isNaN(end)) {
+            throw new Error(`Invalid range: "${part}"`);
+        }
+        if (start > end) {
+            throw new Error(`Invalid range: "${part}" (start > end)`);
+        }
+        if (start < 1 || end > totalPages) {
+            throw new Error(`Range "${part}" is out of bounds (PDF has ${totalPages} pages)`);
+        }
+
+        return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+    }
+
+    const page = resolvePage(part, totalPages);
+    if (isNaN(page)) {
+        throw new Error(`Invalid page number: "${part}"`);
+    }
+    if (page < 1 || page > totalPages) {
+        throw new Error(`Page ${page} is out of bounds (PDF has ${totalPages} pages)`);
+    }
+    return [page];
+}
+
+/**
+ * Parses a page range string into groups of page numbers, one group per
+ * output file.
  * 
- * Supports formats like:
+ * Groups are separated by semicolons, entries within a group by commas:
  * - "1" - single page
  * - "1-5" - range of pages
- * - "1, 3, 5" - comma-separated pages
  * - "1-3, 5, 7-10" - mixed format
+ * - "8-end", "end" - up to / the last page
+ * - "odd", "even" - every odd or even page
+ * - "last-3" - the last three pages
+ * - "1-3; 4-10; 11-end" - three groups
+ * 
+ * @param rangeStr - The page range string to parse
+ * @param totalPages - Total number of pages in the PDF (for validation)
+ * @returns One sorted, de-duplicated array of page numbers (1-indexed) per group
+ * @throws Error if the range is invalid or a group selects no pages
+ */
+export function parsePageGroups(rangeStr: string, totalPages: number): number[][] {
+    const groupStrs = rangeStr.split(';').map(s => s.trim()).filter(s => s);
+    if (groupStrs.length === 0) {
+        throw new Error('No pages specified');
+    }
+
+    return groupStrs.map((groupStr) => {
+        const pages = new Set<number>();
+        const parts = groupStr.split(',').map(s => s.trim()).filter(s => s);
+
+        for (const part of parts) {
+            for (const page of parseRangePart(part, totalPages)) {
+                pages.add(page);
+            }
+        }
+
+        if (pages.size === 0) {
+            throw new Error(groupStrs.length === 1 ? 'No pages specified' : `No pages in "${groupStr}"`);
+        }
+
+        return Array.from(pages).sort((a, b) => a - b);
+    });
+}
+
+/**
+ * Parses a page range string into an array of page numbers. Accepts the
+ * full {@link parsePageGroups} syntax; the pages of all groups are combined.
  * 
  * @param rangeStr - The page range string to parse
  * @param totalPages - Total number of pages in the PDF (for validation)
@@ -56,45 +166,195 @@ export interface SplitPage {
  * @throws Error if the range is invalid
  */
 export function parsePageRange(rangeStr: string, totalPages: number): number[] {
-    const pages = new Set<number>();
-    const parts = rangeStr.split(',').map(s => s.trim()).filter(s => s);
+    const pages = new Set(parsePageGroups(rangeStr, totalPages).flat());
+    return Array.from(pages).sort((a, b) => a - b);
+}
 
-    for (const part of parts) {
-        if (part.includes('-')) {
-            const [startStr, endStr] = part.split('-').map(s => s.trim());
-            const start = parseInt(startStr, 10);
-            const end = parseInt(endStr, 10);
+/**
+ * Groups all pages into consecutive runs of a fixed length; the last run
+ * holds whatever is left over.
+ * 
+ * @param totalPages - Total number of pages in the PDF
+ * @param pagesPerFile - Pages in each group
+ * @returns Page numbers (1-indexed) of each group
+ * @throws Error if pagesPerFile is not a positive whole number
+ */
+export function groupEveryNPages(totalPages: number, pagesPerFile: number): number[][] {
+    if (!Number.isInteger(pagesPerFile) || pagesPerFile < 1) {
+        throw new Error('Pages per file must be a whole number of at least 1');
+    }
 
-            if (isNaN(start) || isNaN(end)) {
-                throw new Error(`Invalid range: "${part}"`);
-            }
-            if (start > end) {
-                throw new Error(`Invalid range: "${part}" (start > end)`);
-            }
-            if (start < 1 || end > totalPages) {
-                throw new Error(`Range "${part}" is out of bounds (PDF has ${totalPages} pages)`);
-            }
+    const groups: number[][] = [];
+    for (let start = 1; start <= totalPages; start += pagesPerFile) {
+        const end = Math.min(start + pagesPerFile - 1, totalPages);
+        groups.push(Array.from({ length: end - start + 1 }, (_, i) => start + i));
+    }
+    return groups;
+}
+
+/**
+ * Groups all pages into a number of consecutive parts whose lengths differ
+ * by at most one page; earlier parts get the extra pages.
+ * 
+ * @param totalPages - Total number of pages in the PDF
+ * @param parts - Number of groups
+ * @returns Page numbers (1-indexed) of each group
+ * @throws Error if parts is not a whole number between 1 and totalPages
+ */
+export function groupIntoParts(totalPages: number, parts: number): number[][] {
+    if (!Number.isInteger(parts) || parts < 1) {
+        throw new Error('Number of parts must be a whole number of at least 1');
+    }
+    if (parts > totalPages) {
+        throw new Error(`Cannot split ${totalPages} pages into ${parts} parts`);
+    }
+
+    const groups: number[][] = [];
+    const baseLength = Math.floor(totalPages / parts);
+    let start = 1;
+    for (let part = 0; part < parts; part++) {
+        const length = baseLength + (part < totalPages % parts ? 1 : 0);
+        groups.push(Array.from({ length }, (_, i) => start + i));
+        start += length;
+    }
+    return groups;
+}
+
+/**
+ * Plans one section per bookmark start page, using bookmarks down to `depth`
+ * levels. Pages before the first bookmark become a "Front matter" section;
+ * when several bookmarks point to the same page, the first one names it.
+ * 
+ * @param outline - Bookmarks in document order, as read by {@link readOutline}
+ * @param totalPages - Total number of pages in the PDF
+ * @param depth - Deepest bookmark level to split at (1 = top level only)
+ * @returns Sections in page order, together covering every page
+ * @throws Error if no bookmark down to that level points to a page
+ */
+export function planOutlineSections(outline: OutlineEntry[], totalPages: number, depth: number): OutlineSection[] {
+    const starts = new Map<number, string>();
+    const entries = outline
+        .filter((entry) => entry.depth <= depth && entry.pageNumber >= 1 && entry.pageNumber <= totalPages)
+        .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    for (const entry of entries) {
+        if (!starts.has(entry.pageNumber)) starts.set(entry.pageNumber, entry.title);
+    }
+    if (starts.size === 0) {
+        throw new Error('This PDF has no bookmarks to split at');
+    }
+
+    const startPages = Array.from(starts.keys());
+    if (startPages[0] > 1) {
+        startPages.unshift(1);
+        starts.set(1, 'Front matter');
+    }
+
+    return startPages.map((start, i) => {
+        const end = i + 1 < startPages.length ? startPages[i + 1] - 1 : totalPages;
+        return {
+            title: starts.get(start)!,
+            pageNumbers: Array.from({ length: end - start + 1 }, (_, j) => start + j),
+        };
+    });
+}
 
-            for (let i = start; i <= end; i++) {
-                pages.add(i);
+/**
+ * Groups pages into documents at separator pages, such as the blank sheets a
+ * scanner put between documents. A run of separators (the front and back of
+ * one sheet, say) counts as one break. Kept separators open the document
+ * that follows them; separators after the last document stay with it.
+ * 
+ * @param totalPages - Total number of pages in the PDF
+ * @param separatorPages - Page numbers (1-indexed) of the separators
+ * @param dropSeparators - Leave the separator pages out of the documents
+ * @param keptPages - Separators that stay in the documents even with `dropSeparators`
+ * @returns Page numbers (1-indexed) of each document
+ * @throws Error if every page is a separator
+ */
+export function groupBySeparators(
+    totalPages: number,
+    separatorPages: number[],
+    dropSeparators: boolean,
+    keptPages: number[] = [],
+): number[][] {
+    const separators = new Set(separatorPages);
+    const kept = new Set(keptPages);
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let hasContent = false;
+
+    for (let page = 1; page <= totalPages; page++) {
+        if (separators.has(page)) {
+            if (hasContent) {
+                groups.push(current);
+                current = [];
+                hasContent = false;
             }
+            if (!dropSeparators || kept.has(page)) current.push(page);
         } else {
-            const page = parseInt(part, 10);
-            if (isNaN(page)) {
-                throw new Error(`Invalid page number: "${part}"`);
-            }
-            if (page < 1 || page > totalPages) {
-                throw new Error(`Page ${page} is out of bounds (PDF has ${totalPages} pages)`);
-            }
-            pages.add(page);
+            current.push(page);
+            hasContent = true;
         }
     }
 
-    if (pages.size === 0) {
-        throw new Error('No pages specified');
+    if (hasContent) {
+        groups.push(current);
+    } else if (groups.length > 0) {
+        groups[groups.length - 1].push(...current);
     }
 
-    return Array.from(pages).sort((a, b) => a - b);
+    if (groups.length === 0) {
+        throw new Error('Every page is a separator page');
+    }
+    return groups;
+}
+
+/**
+ * Turns a bookmark title into something every file system accepts: no path
+ * separators or reserved characters, whitespace as underscores, at most 80
+ * characters.
+ * 
+ * @param title - Bookmark title
+ * @returns File name stem (without extension); "section" if nothing is left
+ */
+export function sanitizeFileName(title: string): string {
+    const stem = title
+        .normalize('NFC')
+        .replace(/[\\/:*?"<>|\p{Cc}]/gu, '')
+        .trim()
+        .replace(/\s+/g, '_')
+        .slice(0, 80)
+        .replace(/^[._]+|[._]+$/g, '');
+    return stem || 'section';
+}
+
+/**
+ * Writes page numbers as a compact list of ranges, e.g. [1, 2, 3, 5] as "1-3,5".
+ * 
+ * @param pageNumbers - Page numbers (1-indexed) in ascending order
+ * @returns Comma-separated pages and ranges; empty for no pages
+ */
+export function formatPageRanges(pageNumbers: number[]): string {
+    if (pageNumbers.length === 0) return '';
+
+    const ranges: string[] = [];
+    let start = pageNumbers[0];
+    let end = pageNumbers[0];
+
+    for (let i = 1; i < pageNumbers.length; i += 1) {
+        if (pageNumbers[i] === end + 1) {
+            end = pageNumbers[i];
+            continue;
+        }
+
+        ranges.push(start === end ? `${start}` : `${start}-${end}`);
+        start = pageNumbers[i];
+        end = pageNumbers[i];
+    }
+
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+    return ranges.join(',');
 }
 
 /**
@@ -117,28 +377,37 @@ export function validatePageRange(rangeStr: string, totalPages: number): { isVal
 // PDF OPERATIONS
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Returns `${stem}.pdf`, numbered (`${stem}_2.pdf`, ...) if that name is
+ * already taken, and records the name so a ZIP never holds two files with it.
+ */
+function uniqueFileName(stem: string, taken: Set<string>): string {
+    let fileName = `${stem}.pdf`;
+    for (let i = 2; taken.has(fileName); i++) {
+        fileName = `${stem}_${i}.pdf`;
+    }
+    taken.add(fileName);
+    return fileName;
+}
+
 /**
  * Gets the page count of a PDF file.
  * 
  * @param file - The PDF file to count pages in
+ * @param signal - Optional signal to cancel the operation
  * @returns Promise resolving to the number of pages
  */
-export async function getPdfPageCount(file: File): Promise<number> {
+export async function getPdfPageCount(file: File, signal?: AbortSignal): Promise<number> {
     const arrayBuffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
     const pdfDoc = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
     return pdfDoc.getPageCount();
 }
 
 /**
- * Extracts specific pages from a PDF file.
- * 
- * @param file - The source PDF file
- * @param pageNumbers - Array of page numbers to extract (1-indexed)
- * @returns Promise resolving to a Blob containing the new PDF
+ * Copies pages of an already loaded PDF into a new PDF.
  */
-export async function extractPages(file: File, pageNumbers: number[]): Promise<Blob> {
-    const arrayBuffer = await file.arrayBuffer();
-    const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+async function savePages(sourcePdf: PDFDocument, pageNumbers: number[], signal?: AbortSignal): Promise<Blob> {
     const newPdf = await PDFDocument.create();
 
     // Convert 1-indexed page numbers to 0-indexed
@@ -149,6 +418,7 @@ export async function extractPages(file: File, pageNumbers: number[]): Promise<B
         newPdf.addPage(page);
     }
 
+    signal?.throwIfAborted();
     const pdfBytes = await newPdf.save();
     // Create a new Uint8Array with explicit ArrayBuffer to fix TypeScript 5.6+ strict typing
     // pdf-lib returns Uint8Array<ArrayBufferLike> which isn't directly assignable to BlobPart
@@ -157,46 +427,180 @@ export async function extractPages(file: File, pageNumbers: number[]): Promise<B
 }
 
 /**
- * Splits a PDF by extracting pages based on a range string.
+ * Extracts specific pages from a PDF file.
  * 
  * @param file - The source PDF file
- * @param rangeStr - Page range string (e.g., "1-3, 5, 7-10")
- * @returns Promise resolving to split result
+ * @param pageNumbers - Array of page numbers to extract (1-indexed)
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to a Blob containing the new PDF
  */
-export async function splitPdfByRange(file: File, rangeStr: string): Promise<SplitResult> {
+export async function extractPages(file: File, pageNumbers: number[], signal?: AbortSignal): Promise<Blob> {
+    const arrayBuffer = await file.arrayBuffer();
+    const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    signal?.throwIfAborted();
+    return savePages(sourcePdf, pageNumbers, signal);
+}
+
+/** Longest page list put in a file name; longer ones number the files instead */
+const MAX_PAGE_LABEL_LENGTH = 80;
+
+/**
+ * Names a file after the pages it holds, e.g. "pages_1,3,5" for odd pages.
+ */
+function pageLabel(pageNumbers: number[], index = 0, groupCount = 1): string {
+    if (pageNumbers.length === 1) return `page_${pageNumbers[0]}`;
+
+    const ranges = formatPageRanges(pageNumbers);
+    return ranges.length <= MAX_PAGE_LABEL_LENGTH
+        ? `pages_${ranges}`
+        : `part_${String(index + 1).padStart(String(groupCount).length, '0')}_of_${groupCount}`;
+}
+
+/**
+ * Loads a PDF, lets `planGroups` decide which pages go into which file, and
+ * writes one file per group.
+ */
+async function splitPdfIntoGroups(
+    file: File,
+    planGroups: (totalPages: number) => number[][],
+    nameGroup: (pageNumbers: number[], index: number, groupCount: number) => string,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
     const arrayBuffer = await file.arrayBuffer();
     const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
     const totalPages = sourcePdf.getPageCount();
 
     const baseName = file.name.replace(/\.pdf$/i, '');
-    const pageNumbers = parsePageRange(rangeStr, totalPages);
+    const groups = planGroups(totalPages);
+    const fileNames = new Set<string>();
+    const pages: SplitPage[] = [];
 
-    const blob = await extractPages(file, pageNumbers);
-    const pageLabel = pageNumbers.length === 1
-        ? `page_${pageNumbers[0]}`
-        : `pages_${pageNumbers[0]}-${pageNumbers[pageNumbers.length - 1]}`;
+    for (let i = 0; i < groups.length; i++) {
+        signal?.throwIfAborted();
+        const pageNumbers = groups[i];
+        const blob = await savePages(sourcePdf, pageNumbers, signal);
 
-    return {
-        pages: [{
+        pages.push({
             pageNumbers,
             blob,
-            fileName: `${baseName}_${pageLabel}.pdf`,
-        }],
+            fileName: uniqueFileName(`${baseName}_${nameGroup(pageNumbers, i, groups.length)}`, fileNames),
+        });
+
+        if (onProgress) {
+            onProgress(Math.round(((i + 1) / groups.length) * 100));
+        }
+    }
+
+    return {
+        pages,
         totalPages,
         originalName: file.name,
     };
 }
 
+/**
+ * Splits a PDF by extracting pages based on a range string. Each
+ * semicolon-separated group (see {@link parsePageGroups}) becomes its own file.
+ * 
+ * @param file - The source PDF file
+ * @param rangeStr - Page range string (e.g., "1-3, 5, 7-10" or "1-3; 4-end")
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to split result
+ */
+export async function splitPdfByRange(file: File, rangeStr: string, signal?: AbortSignal): Promise<SplitResult> {
+    return splitPdfIntoGroups(file, (totalPages) => parsePageGroups(rangeStr, totalPages), pageLabel, undefined, signal);
+}
+
+/**
+ * Writes one file per group of pages, for groups worked out elsewhere (see
+ * {@link groupBySeparators}).
+ * 
+ * @param file - The source PDF file
+ * @param groups - Page numbers (1-indexed) of each output file
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between files
+ * @returns Promise resolving to split result
+ * @throws Error if a group is empty or refers to a page the PDF does not have
+ */
+export async function splitPdfByGroups(
+    file: File,
+    groups: number[][],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
+    return splitPdfIntoGroups(
+        file,
+        (totalPages) => {
+            for (const group of groups) {
+                if (group.length === 0 || group.some((page) => !Number.isInteger(page) || page < 1 || page > totalPages)) {
+                    throw new Error(`Pages ${group.join(', ') || '(none)'} do not fit a PDF with ${totalPages} pages`);
+                }
+            }
+            return groups;
+        },
+        pageLabel,
+        onProgress,
+        signal
+    );
+}
+
+/**
+ * Splits a PDF into files of a fixed number of pages, e.g. every 2 pages for
+ * a batch of double-sided scans. The last file holds the remaining pages.
+ * 
+ * @param file - The source PDF file
+ * @param pagesPerFile - Pages in each output file
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between files
+ * @returns Promise resolving to split result
+ */
+export async function splitPdfEveryNPages(
+    file: File,
+    pagesPerFile: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
+    return splitPdfIntoGroups(file, (totalPages) => groupEveryNPages(totalPages, pagesPerFile), pageLabel, onProgress, signal);
+}
+
+/**
+ * Splits a PDF into a number of files of (nearly) equal page count.
+ * 
+ * @param file - The source PDF file
+ * @param parts - Number of output files
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between files
+ * @returns Promise resolving to split result
+ */
+export async function splitPdfIntoParts(
+    file: File,
+    parts: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
+    const digits = String(parts).length;
+    return splitPdfIntoGroups(
+        file,
+        (totalPages) => groupIntoParts(totalPages, parts),
+        (_, index, groupCount) => `part_${String(index + 1).padStart(digits, '0')}_of_${groupCount}`,
+        onProgress,
+        signal
+    );
+}
+
 /**
  * Splits a PDF into individual pages.
  * 
  * @param file - The source PDF file
  * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between pages
  * @returns Promise resolving to split result with all individual pages
  */
 export async function splitPdfAllPages(
     file: File,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
 ): Promise<SplitResult> {
     const arrayBuffer = await file.arrayBuffer();
     const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
@@ -206,7 +610,8 @@ export async function splitPdfAllPages(
     const pages: SplitPage[] = [];
 
     for (let i = 1; i <= totalPages; i++) {
-        const blob = await extractPages(file, [i]);
+        signal?.throwIfAborted();
+        const blob = await extractPages(file, [i], signal);
         pages.push({
             pageNumbers: [i],
             blob,
@@ -225,6 +630,162 @@ export async function splitPdfAllPages(
     };
 }
 
+/**
+ * Splits a PDF into files of consecutive pages that each stay under a size
+ * limit, e.g. for email attachments. Every candidate file is really saved
+ * and measured, so the limit holds for the files as written: each part
+ * grows in doubling steps until it is too large, then the last page that
+ * still fits is found by bisection. A page that is over the limit on its own
+ * is written as a single-page file and listed in `oversizedPages`.
+ * 
+ * @param file - The source PDF file
+ * @param maxBytes - Largest allowed size of each output file
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to split result
+ * @throws Error if maxBytes is not a positive number
+ */
+export async function splitPdfBySize(
+    file: File,
+    maxBytes: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
+    if (!(maxBytes > 0)) {
+        throw new Error('The size limit must be more than 0 bytes');
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    const sourcePdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true });
+    const totalPages = sourcePdf.getPageCount();
+    const baseName = file.name.replace(/\.pdf$/i, '');
+
+    const pageRange = (start: number, end: number) => Array.from({ length: end - start + 1 }, (_, i) => start + i);
+    const measure = (start: number, end: number) => {
+        signal?.throwIfAborted();
+        return savePages(sourcePdf, pageRange(start, end), signal);
+    };
+
+    const pages: SplitPage[] = [];
+    const oversizedPages: number[] = [];
+
+    let start = 1;
+    while (start <= totalPages) {
+        let blob = await measure(start, start);
+        let end = start;
+
+        if (blob.size > maxBytes) {
+            oversizedPages.push(start);
+        } else {
+            let tooLarge = totalPages + 1;
+            for (let step = 1; end < totalPages; step *= 2) {
+                const candidateEnd = Math.min(end + step, totalPages);
+                const candidate = await measure(start, candidateEnd);
+                if (candidate.size > maxBytes) {
+                    tooLarge = candidateEnd;
+                    break;
+                }
+                blob = candidate;
+                end = candidateEnd;
+            }
+
+            let low = end + 1;
+            let high = tooLarge - 1;
+            while (low <= high) {
+                const mid = Math.floor((low + high) / 2);
+                const candidate = await measure(start, mid);
+                if (candidate.size <= maxBytes) {
+                    blob = candidate;
+                    end = mid;
+                    low = mid + 1;
+                } else {
+                    high = mid - 1;
+                }
+            }
+        }
+
+        const pageNumbers = pageRange(start, end);
+        pages.push({ pageNumbers, blob, fileName: `${baseName}_${pageLabel(pageNumbers)}.pdf` });
+        if (onProgress) {
+            onProgress(Math.round((end / totalPages) * 100));
+        }
+        start = end + 1;
+    }
+
+    return {
+        pages,
+        totalPages,
+        originalName: file.name,
+        oversizedPages,
+    };
+}
+
+/**
+ * Reads the bookmarks (outline) of a PDF with MuPDF. Bookmarks that do not
+ * point to a page of the document, such as web links, are left out.
+ * 
+ * @param file - The PDF file to read
+ * @param signal - Optional signal to cancel the operation
+ * @returns Promise resolving to the bookmarks in document order, flattened
+ */
+export async function readOutline(file: File, signal?: AbortSignal): Promise<OutlineEntry[]> {
+    const buffer = await file.arrayBuffer();
+    signal?.throwIfAborted();
+
+    return withEngine('mupdf', (mupdf) => {
+        const doc = mupdf.Document.openDocument(new Uint8Array(buffer), 'application/pdf');
+        const entries: OutlineEntry[] = [];
+
+        const visit = (items: NonNullable<ReturnType<typeof doc.loadOutline>>, depth: number) => {
+            for (const item of items) {
+                if (item.page !== undefined) {
+                    entries.push({ title: item.title?.trim() || `Page ${item.page + 1}`, pageNumber: item.page + 1, depth });
+                }
+                if (item.down) visit(item.down, depth + 1);
+            }
+        };
+
+        try {
+            visit(doc.loadOutline() ?? [], 1);
+        } finally {
+            doc.destroy();
+        }
+        return entries;
+    });
+}
+
+/**
+ * Splits a PDF at its bookmarks, one file per bookmarked section, named
+ * after the bookmark (see {@link planOutlineSections}).
+ * 
+ * @param file - The source PDF file
+ * @param depth - Deepest bookmark level to split at (1 = top level only)
+ * @param onProgress - Optional progress callback (0-100)
+ * @param signal - Optional signal to cancel between files
+ * @returns Promise resolving to split result
+ * @throws Error if the PDF has no bookmarks down to that level
+ */
+export async function splitPdfByOutline(
+    file: File,
+    depth: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+): Promise<SplitResult> {
+    const outline = await readOutline(file, signal);
+    let sections: OutlineSection[] = [];
+
+    return splitPdfIntoGroups(
+        file,
+        (totalPages) => {
+            sections = planOutlineSections(outline, totalPages, depth);
+            return sections.map((section) => section.pageNumbers);
+        },
+        (_, index, groupCount) => `${String(index + 1).padStart(String(groupCount).length, '0')}_${sanitizeFileName(sections[index].title)}`,
+        onProgress,
+        signal
+    );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // DOWNLOAD UTILITIES
 // ─────────────────────────────────────────────────────────────────────────────
@@ -1,16 +1,33 @@
-import { compressExtreme, compressLossless as compressLosslessMupdf } from './pdf-compressor-mupdf';
 import {
+  compressBalanced,
+  compressExtreme,
+  compressFonts,
+  compressLossless as compressLosslessMupdf,
+  DEFAULT_BALANCED_OPTIONS,
+  DEFAULT_EXTREME_OPTIONS,
+  type BalancedCompressionOptions,
+  type ExtremeColorMode,
+} from './pdf-compressor-mupdf';
+import {
+  compressGhostscriptDownsampled,
+  compressGhostscriptPreset,
   compressLosslessGhostscript,
   compressLosslessPdfLib,
   compressLosslessQpdf,
+  type GhostscriptDownsampling,
+  type GhostscriptPreset,
 } from './pdf-compressor-lossless-engines';
+import { cleanPdf, type CleanItem, type CleanReport } from './pdf-clean';
 
-export type CompressionQuality = 'lossless' | 'extreme';
-export type LosslessEngine = 'mupdf' | 'pdf-lib' | 'ghostscript' | 'qpdf';
+export type CompressionQuality = 'lossless' | 'balanced' | 'extreme' | 'target' | 'profiles';
+export type LosslessEngine = 'mupdf' | 'pdf-lib' | 'ghostscript' | 'qpdf' | 'mupdf-fonts';
+/** Lossy Ghostscript runs offered next to the lossless engines in profiles mode */
+export type GhostscriptProfileEngine = `gs-${GhostscriptPreset}` | 'gs-custom';
+export type CompressionEngine = LosslessEngine | GhostscriptProfileEngine;
 export type EngineStatus = 'success' | 'failed';
 
 export interface LosslessEngineResult {
-  engine: LosslessEngine;
+  engine: CompressionEngine;
   label: string;
   status: EngineStatus;
   compressedSize: number | null;
@@ -20,35 +37,118 @@ export interface LosslessEngineResult {
   error: string | null;
 }
 
+export interface TargetSizeAttempt {
+  settings: BalancedCompressionOptions;
+  compressedSize: number;
+  fits: boolean;
+}
+
+export interface TargetSizeReport {
+  targetSize: number;
+  /** False when even the smallest setting is above the budget; the smallest output is returned then */
+  reached: boolean;
+  /** Balanced settings of the returned output, or null when it came straight from a lossless engine */
+  settings: BalancedCompressionOptions | null;
+  /** Balanced runs in the order they were tried */
+  attempts: TargetSizeAttempt[];
+}
+
+export interface EngineChainStep {
+  engine: CompressionEngine;
+  label: string;
+  /** Size after this engine ran on the previous step's output */
+  compressedSize: number;
+}
+
 export interface CompressionResult {
   originalSize: number;
   compressedSize: number;
   blob: Blob;
   fileName: string;
-  engine: LosslessEngine | 'extreme';
+  engine: CompressionEngine | 'balanced' | 'extreme' | 'chain';
   engineResults: LosslessEngineResult[];
+  /** Only set in target-size mode */
+  target?: TargetSizeReport;
+  /** Only set when engines were chained; the first step is the best single engine */
+  chain?: EngineChainStep[];
+  /** Only set when content was removed before compressing */
+  clean?: CleanReport;
 }
 
 export interface CompressionOptions {
   quality: CompressionQuality;
   compressionLevel?: number;
+  /** Extreme mode: resolution pages are rasterized at */
+  rasterDpi?: number;
+  /** Extreme mode: color, grayscale or 1-bit pages */
+  colorMode?: ExtremeColorMode;
+  /** Extreme mode: keep the original text as an invisible, searchable layer */
+  preserveText?: boolean;
+  /** Balanced mode: images shown above this resolution are downsampled to it */
+  targetDpi?: number;
+  /** Balanced mode: JPEG quality (1-100) for the downsampled images */
+  jpegQuality?: number;
+  /** Target mode: byte budget the output has to fit in */
+  targetSize?: number;
+  /** Profiles mode: -dPDFSETTINGS profiles to run (all four by default) */
+  ghostscriptPresets?: GhostscriptPreset[];
+  /** Profiles mode: also run Ghostscript with these downsampling thresholds */
+  customDownsampling?: GhostscriptDownsampling;
+  /** Lossless and profiles modes: run the other lossless engines on the best output until it stops shrinking */
+  chainEngines?: boolean;
+  /** Content to remove before any engine runs (every mode) */
+  clean?: CleanItem[];
   onProgress?: (progress: number, status?: string) => void;
   onEngineResult?: (result: LosslessEngineResult) => void;
+  signal?: AbortSignal;
 }
 
-interface LosslessEngineRunner {
-  engine: LosslessEngine;
+interface EngineRunner {
+  engine: CompressionEngine;
   label: string;
-  run: (file: File) => Promise<Blob>;
+  run: (file: File, signal?: AbortSignal) => Promise<Blob>;
 }
 
-const LOSSLESS_ENGINES: LosslessEngineRunner[] = [
+const LOSSLESS_ENGINES: EngineRunner[] = [
   { engine: 'mupdf', label: 'MuPDF', run: compressLosslessMupdf },
   { engine: 'pdf-lib', label: 'pdf-lib', run: compressLosslessPdfLib },
   { engine: 'ghostscript', label: 'Ghostscript', run: compressLosslessGhostscript },
   { engine: 'qpdf', label: 'QPDF', run: compressLosslessQpdf },
+  { engine: 'mupdf-fonts', label: 'MuPDF Fonts', run: compressFonts },
 ];
 
+export const GHOSTSCRIPT_PRESETS: { preset: GhostscriptPreset; label: string; description: string }[] = [
+  { preset: 'screen', label: 'Ghostscript /screen', description: '72 DPI images, smallest' },
+  { preset: 'ebook', label: 'Ghostscript /ebook', description: '150 DPI images' },
+  { preset: 'printer', label: 'Ghostscript /printer', description: '300 DPI images' },
+  { preset: 'prepress', label: 'Ghostscript /prepress', description: '300 DPI, keeps color profiles' },
+];
+
+export function getCustomDownsamplingLabel(downsampling: GhostscriptDownsampling): string {
+  const { colorDpi, grayDpi, monoDpi } = downsampling;
+  return `Ghostscript custom (${colorDpi}/${grayDpi}/${monoDpi} DPI)`;
+}
+
+function getProfileRunners(presets: GhostscriptPreset[], customDownsampling?: GhostscriptDownsampling): EngineRunner[] {
+  const runners: EngineRunner[] = GHOSTSCRIPT_PRESETS
+    .filter(({ preset }) => presets.includes(preset))
+    .map(({ preset, label }) => ({
+      engine: `gs-${preset}`,
+      label,
+      run: (file, signal) => compressGhostscriptPreset(file, preset, signal),
+    }));
+
+  if (customDownsampling) {
+    runners.push({
+      engine: 'gs-custom',
+      label: getCustomDownsamplingLabel(customDownsampling),
+      run: (file, signal) => compressGhostscriptDownsampled(file, customDownsampling, signal),
+    });
+  }
+
+  return runners;
+}
+
 function toErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message.trim()) {
     return error.message;
@@ -65,12 +165,12 @@ function baseNameFor(file: File): string {
   return file.name.replace(/\.pdf$/i, '');
 }
 
-function getEngineFileName(baseName: string, engine: LosslessEngine): string {
+function getEngineFileName(baseName: string, engine: CompressionEngine): string {
   const suffix = engine.replace(/[^a-z0-9-]/gi, '-');
   return `${baseName}_compressed_${suffix}.pdf`;
 }
 
-function sortLosslessResults(results: LosslessEngineResult[]): LosslessEngineResult[] {
+function sortEngineResults(results: LosslessEngineResult[]): LosslessEngineResult[] {
   const successful = results
     .filter((result) => result.status === 'success' && result.compressedSize !== null)
     .sort((a, b) => (a.compressedSize as number) - (b.compressedSize as number));
@@ -80,21 +180,24 @@ function sortLosslessResults(results: LosslessEngineResult[]): LosslessEngineRes
   return [...successful, ...failed];
 }
 
-async function runLosslessEngines(
+async function runEngines(
   file: File,
+  runners: EngineRunner[],
   originalSize: number,
   onProgress?: (progress: number, status?: string) => void,
-  onEngineResult?: (result: LosslessEngineResult) => void
+  onEngineResult?: (result: LosslessEngineResult) => void,
+  signal?: AbortSignal
 ): Promise<LosslessEngineResult[]> {
   const baseName = baseNameFor(file);
   const results: LosslessEngineResult[] = [];
-  const totalEngines = LOSSLESS_ENGINES.length;
+  const totalEngines = runners.length;
 
-  onProgress?.(5, 'Preparing lossless engines...');
+  onProgress?.(5, 'Preparing engines...');
 
   // Run sequentially to avoid large parallel WASM memory spikes on low-end devices.
   for (let index = 0; index < totalEngines; index++) {
-    const runner = LOSSLESS_ENGINES[index];
+    signal?.throwIfAborted();
+    const runner = runners[index];
     const startProgress = 10 + Math.floor((index / totalEngines) * 80);
     const doneProgress = 10 + Math.floor(((index + 1) / totalEngines) * 80);
 
@@ -102,7 +205,7 @@ async function runLosslessEngines(
 
     let engineResult: LosslessEngineResult;
     try {
-      const blob = await runner.run(file);
+      const blob = await runner.run(file, signal);
       const compressedSize = blob.size;
 
       engineResult = {
@@ -116,6 +219,9 @@ async function runLosslessEngines(
         error: null,
       };
     } catch (error) {
+      // A cancel stops the whole run rather than being recorded as an engine failure.
+      if (signal?.aborted) throw error;
+
       engineResult = {
         engine: runner.engine,
         label: runner.label,
@@ -134,17 +240,230 @@ async function runLosslessEngines(
   }
 
   onProgress?.(95, 'Ranking results...');
-  return sortLosslessResults(results);
+  return sortEngineResults(results);
 }
 
-export async function compressPDF(file: File, options: CompressionOptions): Promise<CompressionResult> {
-  const { quality, compressionLevel = 70, onProgress } = options;
-  const originalSize = file.size;
+/**
+ * Feeds the best output into the lossless engines that have not run on it yet,
+ * keeps the smallest of their outputs and repeats until no engine shrinks it
+ * further. Each engine appears in the chain at most once.
+ */
+async function chainEngines(
+  file: File,
+  best: LosslessEngineResult & { blob: Blob; compressedSize: number },
+  originalSize: number,
+  onProgress?: (progress: number, status?: string) => void,
+  signal?: AbortSignal
+): Promise<{ blob: Blob; chain: EngineChainStep[] }> {
+  const chain: EngineChainStep[] = [{ engine: best.engine, label: best.label, compressedSize: best.compressedSize }];
+  let current = best.blob;
+  let remaining = LOSSLESS_ENGINES.filter((runner) => runner.engine !== best.engine);
+
+  while (remaining.length > 0) {
+    signal?.throwIfAborted();
+    const step = chain.length;
+    const source = new File([current], file.name, { type: 'application/pdf' });
+    const results = await runEngines(
+      source,
+      remaining,
+      originalSize,
+      (progress, status) => onProgress?.(Math.min(95, 60 + step * 8 + Math.round(progress / 20)), status && `Chain step ${step + 1}: ${status}`),
+      undefined,
+      signal
+    );
+    const next = results.find((result) => result.status === 'success');
+    if (!next?.blob || next.compressedSize === null || next.compressedSize >= current.size) break;
+
+    chain.push({ engine: next.engine, label: next.label, compressedSize: next.compressedSize });
+    current = next.blob;
+    remaining = remaining.filter((runner) => runner.engine !== next.engine);
+  }
+
+  return { blob: current, chain };
+}
+
+/**
+ * Balanced settings tried in target-size mode, from highest to lowest
+ * quality. Output size shrinks (or stays the same) down the list, which is
+ * what lets the search bisect it.
+ */
+export const TARGET_SIZE_LADDER: BalancedCompressionOptions[] = [
+  { targetDpi: 300, jpegQuality: 85 },
+  { targetDpi: 200, jpegQuality: 80 },
+  { targetDpi: 150, jpegQuality: 75 },
+  { targetDpi: 150, jpegQuality: 60 },
+  { targetDpi: 120, jpegQuality: 55 },
+  { targetDpi: 96, jpegQuality: 50 },
+  { targetDpi: 72, jpegQuality: 40 },
+  { targetDpi: 60, jpegQuality: 30 },
+  { targetDpi: 50, jpegQuality: 20 },
+];
+
+function formatBalancedSettings(settings: BalancedCompressionOptions): string {
+  return `${settings.targetDpi} DPI, JPEG ${settings.jpegQuality}`;
+}
+
+/**
+ * Returns the highest-quality output that fits in `targetSize` bytes.
+ * Lossless engines run first; when none fits, images in the best lossless
+ * output are downsampled with ever lower settings from {@link TARGET_SIZE_LADDER}.
+ */
+async function compressToTarget(
+  file: File,
+  originalSize: number,
+  targetSize: number,
+  onProgress?: (progress: number, status?: string) => void,
+  onEngineResult?: (result: LosslessEngineResult) => void,
+  signal?: AbortSignal
+): Promise<CompressionResult> {
+  const fileName = `${baseNameFor(file)}_compressed.pdf`;
+
+  // Lossless engines report 5-95; squeeze them into the first half.
+  const engineResults = await runEngines(
+    file,
+    LOSSLESS_ENGINES,
+    originalSize,
+    (progress, status) => onProgress?.(Math.round(progress / 2), status),
+    onEngineResult,
+    signal
+  );
+  const best = engineResults.find((result) => result.status === 'success');
+
+  if (best?.blob && best.compressedSize !== null && best.compressedSize <= targetSize) {
+    onProgress?.(100, 'Compression complete');
+    return {
+      originalSize,
+      compressedSize: best.compressedSize,
+      blob: best.blob,
+      fileName,
+      engine: best.engine,
+      engineResults,
+      target: { targetSize, reached: true, settings: null, attempts: [] },
+    };
+  }
+
+  const source = best?.blob ? new File([best.blob], file.name, { type: 'application/pdf' }) : file;
+  const attempts: TargetSizeAttempt[] = [];
+  const outputs = new Map<number, Blob>();
+
+  const tryStep = async (index: number): Promise<boolean> => {
+    signal?.throwIfAborted();
+    const settings = TARGET_SIZE_LADDER[index];
+    onProgress?.(50 + Math.min(45, attempts.length * 10), `Trying ${formatBalancedSettings(settings)}...`);
+
+    const blob = await compressBalanced(source, settings, signal);
+    const fits = blob.size <= targetSize;
+    attempts.push({ settings, compressedSize: blob.size, fits });
+    outputs.set(index, blob);
+    return fits;
+  };
+
+  // The lowest setting decides whether the budget can be reached at all.
+  const lowest = TARGET_SIZE_LADDER.length - 1;
+  let chosen = lowest;
+
+  if (await tryStep(lowest)) {
+    // Bisect for the first (highest-quality) setting that still fits.
+    let low = 0;
+    let high = lowest;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (await tryStep(middle)) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    chosen = high;
+  }
+
+  const blob = outputs.get(chosen) as Blob;
+  const reached = blob.size <= targetSize;
+  onProgress?.(100, reached ? 'Compression complete' : 'Target size not reachable');
+
+  // Documents without large images can come out of MuPDF bigger than the best lossless engine.
+  if (!reached && best?.blob && best.compressedSize !== null && best.compressedSize <= blob.size) {
+    return {
+      originalSize,
+      compressedSize: best.compressedSize,
+      blob: best.blob,
+      fileName,
+      engine: best.engine,
+      engineResults,
+      target: { targetSize, reached, settings: null, attempts },
+    };
+  }
+
+  return {
+    originalSize,
+    compressedSize: blob.size,
+    blob,
+    fileName,
+    engine: 'balanced',
+    engineResults,
+    target: { targetSize, reached, settings: TARGET_SIZE_LADDER[chosen], attempts },
+  };
+}
+
+/**
+ * Compresses `file`, which may already be a cleaned copy; sizes are reported
+ * against `originalSize`, the size of the file the user picked.
+ */
+async function compressSource(file: File, originalSize: number, options: CompressionOptions): Promise<CompressionResult> {
+  const { quality, compressionLevel = 70, onProgress, signal } = options;
   const baseName = baseNameFor(file);
 
+  if (quality === 'target') {
+    if (!options.targetSize || options.targetSize <= 0) {
+      throw new Error('Target size must be greater than zero');
+    }
+    return compressToTarget(file, originalSize, options.targetSize, onProgress, options.onEngineResult, signal);
+  }
+
+  if (quality === 'balanced') {
+    const {
+      targetDpi = DEFAULT_BALANCED_OPTIONS.targetDpi,
+      jpegQuality = DEFAULT_BALANCED_OPTIONS.jpegQuality,
+    } = options;
+
+    onProgress?.(10, `Downsampling images above ${targetDpi} DPI...`);
+    const blob = await compressBalanced(file, { targetDpi, jpegQuality }, signal);
+    onProgress?.(100, 'Compression complete');
+
+    return {
+      originalSize,
+      compressedSize: blob.size,
+      blob,
+      fileName: `${baseName}_compressed.pdf`,
+      engine: 'balanced',
+      engineResults: [
+        {
+          engine: 'mupdf',
+          label: 'MuPDF Balanced',
+          status: 'success',
+          compressedSize: blob.size,
+          compressionPercent: getCompressionPercent(originalSize, blob.size),
+          blob,
+          fileName: `${baseName}_compressed.pdf`,
+          error: null,
+        },
+      ],
+    };
+  }
+
   if (quality === 'extreme') {
-    onProgress?.(10, 'Running extreme compression...');
-    const blob = await compressExtreme(file, compressionLevel);
+    const {
+      rasterDpi = DEFAULT_EXTREME_OPTIONS.dpi,
+      colorMode = DEFAULT_EXTREME_OPTIONS.colorMode,
+      preserveText = DEFAULT_EXTREME_OPTIONS.preserveText,
+    } = options;
+
+    onProgress?.(10, `Rasterizing pages at ${rasterDpi} DPI...`);
+    const blob = await compressExtreme(
+      file,
+      { dpi: rasterDpi, colorMode, jpegQuality: 100 - compressionLevel, preserveText },
+      signal
+    );
     onProgress?.(100, 'Compression complete');
 
     return {
@@ -169,7 +488,24 @@ export async function compressPDF(file: File, options: CompressionOptions): Prom
   }
 
   const { onEngineResult } = options;
-  const engineResults = await runLosslessEngines(file, originalSize, onProgress, onEngineResult);
+  const runners = quality === 'profiles'
+    ? [
+      ...LOSSLESS_ENGINES,
+      ...getProfileRunners(
+        options.ghostscriptPresets ?? GHOSTSCRIPT_PRESETS.map(({ preset }) => preset),
+        options.customDownsampling
+      ),
+    ]
+    : LOSSLESS_ENGINES;
+  // When chaining, the single-engine pass reports 5-95 squeezed into 3-57.
+  const engineResults = await runEngines(
+    file,
+    runners,
+    originalSize,
+    options.chainEngines ? (progress, status) => onProgress?.(Math.round(progress * 0.6), status) : onProgress,
+    onEngineResult,
+    signal
+  );
   const best = engineResults.find((result) => result.status === 'success');
 
   if (!best || !best.blob || best.compressedSize === null) {
@@ -181,6 +517,27 @@ export async function compressPDF(file: File, options: CompressionOptions): Prom
     throw new Error(failureSummary || 'All compression engines failed');
   }
 
+  if (options.chainEngines) {
+    const { blob, chain } = await chainEngines(
+      file,
+      { ...best, blob: best.blob, compressedSize: best.compressedSize },
+      originalSize,
+      onProgress,
+      signal
+    );
+    onProgress?.(100, 'Compression complete');
+
+    return {
+      originalSize,
+      compressedSize: blob.size,
+      blob,
+      fileName: `${baseName}_compressed.pdf`,
+      engine: chain.length > 1 ? 'chain' : best.engine,
+      engineResults,
+      chain,
+    };
+  }
+
   onProgress?.(100, 'Compression complete');
 
   return {
@@ -193,7 +550,30 @@ export async function compressPDF(file: File, options: CompressionOptions): Prom
   };
 }
 
+export async function compressPDF(file: File, options: CompressionOptions): Promise<CompressionResult> {
+  if (!options.clean?.length) {
+    return compressSource(file, file.size, options);
+  }
+
+  options.onProgress?.(2, 'Removing unneeded content...');
+  const { blob, report } = await cleanPdf(file, options.clean, options.signal);
+  const cleaned = new File([blob], file.name, { type: 'application/pdf' });
+  const result = await compressSource(cleaned, file.size, options);
+  return { ...result, clean: report };
+}
+
 export { downloadBlob, formatBytes } from './shared';
+export {
+  DEFAULT_BALANCED_OPTIONS,
+  DEFAULT_EXTREME_OPTIONS,
+  type BalancedCompressionOptions,
+  type ExtremeColorMode,
+} from './pdf-compressor-mupdf';
+export {
+  DEFAULT_GHOSTSCRIPT_DOWNSAMPLING,
+  type GhostscriptDownsampling,
+  type GhostscriptPreset,
+} from './pdf-compressor-lossless-engines';
 
 export function getCompressionPercent(original: number, compressed: number): number {
   if (original === 0) return 0;
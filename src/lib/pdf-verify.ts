@@ -0,0 +1,131 @@
+/**
+ * Compression Verification
+ *
+ * Renders every page of an original and a compressed PDF with pdf.js and
+ * compares them pixel by pixel, so a page an engine broke (missing text,
+ * blank images, wrong colors) shows up before the file is downloaded. The
+ * previews shown next to the scores are small JPEGs of the same renders.
+ *
+ * @module pdf-verify
+ */
+
+import { pixelsOf, renderPage, withDocument } from './pdf-render';
+import { comparePixels, DEFAULT_DIFF_TOLERANCE } from './pixel-diff';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PageDiff {
+    /** 1-based page number */
+    pageNumber: number;
+    /** Share of pixels (0-1) that differ noticeably; 1 when the page is missing or changed size */
+    score: number;
+    /** True when `score` is above the report's threshold */
+    flagged: boolean;
+    /** JPEG data URLs of the rendered pages, null for a page missing on that side */
+    originalPreview: string | null;
+    compressedPreview: string | null;
+}
+
+export interface VisualDiffReport {
+    threshold: number;
+    pages: PageDiff[];
+    /** Page numbers with `flagged` set */
+    flaggedPages: number[];
+}
+
+export interface VisualDiffOptions {
+    /** Pages with a larger score are flagged (default {@link DEFAULT_DIFF_THRESHOLD}) */
+    threshold?: number;
+    /** Per-channel difference (0-255) below which a pixel counts as unchanged */
+    tolerance?: number;
+    /** Pages are rendered at this resolution for the comparison */
+    dpi?: number;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 2% of a page changing is more than recompressed images or anti-aliasing account for */
+export const DEFAULT_DIFF_THRESHOLD = 0.02;
+
+const DEFAULT_RENDER_DPI = 50;
+const PREVIEW_QUALITY = 0.7;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PREVIEWS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function previewOf(canvas: HTMLCanvasElement): string {
+    return canvas.toDataURL('image/jpeg', PREVIEW_QUALITY);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// VERIFICATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Renders both PDFs page by page and scores every page with {@link comparePixels}.
+ *
+ * Pages that exist on only one side, or whose shape changed, get a score of 1.
+ *
+ * @param original - The PDF before compression
+ * @param compressed - The compressed PDF
+ * @param options - Threshold, tolerance, render resolution, progress and cancellation
+ * @returns Promise resolving to the per-page scores and previews
+ */
+export async function verifyCompression(
+    original: Blob,
+    compressed: Blob,
+    options: VisualDiffOptions = {},
+): Promise<VisualDiffReport> {
+    const {
+        threshold = DEFAULT_DIFF_THRESHOLD,
+        tolerance = DEFAULT_DIFF_TOLERANCE,
+        dpi = DEFAULT_RENDER_DPI,
+        onProgress,
+        signal,
+    } = options;
+
+    return withDocument(original, signal, (originalPdf) => withDocument(compressed, signal, async (compressedPdf) => {
+        const pageCount = Math.max(originalPdf.numPages, compressedPdf.numPages);
+        const pages: PageDiff[] = [];
+
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            signal?.throwIfAborted();
+
+            const originalCanvas = pageNumber <= originalPdf.numPages
+                ? await renderPage(originalPdf, pageNumber, dpi)
+                : null;
+            const compressedCanvas = pageNumber <= compressedPdf.numPages
+                ? await renderPage(compressedPdf, pageNumber, dpi, originalCanvas?.width)
+                : null;
+
+            // A one-pixel height difference is rounding; anything more means the page changed shape.
+            let score = 1;
+            if (originalCanvas && compressedCanvas && Math.abs(originalCanvas.height - compressedCanvas.height) <= 1) {
+                const height = Math.min(originalCanvas.height, compressedCanvas.height);
+                score = comparePixels(pixelsOf(originalCanvas, height), pixelsOf(compressedCanvas, height), tolerance);
+            }
+
+            pages.push({
+                pageNumber,
+                score,
+                flagged: score > threshold,
+                originalPreview: originalCanvas && previewOf(originalCanvas),
+                compressedPreview: compressedCanvas && previewOf(compressedCanvas),
+            });
+            onProgress?.(Math.round((pageNumber / pageCount) * 100));
+        }
+
+        return {
+            threshold,
+            pages,
+            flaggedPages: pages.filter((page) => page.flagged).map((page) => page.pageNumber),
+        };
+    }));
+}
@@ -0,0 +1,44 @@
+/**
+ * Pixel Difference
+ *
+ * Scores how much two renders of the same page differ. Kept apart from the
+ * pdf.js rendering in pdf-render so it runs anywhere, including in Node.
+ *
+ * @module pixel-diff
+ */
+
+/** Absorbs JPEG noise and font hinting differences between engines */
+export const DEFAULT_DIFF_TOLERANCE = 48;
+
+/**
+ * Scores how different two RGBA images of the same size are.
+ *
+ * @param original - RGBA pixels of the original page
+ * @param compressed - RGBA pixels of the compressed page, same length
+ * @param tolerance - Largest per-channel difference still counted as equal
+ * @returns Share of pixels (0-1) where any color channel differs by more than `tolerance`
+ */
+export function comparePixels(
+    original: Uint8ClampedArray,
+    compressed: Uint8ClampedArray,
+    tolerance = DEFAULT_DIFF_TOLERANCE,
+): number {
+    if (original.length !== compressed.length) {
+        throw new Error('Images must have the same size to be compared');
+    }
+
+    const pixelCount = original.length / 4;
+    if (pixelCount === 0) return 0;
+
+    let changed = 0;
+    for (let i = 0; i < original.length; i += 4) {
+        if (
+            Math.abs(original[i] - compressed[i]) > tolerance ||
+            Math.abs(original[i + 1] - compressed[i + 1]) > tolerance ||
+            Math.abs(original[i + 2] - compressed[i + 2]) > tolerance
+        ) {
+            changed++;
+        }
+    }
+    return changed / pixelCount;
+}
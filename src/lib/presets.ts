@@ -0,0 +1,341 @@
+/**
+ * Preset Storage
+ *
+ * Saves named tool settings and multi-step pipeline recipes in IndexedDB so
+ * they survive reloads, and converts them to/from a portable JSON file.
+ * Nothing leaves the device unless the user exports it.
+ *
+ * @module presets
+ */
+
+import { CLEAN_ITEMS } from './pdf-clean';
+import {
+    DEFAULT_STEP_OPTIONS,
+    PIPELINE_STEP_LABELS,
+    type PipelineStep,
+    type PipelineStepKind,
+    type PipelineStepOptionsMap,
+} from './pdf-pipeline';
+import { DEFAULT_GHOSTSCRIPT_DOWNSAMPLING, GHOSTSCRIPT_PRESETS, type ExtremeColorMode } from './pdf-utils';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Tools that have their own settings page and can store presets */
+export type PresetTool = 'add-page-numbers' | 'add-watermark' | 'compress';
+
+export type ToolPreset = {
+    [K in PresetTool]: {
+        id: string;
+        name: string;
+        type: 'tool';
+        tool: K;
+        options: PipelineStepOptionsMap[K];
+        createdAt: number;
+    };
+}[PresetTool];
+
+export interface RecipePreset {
+    id: string;
+    name: string;
+    type: 'recipe';
+    steps: PipelineStep[];
+    createdAt: number;
+}
+
+export type Preset = ToolPreset | RecipePreset;
+
+interface PresetExportFile {
+    app: 'mydevicemypdf';
+    version: 1;
+    presets: Preset[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PRESET_TOOLS: Record<PresetTool, { label: string; route: string }> = {
+    'add-page-numbers': { label: PIPELINE_STEP_LABELS['add-page-numbers'], route: '/add-pdf-page-number' },
+    'add-watermark': { label: PIPELINE_STEP_LABELS['add-watermark'], route: '/pdf-add-watermark' },
+    'compress': { label: 'Compress PDF', route: '/compress-pdf' },
+};
+
+export const RECIPE_ROUTE = '/pdf-pipeline';
+
+const DB_NAME = 'mydevicemypdf';
+const DB_VERSION = 1;
+const STORE_NAME = 'presets';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// INDEXEDDB
+// ─────────────────────────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new Error('Failed to open preset storage'));
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+    const db = await openDatabase();
+    return new Promise<T | undefined>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error ?? new Error('Preset storage failed'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Preset storage was aborted'));
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CRUD
+// ─────────────────────────────────────────────────────────────────────────────
+
+function createPresetId(): string {
+    return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Lists every saved preset, newest first.
+ */
+export async function listPresets(): Promise<Preset[]> {
+    const presets = (await withStore<Preset[]>('readonly', (store) => store.getAll())) ?? [];
+    return presets.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Lists saved presets for a single tool, newest first.
+ */
+export async function listToolPresets<K extends PresetTool>(tool: K): Promise<Extract<ToolPreset, { tool: K }>[]> {
+    const presets = await listPresets();
+    return presets.filter(
+        (preset): preset is Extract<ToolPreset, { tool: K }> => preset.type === 'tool' && preset.tool === tool
+    );
+}
+
+/**
+ * Lists saved multi-step recipes, newest first.
+ */
+export async function listRecipes(): Promise<RecipePreset[]> {
+    const presets = await listPresets();
+    return presets.filter((preset): preset is RecipePreset => preset.type === 'recipe');
+}
+
+/**
+ * Loads a single preset by id.
+ *
+ * @returns The preset, or null if it does not exist
+ */
+export async function getPreset(id: string): Promise<Preset | null> {
+    return (await withStore<Preset | undefined>('readonly', (store) => store.get(id))) ?? null;
+}
+
+/**
+ * Saves settings for a tool under a name.
+ */
+export async function saveToolPreset<K extends PresetTool>(
+    name: string,
+    tool: K,
+    options: PipelineStepOptionsMap[K]
+): Promise<ToolPreset> {
+    const preset = { id: createPresetId(), name: name.trim(), type: 'tool', tool, options, createdAt: Date.now() } as ToolPreset;
+    await withStore('readwrite', (store) => store.put(preset));
+    return preset;
+}
+
+/**
+ * Saves a list of pipeline steps as a named recipe.
+ */
+export async function saveRecipe(name: string, steps: PipelineStep[]): Promise<RecipePreset> {
+    const preset: RecipePreset = { id: createPresetId(), name: name.trim(), type: 'recipe', steps, createdAt: Date.now() };
+    await withStore('readwrite', (store) => store.put(preset));
+    return preset;
+}
+
+/**
+ * Deletes a preset by id.
+ */
+export async function deletePreset(id: string): Promise<void> {
+    await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Returns the page a preset opens on.
+ */
+export function getPresetRoute(preset: Preset): string {
+    const route = preset.type === 'recipe' ? RECIPE_ROUTE : PRESET_TOOLS[preset.tool].route;
+    return `${route}?preset=${encodeURIComponent(preset.id)}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IMPORT / EXPORT
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStepKind(value: unknown): value is PipelineStepKind {
+    return typeof value === 'string' && value in DEFAULT_STEP_OPTIONS;
+}
+
+function isNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): boolean {
+    return typeof value === 'boolean';
+}
+
+function isOneOf(known: readonly string[]): (value: unknown) => boolean {
+    return (value) => typeof value === 'string' && known.includes(value);
+}
+
+function isListOf(known: readonly string[]): (value: unknown) => boolean {
+    return (value) => Array.isArray(value) && value.every(isOneOf(known));
+}
+
+function hasNumbers(keys: readonly string[]): (value: unknown) => boolean {
+    return (value) => isRecord(value) && keys.every((key) => isNumber(value[key]));
+}
+
+/**
+ * Whether a value has the shape of a default: the same type, and for objects
+ * such as a watermark color, the same fields with matching values.
+ */
+function matchesDefault(value: unknown, fallback: unknown): boolean {
+    if (isRecord(fallback)) {
+        return isRecord(value) && Object.keys(fallback).every((key) => matchesDefault(value[key], fallback[key]));
+    }
+    return typeof value === typeof fallback;
+}
+
+const COLOR_MODES: ExtremeColorMode[] = ['color', 'grayscale', 'bitonal'];
+
+/** Compress options that are optional, so they have no default to check them against */
+const OPTIONAL_COMPRESS_OPTIONS: Record<string, (value: unknown) => boolean> = {
+    compressionLevel: isNumber,
+    rasterDpi: isNumber,
+    colorMode: isOneOf(COLOR_MODES),
+    preserveText: isBoolean,
+    targetDpi: isNumber,
+    jpegQuality: isNumber,
+    targetSize: isNumber,
+    ghostscriptPresets: isListOf(GHOSTSCRIPT_PRESETS.map(({ preset }) => preset)),
+    customDownsampling: hasNumbers(Object.keys(DEFAULT_GHOSTSCRIPT_DOWNSAMPLING)),
+    chainEngines: isBoolean,
+    clean: isListOf(CLEAN_ITEMS.map(({ item }) => item)),
+};
+
+/**
+ * Fills missing option fields from the defaults so presets written by older
+ * versions keep working, and drops fields the step does not know about.
+ */
+function normalizeOptions<K extends PipelineStepKind>(kind: K, options: unknown): PipelineStepOptionsMap[K] {
+    const defaults = DEFAULT_STEP_OPTIONS[kind] as unknown as Record<string, unknown>;
+    const source = isRecord(options) ? options : {};
+    const normalized: Record<string, unknown> = {};
+
+    for (const key of Object.keys(defaults)) {
+        normalized[key] = matchesDefault(source[key], defaults[key]) ? source[key] : defaults[key];
+    }
+    if (kind === 'compress') {
+        for (const [key, isValid] of Object.entries(OPTIONAL_COMPRESS_OPTIONS)) {
+            if (isValid(source[key])) normalized[key] = source[key];
+        }
+    }
+
+    return structuredClone(normalized) as PipelineStepOptionsMap[K];
+}
+
+function parsePreset(value: unknown, index: number): Preset {
+    if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) {
+        throw new Error(`Preset ${index + 1} is missing a name`);
+    }
+
+    const name = value.name.trim();
+    const createdAt = typeof value.createdAt === 'number' ? value.createdAt : Date.now();
+
+    if (value.type === 'tool') {
+        if (typeof value.tool !== 'string' || !(value.tool in PRESET_TOOLS)) {
+            throw new Error(`Preset "${name}" targets an unknown tool`);
+        }
+        const tool = value.tool as PresetTool;
+        return { id: createPresetId(), name, type: 'tool', tool, options: normalizeOptions(tool, value.options), createdAt } as ToolPreset;
+    }
+
+    if (value.type === 'recipe') {
+        if (!Array.isArray(value.steps)) {
+            throw new Error(`Recipe "${name}" has no steps`);
+        }
+        const steps = value.steps.map((step, stepIndex) => {
+            if (!isRecord(step) || !isStepKind(step.kind)) {
+                throw new Error(`Recipe "${name}" step ${stepIndex + 1} is not a known tool`);
+            }
+            return {
+                id: `step-${Date.now()}-${index}-${stepIndex}`,
+                kind: step.kind,
+                options: normalizeOptions(step.kind, step.options),
+            } as PipelineStep;
+        });
+        return { id: createPresetId(), name, type: 'recipe', steps, createdAt };
+    }
+
+    throw new Error(`Preset "${name}" has an unknown type`);
+}
+
+/**
+ * Serializes presets into a downloadable JSON file.
+ */
+export function exportPresets(presets: Preset[]): Blob {
+    const file: PresetExportFile = { app: 'mydevicemypdf', version: 1, presets };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Reads presets from an exported JSON file and stores them.
+ * Imported presets get fresh ids, so importing never overwrites existing ones.
+ *
+ * @param file - A JSON file created by {@link exportPresets}
+ * @returns The presets that were saved
+ * @throws Error if the file is not a valid preset export
+ */
+export async function importPresets(file: File): Promise<Preset[]> {
+    let data: unknown;
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error('This file is not valid JSON');
+    }
+
+    if (!isRecord(data) || data.app !== 'mydevicemypdf' || !Array.isArray(data.presets)) {
+        throw new Error('This file is not a preset export');
+    }
+    if (data.version !== 1) {
+        throw new Error(`Unsupported preset file version: ${String(data.version)}`);
+    }
+
+    const presets = data.presets.map(parsePreset);
+    await withStore('readwrite', (store) => {
+        presets.forEach((preset) => store.put(preset));
+    });
+    return presets;
+}
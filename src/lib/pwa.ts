@@ -0,0 +1,177 @@
+/**
+ * PWA Support
+ *
+ * Registers the service worker and exposes what the UI needs to know about
+ * it: whether the app can be installed, whether a new version is waiting,
+ * and whether the device is online. State is module-level so any component
+ * can read it through useSyncExternalStore.
+ *
+ * @module pwa
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Chromium's install prompt event (not yet in the DOM typings) */
+interface BeforeInstallPromptEvent extends Event {
+    prompt(): Promise<void>;
+    userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+export interface PwaState {
+    /** The browser offered an install prompt that has not been used yet */
+    canInstall: boolean;
+    /** A new version has been downloaded and is waiting to take over */
+    updateAvailable: boolean;
+    /** Every file needed offline has been cached by an active service worker */
+    offlineReady: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STATE
+// ─────────────────────────────────────────────────────────────────────────────
+
+let state: PwaState = { canInstall: false, updateAvailable: false, offlineReady: false };
+const listeners = new Set<() => void>();
+
+let installPrompt: BeforeInstallPromptEvent | null = null;
+let waitingWorker: ServiceWorker | null = null;
+
+function setState(patch: Partial<PwaState>): void {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Returns the current PWA state (a new object after every change).
+ */
+export function getPwaState(): PwaState {
+    return state;
+}
+
+/**
+ * Subscribes to PWA state changes.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribePwaState(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Returns whether the browser currently reports a network connection.
+ */
+export function getOnlineStatus(): boolean {
+    return navigator.onLine;
+}
+
+/**
+ * Subscribes to online/offline changes.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeOnlineStatus(listener: () => void): () => void {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+    };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REGISTRATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+function trackWaiting(worker: ServiceWorker): void {
+    const markWaiting = () => {
+        if (worker.state !== 'installed') return;
+        // The first install has nothing to replace; it simply makes the app work offline.
+        if (navigator.serviceWorker.controller) {
+            waitingWorker = worker;
+            setState({ updateAvailable: true });
+        } else {
+            setState({ offlineReady: true });
+        }
+    };
+
+    markWaiting();
+    worker.addEventListener('statechange', markWaiting);
+}
+
+/**
+ * Registers the service worker (production builds only) and starts tracking
+ * install prompts and updates. Call once at startup.
+ */
+export function registerServiceWorker(): void {
+    window.addEventListener('beforeinstallprompt', (event) => {
+        event.preventDefault();
+        installPrompt = event as BeforeInstallPromptEvent;
+        setState({ canInstall: true });
+    });
+
+    window.addEventListener('appinstalled', () => {
+        installPrompt = null;
+        setState({ canInstall: false });
+    });
+
+    // The worker is only emitted by `vite build`; the dev server has no /sw.js.
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        // Only reload when the user accepted an update, not on the first install.
+        if (reloading || !waitingWorker) return;
+        reloading = true;
+        window.location.reload();
+    });
+
+    window.addEventListener('load', async () => {
+        try {
+            const registration = await navigator.serviceWorker.register('/sw.js');
+            if (registration.active) setState({ offlineReady: true });
+            if (registration.waiting) trackWaiting(registration.waiting);
+
+            registration.addEventListener('updatefound', () => {
+                if (registration.installing) trackWaiting(registration.installing);
+            });
+        } catch (error) {
+            console.error('Service worker registration failed:', error);
+        }
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ACTIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Shows the browser's install dialog. Never rejects, so it can be used as a
+ * click handler directly.
+ *
+ * @returns Promise resolving to whether the user installed the app
+ */
+export async function promptInstall(): Promise<boolean> {
+    if (!installPrompt) return false;
+    const prompt = installPrompt;
+    installPrompt = null;
+    setState({ canInstall: false });
+
+    try {
+        await prompt.prompt();
+        const { outcome } = await prompt.userChoice;
+        return outcome === 'accepted';
+    } catch (error) {
+        console.error('Install prompt failed:', error);
+        return false;
+    }
+}
+
+/**
+ * Activates the waiting version; the page reloads once it has taken over.
+ */
+export function applyUpdate(): void {
+    waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+}
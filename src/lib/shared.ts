@@ -41,3 +41,16 @@ export function formatBytes(bytes: number): string {
     const i = Math.floor(Math.log(bytes) / Math.log(k));
     return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
+
+/**
+ * Checks whether an error was raised by an aborted operation.
+ *
+ * Lib functions throw the signal's reason (a DOMException named "AbortError")
+ * when cancelled, so callers can tell a user cancel apart from a failure.
+ *
+ * @param error - The caught error
+ * @returns True if the error represents a cancellation
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+}
@@ -0,0 +1,297 @@
+/**
+ * WASM Engine Registry
+ *
+ * Single place that loads, caches and tears down the mupdf, qpdf and
+ * ghostscript WebAssembly engines. Modules are loaded lazily on first use,
+ * report download progress, and are dropped after an out-of-memory abort or
+ * a crash so the next call starts from a fresh instance.
+ *
+ * @module wasm-engines
+ */
+
+import type { WasmFactoryOptions, WasmModule as GhostscriptModule } from '@jspawn/ghostscript-wasm';
+import type { WasmModule as QpdfModule } from '@jspawn/qpdf-wasm';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MupdfModule = typeof import('mupdf');
+export type { GhostscriptModule, QpdfModule };
+
+export interface EngineModules {
+    mupdf: MupdfModule;
+    qpdf: QpdfModule;
+    ghostscript: GhostscriptModule;
+}
+
+export type EngineName = keyof EngineModules;
+export type EngineLoadStatus = 'idle' | 'loading' | 'ready' | 'failed' | 'crashed';
+
+export interface EngineState {
+    engine: EngineName;
+    status: EngineLoadStatus;
+    /** WASM download progress (0-100) */
+    progress: number;
+    error: string | null;
+}
+
+export type EngineStateListener = (state: EngineState) => void;
+
+/** Returns the raw .wasm bytes for an engine */
+export type WasmBinaryLoader = (engine: EngineName) => Promise<ArrayBuffer>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REGISTRY STATE
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ENGINE_LABELS: Record<EngineName, string> = {
+    mupdf: 'MuPDF',
+    qpdf: 'QPDF',
+    ghostscript: 'Ghostscript',
+};
+
+const WASM_URLS: Record<EngineName, string> = {
+    mupdf: '/mupdf-wasm.wasm',
+    qpdf: '/qpdf-wasm.wasm',
+    ghostscript: '/ghostscript-wasm.wasm',
+};
+
+const modulePromises: { [N in EngineName]?: Promise<EngineModules[N]> } = {};
+const states = new Map<EngineName, EngineState>();
+const listeners = new Set<EngineStateListener>();
+
+// mupdf binds its WASM instance at ES-module evaluation time, so a crashed
+// instance cannot be replaced inside the same JS realm (window or worker).
+let mupdfNeedsRestart = false;
+
+function setState(engine: EngineName, patch: Partial<Omit<EngineState, 'engine'>>): void {
+    const previous = states.get(engine) ?? { engine, status: 'idle', progress: 0, error: null };
+    const next: EngineState = { ...previous, ...patch };
+    states.set(engine, next);
+    listeners.forEach((listener) => listener(next));
+}
+
+/**
+ * Returns the current load state of an engine.
+ */
+export function getEngineState(engine: EngineName): EngineState {
+    return states.get(engine) ?? { engine, status: 'idle', progress: 0, error: null };
+}
+
+/**
+ * Subscribes to load/crash state changes of every engine.
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeEngineState(listener: EngineStateListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LOADING
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function fetchWasm(engine: EngineName): Promise<ArrayBuffer> {
+    const response = await fetch(WASM_URLS[engine]);
+    if (!response.ok || !response.body) {
+        throw new Error(`Failed to download ${ENGINE_LABELS[engine]} engine (HTTP ${response.status})`);
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+        if (total > 0) {
+            setState(engine, { progress: Math.min(99, Math.round((received / total) * 100)) });
+        }
+    }
+
+    const bytes = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return bytes.buffer;
+}
+
+let wasmBinaryLoader: WasmBinaryLoader = fetchWasm;
+
+/**
+ * Replaces how engine binaries are obtained. The browser fetches them from the
+ * site root; the CLI reads them from node_modules instead.
+ *
+ * @param loader - Function returning the .wasm bytes for an engine
+ */
+export function setWasmBinaryLoader(loader: WasmBinaryLoader): void {
+    wasmBinaryLoader = loader;
+}
+
+/**
+ * Emscripten options shared by every engine: silence stdout/stderr and
+ * fetch the .wasm ourselves so download progress can be reported.
+ */
+function createModuleOptions(engine: EngineName, onFailure: (error: unknown) => void): WasmFactoryOptions {
+    return {
+        locateFile: (path, prefix) => (path.endsWith('.wasm') ? WASM_URLS[engine] : `${prefix || ''}${path}`),
+        print: () => undefined,
+        printErr: () => undefined,
+        instantiateWasm: (imports, receiveInstance) => {
+            wasmBinaryLoader(engine)
+                .then((bytes) => WebAssembly.instantiate(bytes, imports))
+                .then(({ instance, module }) => receiveInstance(instance, module))
+                .catch(onFailure);
+            return {};
+        },
+    };
+}
+
+function instantiate<N extends EngineName>(engine: N): Promise<EngineModules[N]> {
+    return new Promise<EngineModules[N]>((resolve, reject) => {
+        const options = createModuleOptions(engine, reject);
+        let factoryPromise: Promise<EngineModules[EngineName]>;
+
+        if (engine === 'mupdf') {
+            // mupdf reads its emscripten options from this global when first imported.
+            (globalThis as { $libmupdf_wasm_Module?: WasmFactoryOptions }).$libmupdf_wasm_Module = options;
+            factoryPromise = import('mupdf');
+        } else if (engine === 'qpdf') {
+            factoryPromise = import('@jspawn/qpdf-wasm').then(({ default: createQpdfModule }) => createQpdfModule(options));
+        } else {
+            factoryPromise = import('@jspawn/ghostscript-wasm').then(({ default: createGhostscriptModule }) =>
+                createGhostscriptModule(options)
+            );
+        }
+
+        factoryPromise.then((module) => resolve(module as EngineModules[N]), reject);
+    });
+}
+
+/**
+ * Loads an engine, reusing the cached instance when one is already loaded.
+ *
+ * @example
+ * const qpdf = await loadEngine('qpdf');
+ * qpdf.callMain(['--version']);
+ *
+ * @param engine - Engine to load
+ * @returns Promise resolving to the typed engine module
+ * @throws Error if the engine failed to download or must be restarted
+ */
+export function loadEngine<N extends EngineName>(engine: N): Promise<EngineModules[N]> {
+    if (engine === 'mupdf' && mupdfNeedsRestart) {
+        return Promise.reject(new Error('MuPDF ran out of memory and needs a restart. Please reload the page.'));
+    }
+
+    const cached = modulePromises[engine] as Promise<EngineModules[N]> | undefined;
+    if (cached) return cached;
+
+    setState(engine, { status: 'loading', progress: 0, error: null });
+
+    const promise = instantiate(engine).then(
+        (module) => {
+            setState(engine, { status: 'ready', progress: 100 });
+            return module;
+        },
+        (error: unknown) => {
+            delete modulePromises[engine];
+            setState(engine, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    );
+
+    (modulePromises as Record<EngineName, Promise<EngineModules[EngineName]>>)[engine] = promise;
+    return promise;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LIFECYCLE
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Drops the cached instance of an engine so its memory can be reclaimed.
+ * The next {@link loadEngine} call creates a fresh instance.
+ */
+export function disposeEngine(engine: EngineName): void {
+    delete modulePromises[engine];
+    if (engine === 'mupdf' && getEngineState('mupdf').status !== 'idle') {
+        mupdfNeedsRestart = true;
+    }
+    setState(engine, { status: 'idle', progress: 0 });
+}
+
+/**
+ * Whether an engine crashed in a way that requires a new JS realm
+ * (a fresh worker or a page reload) before it can be used again.
+ */
+export function engineNeedsRestart(): boolean {
+    return mupdfNeedsRestart;
+}
+
+/**
+ * Detects the errors emscripten raises when a module fails to allocate memory.
+ */
+export function isOutOfMemoryError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /out of memory|\bOOM\b|Cannot enlarge memory|Array buffer allocation failed/i.test(message);
+}
+
+/**
+ * Detects WASM traps (unreachable code, bad function pointers, out-of-bounds
+ * access) that leave an engine instance in an unknown state.
+ */
+export function isEngineCrash(error: unknown): boolean {
+    if (error instanceof WebAssembly.RuntimeError) return true;
+    const message = error instanceof Error ? error.message : String(error);
+    return /memory access out of bounds/i.test(message);
+}
+
+/**
+ * Runs a task against a loaded engine. If the engine runs out of memory or
+ * crashes, the instance is torn down so the next run re-instantiates it.
+ *
+ * @param engine - Engine to run against
+ * @param task - Work to perform with the engine module
+ * @returns Promise resolving to the task result
+ */
+export async function withEngine<N extends EngineName, T>(
+    engine: N,
+    task: (module: EngineModules[N]) => T | Promise<T>
+): Promise<T> {
+    const module = await loadEngine(engine);
+
+    try {
+        return await task(module);
+    } catch (error) {
+        if (isOutOfMemoryError(error)) {
+            disposeEngine(engine);
+            setState(engine, { status: 'crashed', error: 'Out of memory' });
+            throw new Error(`${ENGINE_LABELS[engine]} ran out of memory while processing this file`, { cause: error });
+        }
+        if (isEngineCrash(error)) {
+            disposeEngine(engine);
+            setState(engine, { status: 'crashed', error: 'Engine crashed' });
+            throw new Error(`${ENGINE_LABELS[engine]} crashed while processing this file`, { cause: error });
+        }
+        throw error;
+    }
+}
+
+/**
+ * Removes a file from an engine's in-memory filesystem, ignoring failures.
+ */
+export function safeUnlink(module: { FS: { unlink: (path: string) => void } }, path: string): void {
+    try {
+        module.FS.unlink(path);
+    } catch {
+        // Ignore cleanup failures.
+    }
+}
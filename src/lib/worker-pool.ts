@@ -0,0 +1,206 @@
+/**
+ * PDF Worker Pool
+ *
+ * Runs PDF jobs in a small pool of dedicated Web Workers so pdf-lib and the
+ * WASM engines never block the UI thread. Pages post a typed job and receive
+ * progress updates while the worker does the heavy lifting.
+ *
+ * @module worker-pool
+ */
+
+import {
+    decodeTransferable,
+    encodeTransferable,
+    type PdfJobEvent,
+    type PdfJobInput,
+    type PdfJobOutput,
+    type PdfJobType,
+    type WorkerJobRequest,
+    type WorkerJobResponse,
+} from './worker-protocol';
+import type { EngineState } from './wasm-engines';
+
+export type { PdfJobType } from './worker-protocol';
+
+export interface RunJobOptions<T extends PdfJobType> {
+    onProgress?: (progress: number, status?: string) => void;
+    onEvent?: (event: PdfJobEvent<T>) => void;
+    /** Called while a WASM engine used by the job downloads, loads or crashes */
+    onEngineState?: (state: EngineState) => void;
+    signal?: AbortSignal;
+}
+
+interface PendingJob {
+    jobId: number;
+    type: PdfJobType;
+    input: unknown;
+    onProgress?: (progress: number, status?: string) => void;
+    onEvent?: (event: unknown) => void;
+    onEngineState?: (state: EngineState) => void;
+    signal?: AbortSignal;
+    resolve: (output: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job: PendingJob | null;
+}
+
+// WASM engines allocate hundreds of MB on large files, so keep the pool small.
+const MAX_WORKERS = Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1));
+
+const workers: PoolWorker[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+
+function createWorker(): PoolWorker {
+    const worker = new Worker(new URL('../workers/pdf.worker.ts', import.meta.url), { type: 'module' });
+    const entry: PoolWorker = { worker, job: null };
+
+    worker.onmessage = (event: MessageEvent<WorkerJobResponse>) => handleMessage(entry, event.data);
+    worker.onerror = (event) => {
+        event.preventDefault();
+        replaceWorker(entry, new Error(event.message || 'PDF worker crashed'));
+    };
+
+    workers.push(entry);
+    return entry;
+}
+
+function retireWorker(entry: PoolWorker): void {
+    entry.worker.terminate();
+    workers.splice(workers.indexOf(entry), 1);
+}
+
+function replaceWorker(entry: PoolWorker, error: Error): void {
+    const job = entry.job;
+    retireWorker(entry);
+
+    job?.reject(error);
+    dispatch();
+}
+
+function handleMessage(entry: PoolWorker, message: WorkerJobResponse): void {
+    const job = entry.job;
+    if (!job || job.jobId !== message.jobId) return;
+
+    switch (message.kind) {
+        case 'progress':
+            job.onProgress?.(message.progress, message.status);
+            return;
+        case 'event':
+            job.onEvent?.(decodeTransferable(message.event));
+            return;
+        case 'engine':
+            job.onEngineState?.(message.state);
+            return;
+        case 'result':
+            entry.job = null;
+            job.resolve(decodeTransferable(message.output));
+            break;
+        case 'error':
+            entry.job = null;
+            job.reject(message.aborted ? new DOMException(message.message, 'AbortError') : new Error(message.message));
+            break;
+    }
+
+    // A crashed mupdf instance can only be replaced in a fresh JS realm.
+    if (message.restart) retireWorker(entry);
+    dispatch();
+}
+
+function dispatch(): void {
+    while (queue.length > 0) {
+        const idle = workers.find((entry) => entry.job === null)
+            ?? (workers.length < MAX_WORKERS ? createWorker() : null);
+        if (!idle) return;
+
+        const job = queue.shift() as PendingJob;
+        idle.job = job;
+        void startJob(idle, job);
+    }
+}
+
+async function startJob(entry: PoolWorker, job: PendingJob): Promise<void> {
+    try {
+        const { value, transfer } = await encodeTransferable(job.input);
+        const request: WorkerJobRequest = { kind: 'run', jobId: job.jobId, type: job.type, input: value };
+        entry.worker.postMessage(request, transfer);
+    } catch (error) {
+        entry.job = null;
+        job.reject(error instanceof Error ? error : new Error('Failed to send job to PDF worker'));
+        dispatch();
+    }
+}
+
+/**
+ * Runs a PDF job on the worker pool.
+ *
+ * Jobs are queued when every worker is busy and start as soon as one frees up.
+ * Files in the input are transferred to the worker as ArrayBuffers; Blobs in
+ * the output are transferred back the same way. Aborting the signal drops a
+ * queued job immediately, or asks the worker to stop at its next checkpoint
+ * (between pages or engines) and rejects with an AbortError.
+ *
+ * @example
+ * const blob = await runPdfJob('merge', { files }, { onProgress: setProgress });
+ *
+ * @param type - The job to run
+ * @param input - Arguments for the underlying lib function
+ * @param options - Optional progress/event callbacks and abort signal
+ * @returns Promise resolving to the job output
+ */
+export function runPdfJob<T extends PdfJobType>(
+    type: T,
+    input: PdfJobInput<T>,
+    options: RunJobOptions<T> = {}
+): Promise<PdfJobOutput<T>> {
+    return new Promise<PdfJobOutput<T>>((resolve, reject) => {
+        const { signal } = options;
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            const queuedIndex = queue.indexOf(job);
+            if (queuedIndex !== -1) {
+                queue.splice(queuedIndex, 1);
+                job.reject(signal!.reason);
+                return;
+            }
+
+            const running = workers.find((entry) => entry.job === job);
+            if (running) {
+                const cancel: WorkerJobRequest = { kind: 'cancel', jobId: job.jobId };
+                running.worker.postMessage(cancel);
+            }
+        };
+
+        // Settling removes the abort listener, so a signal shared by many
+        // jobs does not keep every finished one alive
+        const job: PendingJob = {
+            jobId: nextJobId++,
+            type,
+            input,
+            onProgress: options.onProgress,
+            onEvent: options.onEvent as ((event: unknown) => void) | undefined,
+            onEngineState: options.onEngineState,
+            signal,
+            resolve: (output) => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(output as PdfJobOutput<T>);
+            },
+            reject: (error) => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        queue.push(job);
+        dispatch();
+    });
+}
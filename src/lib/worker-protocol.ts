@@ -0,0 +1,286 @@
+/**
+ * PDF Worker Protocol
+ *
+ * Typed request/response messages exchanged between the UI thread and the
+ * PDF worker pool. Files and Blobs are converted to ArrayBuffers and moved
+ * across the boundary as transferables instead of being copied.
+ *
+ * @module worker-protocol
+ */
+
+import type { SizeBreakdown } from './pdf-analyze';
+import type { PageNumberOptions, WatermarkOptions } from './pdf-annotations';
+import type { BatchJob } from './pdf-batch';
+import type { PageSizeKey } from './pdf-images';
+import type { PipelineResult, PipelineStep } from './pdf-pipeline';
+import type { SaveOptions, SavedPdf } from './pdf-save';
+import type { ProtectOptions } from './pdf-security';
+import type { OutlineEntry, SplitResult } from './pdf-split';
+import type { CompressionOptions, CompressionResult, LosslessEngineResult } from './pdf-utils';
+import type { EngineState } from './wasm-engines';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// JOB DEFINITIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Every job the worker understands, keyed by job type.
+ *
+ * - `input`: arguments forwarded to the lib function
+ * - `output`: value resolved on the UI thread
+ * - `event`: job-specific notifications emitted while the job runs
+ */
+export interface PdfJobMap {
+    'compress': {
+        input: { file: File; options: Omit<CompressionOptions, 'onProgress' | 'onEngineResult' | 'signal'> };
+        output: CompressionResult;
+        event: LosslessEngineResult;
+    };
+    'analyze-size': {
+        input: { file: File };
+        output: SizeBreakdown;
+        event: never;
+    };
+    'merge': {
+        input: { files: File[] };
+        output: Blob;
+        event: never;
+    };
+    'page-count': {
+        input: { file: File };
+        output: number;
+        event: never;
+    };
+    'extract-pages': {
+        input: { file: File; pageNumbers: number[] };
+        output: Blob;
+        event: never;
+    };
+    'split-range': {
+        input: { file: File; rangeStr: string };
+        output: SplitResult;
+        event: never;
+    };
+    'split-all': {
+        input: { file: File };
+        output: SplitResult;
+        event: never;
+    };
+    'split-every': {
+        input: { file: File; pagesPerFile: number };
+        output: SplitResult;
+        event: never;
+    };
+    'split-parts': {
+        input: { file: File; parts: number };
+        output: SplitResult;
+        event: never;
+    };
+    'split-groups': {
+        input: { file: File; groups: number[][] };
+        output: SplitResult;
+        event: never;
+    };
+    'split-size': {
+        input: { file: File; maxBytes: number };
+        output: SplitResult;
+        event: never;
+    };
+    'read-outline': {
+        input: { file: File };
+        output: OutlineEntry[];
+        event: never;
+    };
+    'split-outline': {
+        input: { file: File; depth: number };
+        output: SplitResult;
+        event: never;
+    };
+    'remove-pages': {
+        input: { file: File; pageNumbers: number[] };
+        output: Blob;
+        event: never;
+    };
+    'rotate-pages': {
+        input: { file: File; rotations: Record<number, number> };
+        output: Blob;
+        event: never;
+    };
+    'reorder-pages': {
+        input: { file: File; newOrder: number[] };
+        output: Blob;
+        event: never;
+    };
+    'add-page-numbers': {
+        input: { file: File; options: PageNumberOptions };
+        output: Blob;
+        event: never;
+    };
+    'add-watermark': {
+        input: { file: File; options: WatermarkOptions };
+        output: Blob;
+        event: never;
+    };
+    'images-to-pdf': {
+        input: { files: File[]; pageSize: PageSizeKey };
+        output: Blob;
+        event: never;
+    };
+    'protect': {
+        input: { file: File; options: ProtectOptions };
+        output: Blob;
+        event: never;
+    };
+    'unlock': {
+        input: { file: File; password: string };
+        output: Blob;
+        event: never;
+    };
+    'batch-item': {
+        input: { job: BatchJob; file: File };
+        output: Blob;
+        event: never;
+    };
+    'pipeline': {
+        input: { files: File[]; steps: PipelineStep[] };
+        output: PipelineResult;
+        event: never;
+    };
+    'save-pdf': {
+        input: { blob: Blob; options: SaveOptions };
+        output: SavedPdf;
+        event: never;
+    };
+}
+
+export type PdfJobType = keyof PdfJobMap;
+export type PdfJobInput<T extends PdfJobType> = PdfJobMap[T]['input'];
+export type PdfJobOutput<T extends PdfJobType> = PdfJobMap[T]['output'];
+export type PdfJobEvent<T extends PdfJobType> = PdfJobMap[T]['event'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MESSAGES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** UI thread → worker */
+export type WorkerJobRequest =
+    | { kind: 'run'; jobId: number; type: PdfJobType; input: unknown }
+    | { kind: 'cancel'; jobId: number };
+
+/** Worker → UI thread */
+export type WorkerJobResponse =
+    | { kind: 'progress'; jobId: number; progress: number; status?: string }
+    | { kind: 'event'; jobId: number; event: unknown }
+    | { kind: 'engine'; jobId: number; state: EngineState }
+    | { kind: 'result'; jobId: number; output: unknown; restart: boolean }
+    | { kind: 'error'; jobId: number; message: string; aborted: boolean; restart: boolean };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TRANSFERABLE ENCODING
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface EncodedBlob {
+    __transfer: 'blob';
+    buffer: ArrayBuffer;
+    type: string;
+}
+
+interface EncodedFile {
+    __transfer: 'file';
+    buffer: ArrayBuffer;
+    type: string;
+    name: string;
+    lastModified: number;
+}
+
+function isEncoded(value: object): value is EncodedBlob | EncodedFile {
+    return '__transfer' in value && 'buffer' in value;
+}
+
+/**
+ * Recursively replaces every File/Blob in a plain value with an ArrayBuffer
+ * wrapper, collecting the buffers so they can be transferred with postMessage.
+ *
+ * @param value - Plain object, array or primitive to encode
+ * @returns The encoded value and its transfer list
+ */
+export async function encodeTransferable(value: unknown): Promise<{ value: unknown; transfer: ArrayBuffer[] }> {
+    const transfer: ArrayBuffer[] = [];
+    // Results often reference the same Blob twice (e.g. the best engine result).
+    const encodedBlobs = new Map<Blob, Promise<EncodedBlob | EncodedFile>>();
+
+    const encodeBlob = async (current: Blob): Promise<EncodedBlob | EncodedFile> => {
+        const buffer = await current.arrayBuffer();
+        transfer.push(buffer);
+
+        if (current instanceof File) {
+            return {
+                __transfer: 'file',
+                buffer,
+                type: current.type,
+                name: current.name,
+                lastModified: current.lastModified,
+            };
+        }
+
+        return { __transfer: 'blob', buffer, type: current.type };
+    };
+
+    const encode = async (current: unknown): Promise<unknown> => {
+        if (current instanceof Blob) {
+            let encoded = encodedBlobs.get(current);
+            if (!encoded) {
+                encoded = encodeBlob(current);
+                encodedBlobs.set(current, encoded);
+            }
+            return encoded;
+        }
+
+        if (Array.isArray(current)) {
+            return Promise.all(current.map(encode));
+        }
+
+        if (current !== null && typeof current === 'object') {
+            const entries = await Promise.all(
+                Object.entries(current).map(async ([key, entry]) => [key, await encode(entry)] as const)
+            );
+            return Object.fromEntries(entries);
+        }
+
+        return current;
+    };
+
+    return { value: await encode(value), transfer };
+}
+
+/**
+ * Reverses {@link encodeTransferable}, rebuilding File and Blob instances.
+ *
+ * @param value - A value received from the other side of the worker boundary
+ * @returns The decoded value
+ */
+export function decodeTransferable<T>(value: unknown): T {
+    const decode = (current: unknown): unknown => {
+        if (Array.isArray(current)) {
+            return current.map(decode);
+        }
+
+        if (current !== null && typeof current === 'object') {
+            if (isEncoded(current)) {
+                if (current.__transfer === 'file') {
+                    return new File([current.buffer], current.name, {
+                        type: current.type,
+                        lastModified: current.lastModified,
+                    });
+                }
+                return new Blob([current.buffer], { type: current.type });
+            }
+
+            return Object.fromEntries(Object.entries(current).map(([key, entry]) => [key, decode(entry)]));
+        }
+
+        return current;
+    };
+
+    return decode(value) as T;
+}
@@ -2,6 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App'
+import { startFileHandling } from './lib/file-handoff'
+import { registerServiceWorker } from './lib/pwa'
+
+registerServiceWorker()
+startFileHandling()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
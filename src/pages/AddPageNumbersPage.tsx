@@ -1,23 +1,17 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
+import PresetBar from '../components/PresetBar';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { addPageNumbers, downloadBlob, type NumberPosition, type NumberFormat } from '../lib/pdf-annotations';
-
-const POSITIONS: { value: NumberPosition; label: string }[] = [
-    { value: 'top-left', label: 'Top Left' },
-    { value: 'top-center', label: 'Top Center' },
-    { value: 'top-right', label: 'Top Right' },
-    { value: 'bottom-left', label: 'Bottom Left' },
-    { value: 'bottom-center', label: 'Bottom Center' },
-    { value: 'bottom-right', label: 'Bottom Right' },
-];
-
-const FORMATS: { value: NumberFormat; label: string; example: string }[] = [
-    { value: 'numeric', label: '1, 2, 3...', example: '1' },
-    { value: 'roman', label: 'i, ii, iii...', example: 'i' },
-    { value: 'page-of', label: 'Page 1 of N', example: 'Page 1 of 10' },
-];
+import {
+    NUMBER_FORMATS,
+    NUMBER_POSITIONS,
+    type NumberPosition,
+    type NumberFormat,
+} from '../lib/pdf-annotations';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 
 export default function AddPageNumbersPage() {
     const [file, setFile] = useState<File | null>(null);
@@ -30,28 +24,39 @@ export default function AddPageNumbersPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const handleApply = async () => {
         if (!file) return;
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(50);
-            const blob = await addPageNumbers(file, { position, format, fontSize, startFrom, margin });
+            const blob = await runPdfJob('add-page-numbers', {
+                file,
+                options: { position, format, fontSize, startFrom, margin },
+            }, { signal: controller.signal });
             setProgress(100);
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to add page numbers');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to add page numbers');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_numbered.pdf`);
+        void downloadPdf(result, `${baseName}_numbered.pdf`);
     };
 
     const handleReset = () => {
@@ -67,6 +72,18 @@ export default function AddPageNumbersPage() {
 
             {file && !result && !isProcessing && (
                 <div className="space-y-6">
+                    <PresetBar
+                        scope="add-page-numbers"
+                        value={{ position, format, fontSize, startFrom, margin }}
+                        onApply={({ options }) => {
+                            setPosition(options.position);
+                            setFormat(options.format);
+                            setFontSize(options.fontSize);
+                            setStartFrom(options.startFrom);
+                            setMargin(options.margin);
+                        }}
+                    />
+
                     <div className="p-6 bg-gray-50 border-4 border-gray-200 rounded-lg space-y-6">
                         <p className="font-bold text-gray-600">{file.name}</p>
 
@@ -74,7 +91,7 @@ export default function AddPageNumbersPage() {
                         <div>
                             <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-3">Position</label>
                             <div className="grid grid-cols-3 gap-2 max-w-xs">
-                                {POSITIONS.map(pos => (
+                                {NUMBER_POSITIONS.map(pos => (
                                     <button
                                         key={pos.value}
                                         onClick={() => setPosition(pos.value)}
@@ -91,7 +108,7 @@ export default function AddPageNumbersPage() {
                         <div>
                             <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-3">Format</label>
                             <div className="flex flex-wrap gap-2">
-                                {FORMATS.map(f => (
+                                {NUMBER_FORMATS.map(f => (
                                     <button
                                         key={f.value}
                                         onClick={() => setFormat(f.value)}
@@ -148,7 +165,7 @@ export default function AddPageNumbersPage() {
                 </div>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Adding page numbers..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Adding page numbers..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
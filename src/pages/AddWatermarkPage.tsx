@@ -1,16 +1,12 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
+import PresetBar from '../components/PresetBar';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { addWatermark, downloadBlob } from '../lib/pdf-annotations';
-
-const COLOR_PRESETS = [
-    { label: 'Gray', r: 0.5, g: 0.5, b: 0.5 },
-    { label: 'Red', r: 0.8, g: 0.1, b: 0.1 },
-    { label: 'Blue', r: 0.1, g: 0.1, b: 0.8 },
-    { label: 'Green', r: 0.1, g: 0.6, b: 0.1 },
-    { label: 'Black', r: 0, g: 0, b: 0 },
-];
+import { WATERMARK_COLORS, type WatermarkOptions } from '../lib/pdf-annotations';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 
 export default function AddWatermarkPage() {
     const [file, setFile] = useState<File | null>(null);
@@ -26,38 +22,65 @@ export default function AddWatermarkPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const selectedColor = WATERMARK_COLORS[colorIndex];
+    const watermarkOptions: WatermarkOptions = {
+        text,
+        fontSize,
+        opacity,
+        rotation,
+        color: { r: selectedColor.r, g: selectedColor.g, b: selectedColor.b },
+        position,
+        tileOffsetX,
+        tileOffsetY,
+    };
+
+    const applyPreset = (options: WatermarkOptions) => {
+        const presetColorIndex = WATERMARK_COLORS.findIndex(
+            (c) => c.r === options.color.r && c.g === options.color.g && c.b === options.color.b
+        );
+        setText(options.text);
+        setFontSize(options.fontSize);
+        setOpacity(options.opacity);
+        setRotation(options.rotation);
+        setColorIndex(Math.max(0, presetColorIndex));
+        setPosition(options.position);
+        setTileOffsetX(options.tileOffsetX ?? 0);
+        setTileOffsetY(options.tileOffsetY ?? 0);
+    };
 
     const handleApply = async () => {
         if (!file || !text.trim()) return;
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(50);
-            const color = COLOR_PRESETS[colorIndex];
-            const blob = await addWatermark(file, {
-                text: text.trim(),
-                fontSize,
-                opacity,
-                rotation,
-                color: { r: color.r, g: color.g, b: color.b },
-                position,
-                tileOffsetX,
-                tileOffsetY,
-            });
+            const blob = await runPdfJob('add-watermark', {
+                file,
+                options: { ...watermarkOptions, text: text.trim() },
+            }, { signal: controller.signal });
             setProgress(100);
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to add watermark');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to add watermark');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_watermarked.pdf`);
+        void downloadPdf(result, `${baseName}_watermarked.pdf`);
     };
 
     const handleReset = () => {
@@ -73,6 +96,8 @@ export default function AddWatermarkPage() {
 
             {file && !result && !isProcessing && (
                 <div className="space-y-6">
+                    <PresetBar scope="add-watermark" value={watermarkOptions} onApply={({ options }) => applyPreset(options)} />
+
                     <div className="p-6 bg-gray-50 border-4 border-gray-200 rounded-lg space-y-6">
                         <p className="font-bold text-gray-600">{file.name}</p>
 
@@ -116,7 +141,7 @@ export default function AddWatermarkPage() {
                         <div>
                             <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-2">Color</label>
                             <div className="flex gap-2">
-                                {COLOR_PRESETS.map((c, i) => (
+                                {WATERMARK_COLORS.map((c, i) => (
                                     <button
                                         key={c.label}
                                         onClick={() => setColorIndex(i)}
@@ -155,7 +180,7 @@ export default function AddWatermarkPage() {
                                         {Array.from({ length: 5 }, (_, row) => (
                                             <div key={row} className="flex gap-8 whitespace-nowrap" style={{ marginTop: row === 0 ? '-20%' : '40px' }}>
                                                 {Array.from({ length: 3 }, (_, col) => (
-                                                    <span key={col} className="font-bold" style={{ fontSize: fontSize * 0.3, color: `rgb(${COLOR_PRESETS[colorIndex].r * 255}, ${COLOR_PRESETS[colorIndex].g * 255}, ${COLOR_PRESETS[colorIndex].b * 255})` }}>
+                                                    <span key={col} className="font-bold" style={{ fontSize: fontSize * 0.3, color: `rgb(${WATERMARK_COLORS[colorIndex].r * 255}, ${WATERMARK_COLORS[colorIndex].g * 255}, ${WATERMARK_COLORS[colorIndex].b * 255})` }}>
                                                         {text || 'WATERMARK'}
                                                     </span>
                                                 ))}
@@ -163,7 +188,7 @@ export default function AddWatermarkPage() {
                                         ))}
                                     </div>
                                 ) : (
-                                    <span className="font-bold" style={{ fontSize: fontSize * 0.4, transform: `rotate(${rotation}deg)`, color: `rgb(${COLOR_PRESETS[colorIndex].r * 255}, ${COLOR_PRESETS[colorIndex].g * 255}, ${COLOR_PRESETS[colorIndex].b * 255})` }}>
+                                    <span className="font-bold" style={{ fontSize: fontSize * 0.4, transform: `rotate(${rotation}deg)`, color: `rgb(${WATERMARK_COLORS[colorIndex].r * 255}, ${WATERMARK_COLORS[colorIndex].g * 255}, ${WATERMARK_COLORS[colorIndex].b * 255})` }}>
                                         {text || 'WATERMARK'}
                                     </span>
                                 )}
@@ -183,7 +208,7 @@ export default function AddWatermarkPage() {
                 </div>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Adding watermark..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Adding watermark..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
@@ -0,0 +1,276 @@
+import { useRef, useState } from 'react';
+import MultiFileDropzone from '../components/MultiFileDropzone';
+import { CompressEditor, PageNumbersEditor, WatermarkEditor } from '../components/PipelineStepEditor';
+import ProgressIndicator from '../components/ProgressIndicator';
+import ToolPageTemplate from '../components/ToolPageTemplate';
+import {
+    BATCH_TOOLS,
+    createBatchItems,
+    createBatchZip,
+    downloadBlob,
+    formatBytes,
+    runBatch,
+    type BatchItemResult,
+    type BatchJob,
+    type BatchTool,
+    type BatchToolOptionsMap,
+    type RotateAllOptions,
+} from '../lib/pdf-batch';
+import { downloadPdf, preparePdf } from '../lib/pdf-download';
+import { DEFAULT_STEP_OPTIONS } from '../lib/pdf-pipeline';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
+
+const BATCH_TOOL_KEYS = Object.keys(BATCH_TOOLS) as BatchTool[];
+
+const DEFAULT_BATCH_OPTIONS: BatchToolOptionsMap = {
+    'compress': DEFAULT_STEP_OPTIONS['compress'],
+    'add-watermark': DEFAULT_STEP_OPTIONS['add-watermark'],
+    'add-page-numbers': DEFAULT_STEP_OPTIONS['add-page-numbers'],
+    'rotate': { degrees: 90 },
+    'protect': { userPassword: '', permissions: { printing: true, copying: false, modifying: false } },
+};
+
+const STATUS_STYLES: Record<BatchItemResult['status'], string> = {
+    pending: 'bg-gray-100 text-gray-500',
+    processing: 'bg-yellow-100 text-yellow-700',
+    success: 'bg-green-100 text-green-700',
+    failed: 'bg-red-100 text-red-700',
+};
+
+export default function BatchPage() {
+    const [files, setFiles] = useState<File[]>([]);
+    const [tool, setTool] = useState<BatchTool>('compress');
+    const [options, setOptions] = useState<BatchToolOptionsMap>(DEFAULT_BATCH_OPTIONS);
+    const [items, setItems] = useState<BatchItemResult[]>([]);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isDone, setIsDone] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const setToolOptions = <K extends BatchTool>(key: K, value: BatchToolOptionsMap[K]) => {
+        setOptions(prev => ({ ...prev, [key]: value }));
+    };
+
+    const optionsError =
+        tool === 'add-watermark' && !options['add-watermark'].text.trim() ? 'Enter the watermark text'
+            : tool === 'protect' && !options.protect.userPassword ? 'Enter a password'
+                : null;
+
+    const finishedCount = items.filter(item => item.status === 'success' || item.status === 'failed').length;
+    const succeededCount = items.filter(item => item.status === 'success').length;
+    const failedCount = items.filter(item => item.status === 'failed').length;
+
+    const handleFilesSelect = (newFiles: File[]) => {
+        setFiles(prev => [...prev, ...newFiles]);
+        setError(null);
+    };
+
+    const removeFile = (index: number) => {
+        setFiles(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleRun = async () => {
+        if (files.length === 0 || optionsError) return;
+        setIsProcessing(true);
+        setIsDone(false);
+        setError(null);
+        setItems(createBatchItems(files));
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const job = { tool, options: options[tool] } as BatchJob;
+
+        try {
+            await runBatch(
+                files,
+                tool,
+                (file, signal) => runPdfJob('batch-item', { job, file }, { signal }),
+                (index, item) => setItems(prev => prev.map((current, i) => (i === index ? item : current))),
+                controller.signal
+            );
+            setIsDone(true);
+        } catch (err) {
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Batch failed');
+            else setItems([]);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleDownloadZip = async () => {
+        try {
+            const prepared: BatchItemResult[] = [];
+            for (const item of items) {
+                const blob = item.blob && item.outputName ? await preparePdf(item.blob, item.outputName) : item.blob;
+                prepared.push({ ...item, blob, outputSize: blob?.size ?? item.outputSize });
+            }
+            const zipBlob = await createBatchZip(prepared, tool);
+            downloadBlob(zipBlob, `batch_${BATCH_TOOLS[tool].suffix}.zip`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create ZIP');
+        }
+    };
+
+    const handleReset = () => {
+        setFiles([]);
+        setItems([]);
+        setIsDone(false);
+        setError(null);
+    };
+
+    return (
+        <ToolPageTemplate title="Batch Process" description="Apply one tool to many PDFs and download them as a ZIP.">
+            {!isProcessing && !isDone && (
+                <>
+                    <MultiFileDropzone onFilesSelect={handleFilesSelect} label="Drop your PDFs here" />
+
+                    {files.length > 0 && (
+                        <div className="p-6 bg-gray-50 border-4 border-gray-200 rounded-lg space-y-6">
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h3 className="font-black text-lg">Files ({files.length})</h3>
+                                    <button onClick={handleReset} className="text-sm font-bold text-red-600 hover:text-red-700">Clear All</button>
+                                </div>
+                                <div className="space-y-2 max-h-80 overflow-y-auto">
+                                    {files.map((file, index) => (
+                                        <div key={`${file.name}-${file.lastModified}-${index}`} className="flex items-center gap-3 bg-white p-3 rounded-lg border-2 border-gray-100">
+                                            <span className="flex-1 min-w-0 font-bold truncate">{file.name}</span>
+                                            <span className="text-xs text-gray-500">{formatBytes(file.size)}</span>
+                                            <button onClick={() => removeFile(index)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Remove file">✕</button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Tool */}
+                            <div>
+                                <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-2">Tool</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {BATCH_TOOL_KEYS.map(key => (
+                                        <button
+                                            key={key}
+                                            onClick={() => setTool(key)}
+                                            className={`px-4 py-2 font-bold uppercase text-sm rounded-lg border-4 transition-all ${tool === key ? 'border-black bg-black text-white' : 'border-gray-300 hover:border-gray-400'}`}
+                                        >
+                                            {BATCH_TOOLS[key].label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Options */}
+                            {tool === 'compress' && <CompressEditor options={options.compress} onChange={(value) => setToolOptions('compress', value)} />}
+                            {tool === 'add-watermark' && <WatermarkEditor options={options['add-watermark']} onChange={(value) => setToolOptions('add-watermark', value)} />}
+                            {tool === 'add-page-numbers' && <PageNumbersEditor options={options['add-page-numbers']} onChange={(value) => setToolOptions('add-page-numbers', value)} />}
+                            {tool === 'rotate' && (
+                                <div>
+                                    <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-2">Rotate Every Page</label>
+                                    <div className="flex gap-2">
+                                        {([90, 180, 270] as RotateAllOptions['degrees'][]).map(degrees => (
+                                            <button
+                                                key={degrees}
+                                                onClick={() => setToolOptions('rotate', { degrees })}
+                                                className={`px-4 py-2 font-bold text-sm rounded-lg border-4 transition-all ${options.rotate.degrees === degrees ? 'border-black bg-black text-white' : 'border-gray-300 hover:border-gray-400'}`}
+                                            >
+                                                {degrees}°
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {tool === 'protect' && (
+                                <div>
+                                    <label className="block font-bold text-sm uppercase tracking-wide text-gray-500 mb-2">Password</label>
+                                    <input
+                                        type="password"
+                                        value={options.protect.userPassword}
+                                        onChange={(e) => setToolOptions('protect', { ...options.protect, userPassword: e.target.value })}
+                                        className="w-full px-4 py-3 font-bold border-4 border-black rounded-lg"
+                                        placeholder="Password applied to every file"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {files.length > 0 && (
+                        <div className="flex items-center justify-between gap-4">
+                            <p className="text-sm font-bold text-gray-500">{optionsError}</p>
+                            <button
+                                onClick={handleRun}
+                                disabled={optionsError !== null}
+                                className="px-6 py-3 font-bold uppercase tracking-wide text-white bg-black border-4 border-black rounded-lg hover:bg-gray-800 hover:-translate-y-0.5 hover:shadow-[0_4px_0_#000] active:translate-y-0 active:shadow-none disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                                {BATCH_TOOLS[tool].label} {files.length} File{files.length === 1 ? '' : 's'}
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {isProcessing && (
+                <ProgressIndicator
+                    progress={items.length > 0 ? Math.round((finishedCount / items.length) * 100) : 0}
+                    status={`Processed ${finishedCount} of ${items.length} files...`}
+                    onCancel={handleCancel}
+                />
+            )}
+
+            {items.length > 0 && (
+                <div className="space-y-2">
+                    {items.map((item, index) => (
+                        <div key={`${item.fileName}-${index}`} className="flex items-center gap-3 bg-white p-3 rounded-lg border-2 border-gray-100">
+                            <span className={`px-2 py-1 text-xs font-bold uppercase rounded ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold truncate">{item.fileName}</div>
+                                {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                            </div>
+                            <span className="text-xs text-gray-500">
+                                {formatBytes(item.originalSize)}
+                                {item.outputSize !== null && ` → ${formatBytes(item.outputSize)}`}
+                            </span>
+                            {item.blob && item.outputName && (
+                                <button
+                                    onClick={() => void downloadPdf(item.blob as Blob, item.outputName as string)}
+                                    className="px-3 py-1 text-xs font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 transition-colors"
+                                >
+                                    Download
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {error && (
+                <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
+                    <p className="font-bold text-red-600">{error}</p>
+                </div>
+            )}
+
+            {isDone && (
+                <div className="text-center p-8 bg-green-50 border-4 border-green-500 rounded-lg">
+                    <div className="text-5xl mb-4">{failedCount === 0 ? '✅' : '⚠️'}</div>
+                    <h3 className="text-2xl font-black mb-2">Batch Complete</h3>
+                    <p className="text-gray-600 mb-6">
+                        {succeededCount} succeeded{failedCount > 0 && `, ${failedCount} failed`}. The ZIP includes a manifest.json summary.
+                    </p>
+                    <div className="flex gap-4 justify-center">
+                        <button
+                            onClick={handleDownloadZip}
+                            disabled={succeededCount === 0}
+                            className="px-8 py-4 font-bold uppercase tracking-wide text-white bg-black border-4 border-black rounded-lg hover:bg-gray-800 hover:-translate-y-0.5 hover:shadow-[0_4px_0_#000] active:translate-y-0 active:shadow-none disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                        >
+                            Download ZIP
+                        </button>
+                        <button onClick={handleReset} className="px-8 py-4 font-bold uppercase tracking-wide border-4 border-black rounded-lg hover:bg-gray-100 transition-all">Process More</button>
+                    </div>
+                </div>
+            )}
+        </ToolPageTemplate>
+    );
+}
@@ -1,24 +1,59 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
+import PresetBar from '../components/PresetBar';
+import SizeBreakdownReport from '../components/SizeBreakdownReport';
 import ProgressIndicator from '../components/ProgressIndicator';
+import SaveOptionsPanel from '../components/SaveOptionsPanel';
+import VisualDiffPreview, { type VisualDiffState } from '../components/VisualDiffPreview';
 import {
-  compressPDF,
-  downloadBlob,
+  DEFAULT_BALANCED_OPTIONS,
+  DEFAULT_EXTREME_OPTIONS,
+  DEFAULT_GHOSTSCRIPT_DOWNSAMPLING,
   formatBytes,
   getCompressionPercent,
+  getCustomDownsamplingLabel,
+  GHOSTSCRIPT_PRESETS,
+  type CompressionEngine,
+  type CompressionQuality,
   type CompressionResult,
+  type ExtremeColorMode,
+  type GhostscriptDownsampling,
+  type GhostscriptPreset,
   type LosslessEngineResult,
-  type LosslessEngine,
 } from '../lib/pdf-utils';
-
-const ALL_LOSSLESS_ENGINES: { engine: LosslessEngine; label: string }[] = [
+import type { SizeBreakdown } from '../lib/pdf-analyze';
+import { CLEAN_ITEMS, type CleanItem } from '../lib/pdf-clean';
+import { downloadMeasuredPdf, downloadPdf } from '../lib/pdf-download';
+import { DEFAULT_DIFF_THRESHOLD, verifyCompression } from '../lib/pdf-verify';
+import { isAbortError } from '../lib/shared';
+import { ENGINE_LABELS } from '../lib/wasm-engines';
+import { runPdfJob } from '../lib/worker-pool';
+
+const ALL_LOSSLESS_ENGINES: { engine: CompressionEngine; label: string }[] = [
   { engine: 'mupdf', label: 'MuPDF' },
   { engine: 'pdf-lib', label: 'pdf-lib' },
   { engine: 'ghostscript', label: 'Ghostscript' },
   { engine: 'qpdf', label: 'QPDF' },
+  { engine: 'mupdf-fonts', label: 'MuPDF Fonts' },
+];
+
+const DOWNSAMPLING_FIELDS: { key: keyof GhostscriptDownsampling; label: string; step: number }[] = [
+  { key: 'colorDpi', label: 'Color DPI', step: 1 },
+  { key: 'grayDpi', label: 'Gray DPI', step: 1 },
+  { key: 'monoDpi', label: 'Mono DPI', step: 1 },
+  { key: 'threshold', label: 'Threshold', step: 0.1 },
+];
+
+const RASTER_DPI_OPTIONS = [36, 72, 100, 150, 200, 300];
+
+const COLOR_MODES: { value: ExtremeColorMode; label: string }[] = [
+  { value: 'color', label: 'Color' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'bitonal', label: 'Black & White' },
 ];
 
-type Quality = 'lossless' | 'extreme';
+/** Visual checks are keyed by engine, or 'result' for the output "Download Best Result" saves */
+type VerificationKey = CompressionEngine | 'result';
 
 function isSuccessful(
   result: LosslessEngineResult
@@ -26,11 +61,30 @@ function isSuccessful(
   return result.status === 'success' && result.blob !== null && result.fileName !== null && result.compressedSize !== null;
 }
 
-function qualityDescription(quality: Quality): string {
+function qualityDescription(quality: CompressionQuality): string {
   if (quality === 'lossless') {
-    return 'MuPDF, pdf-lib, Ghostscript, and QPDF';
+    return 'MuPDF, pdf-lib, Ghostscript, QPDF and font merging';
+  }
+  if (quality === 'balanced') {
+    return 'Downsample large images, keep text';
+  }
+  if (quality === 'target') {
+    return 'Best quality under a size limit';
   }
-  return 'Tiny file, no text select';
+  if (quality === 'profiles') {
+    return 'Ghostscript screen to prepress';
+  }
+  return 'Rasterize pages, tiny file';
+}
+
+function qualityLabel(quality: CompressionQuality): string {
+  if (quality === 'target') return 'Target Size';
+  if (quality === 'profiles') return 'GS Profiles';
+  return quality;
+}
+
+function isLossyEngine(engine: CompressionEngine): boolean {
+  return engine.startsWith('gs-');
 }
 
 function formatDeltaLabel(percent: number): string {
@@ -40,16 +94,66 @@ function formatDeltaLabel(percent: number): string {
 
 export default function CompressPage() {
   const [file, setFile] = useState<File | null>(null);
-  const [quality, setQuality] = useState<Quality>('lossless');
+  const [quality, setQuality] = useState<CompressionQuality>('lossless');
   const [compressionLevel, setCompressionLevel] = useState(70);
+  const [rasterDpi, setRasterDpi] = useState(DEFAULT_EXTREME_OPTIONS.dpi);
+  const [colorMode, setColorMode] = useState<ExtremeColorMode>(DEFAULT_EXTREME_OPTIONS.colorMode);
+  const [preserveText, setPreserveText] = useState(DEFAULT_EXTREME_OPTIONS.preserveText);
+  const [targetDpi, setTargetDpi] = useState(DEFAULT_BALANCED_OPTIONS.targetDpi);
+  const [jpegQuality, setJpegQuality] = useState(DEFAULT_BALANCED_OPTIONS.jpegQuality);
+  const [targetSizeMb, setTargetSizeMb] = useState(2);
+  const [ghostscriptPresets, setGhostscriptPresets] = useState<GhostscriptPreset[]>(
+    GHOSTSCRIPT_PRESETS.map(({ preset }) => preset)
+  );
+  const [useCustomDownsampling, setUseCustomDownsampling] = useState(false);
+  const [downsampling, setDownsampling] = useState<GhostscriptDownsampling>(DEFAULT_GHOSTSCRIPT_DOWNSAMPLING);
+  const [chainEngines, setChainEngines] = useState(false);
+  const [cleanItems, setCleanItems] = useState<CleanItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressStatus, setProgressStatus] = useState('Compressing your PDF...');
   const [result, setResult] = useState<CompressionResult | null>(null);
   const [partialResults, setPartialResults] = useState<LosslessEngineResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [verifications, setVerifications] = useState<Partial<Record<VerificationKey, VisualDiffState>>>({});
+  const [diffThresholdPercent, setDiffThresholdPercent] = useState(DEFAULT_DIFF_THRESHOLD * 100);
+  const [sizeReport, setSizeReport] = useState<SizeBreakdown | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  const verifyControllerRef = useRef<AbortController | null>(null);
+  const canChain = quality === 'lossless' || quality === 'profiles';
+
+  const clearAnalysis = () => {
+    analysisControllerRef.current?.abort();
+    setSizeReport(null);
+    setAnalysisProgress(null);
+    setAnalysisError(null);
+  };
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+
+    clearAnalysis();
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
+    setAnalysisProgress(0);
+
+    try {
+      setSizeReport(await runPdfJob('analyze-size', { file }, {
+        onProgress: (nextProgress) => setAnalysisProgress(nextProgress),
+        signal: controller.signal,
+      }));
+    } catch (err) {
+      if (!isAbortError(err)) setAnalysisError(err instanceof Error ? err.message : 'Failed to analyze PDF');
+    } finally {
+      if (analysisControllerRef.current === controller) setAnalysisProgress(null);
+    }
+  };
 
   const handleFileSelect = (selectedFile: File) => {
+    clearAnalysis();
     setFile(selectedFile);
     setResult(null);
     setError(null);
@@ -57,9 +161,36 @@ export default function CompressPage() {
     setProgressStatus('Compressing your PDF...');
   };
 
+  const clearVerifications = () => {
+    verifyControllerRef.current?.abort();
+    verifyControllerRef.current = new AbortController();
+    setVerifications({});
+  };
+
+  const runVerification = async (key: VerificationKey, blob: Blob) => {
+    if (!file) return;
+    const signal = verifyControllerRef.current?.signal;
+    const update = (state: VisualDiffState) => setVerifications((current) => ({ ...current, [key]: state }));
+
+    update({ status: 'running', progress: 0, report: null, error: null });
+    try {
+      const report = await verifyCompression(file, blob, {
+        threshold: diffThresholdPercent / 100,
+        onProgress: (nextProgress) => update({ status: 'running', progress: nextProgress, report: null, error: null }),
+        signal,
+      });
+      update({ status: 'done', progress: 100, report, error: null });
+    } catch (err) {
+      // Results were cleared; the render was torn down on purpose.
+      if (signal?.aborted || isAbortError(err)) return;
+      update({ status: 'failed', progress: 0, report: null, error: err instanceof Error ? err.message : null });
+    }
+  };
+
   const handleCompress = async () => {
     if (!file) return;
 
+    clearVerifications();
     setIsProcessing(true);
     setError(null);
     setProgress(0);
@@ -67,39 +198,89 @@ export default function CompressPage() {
     setResult(null);
     setPartialResults([]);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      const compressionResult = await compressPDF(file, {
-        quality,
-        compressionLevel: quality === 'extreme' ? compressionLevel : undefined,
-        onProgress: (nextProgress, status) => {
-          setProgress(nextProgress);
-          if (status) setProgressStatus(status);
-        },
-        onEngineResult: (engineResult) => {
-          setPartialResults((prev) => [...prev, engineResult]);
+      const compressionResult = await runPdfJob(
+        'compress',
+        {
+          file,
+          options: {
+            quality,
+            compressionLevel: quality === 'extreme' ? compressionLevel : undefined,
+            rasterDpi: quality === 'extreme' ? rasterDpi : undefined,
+            colorMode: quality === 'extreme' ? colorMode : undefined,
+            preserveText: quality === 'extreme' ? preserveText : undefined,
+            targetDpi: quality === 'balanced' ? targetDpi : undefined,
+            jpegQuality: quality === 'balanced' ? jpegQuality : undefined,
+            targetSize: quality === 'target' ? Math.round(targetSizeMb * 1024 * 1024) : undefined,
+            ghostscriptPresets: quality === 'profiles' ? ghostscriptPresets : undefined,
+            customDownsampling: quality === 'profiles' && useCustomDownsampling ? downsampling : undefined,
+            chainEngines: canChain ? chainEngines : undefined,
+            clean: cleanItems.length > 0 ? cleanItems : undefined,
+          },
         },
-      });
+        {
+          onProgress: (nextProgress, status) => {
+            setProgress(nextProgress);
+            if (status) setProgressStatus(status);
+          },
+          onEvent: (engineResult) => {
+            setPartialResults((prev) => [...prev, engineResult]);
+          },
+          onEngineState: (engineState) => {
+            if (engineState.status === 'loading') {
+              setProgressStatus(`Loading ${ENGINE_LABELS[engineState.engine]} engine... ${engineState.progress}%`);
+            }
+          },
+          signal: controller.signal,
+        }
+      );
 
       setResult(compressionResult);
+      void runVerification('result', compressionResult.blob);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to compress PDF');
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to compress PDF');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const togglePreset = (preset: GhostscriptPreset) => {
+    setGhostscriptPresets((current) =>
+      current.includes(preset) ? current.filter((entry) => entry !== preset) : [...current, preset]
+    );
+  };
+
+  const toggleCleanItem = (item: CleanItem) => {
+    setCleanItems((current) =>
+      current.includes(item) ? current.filter((entry) => entry !== item) : [...current, item]
+    );
+  };
+
+  // A target-size result is saved as measured; linearizing could push it over the target
   const handleDownloadBest = () => {
-    if (result) {
-      downloadBlob(result.blob, result.fileName);
+    if (!result) return;
+    if (result.target) {
+      downloadMeasuredPdf(result.blob, result.fileName);
+    } else {
+      void downloadPdf(result.blob, result.fileName);
     }
   };
 
   const handleDownloadEngine = (engineResult: LosslessEngineResult) => {
     if (!isSuccessful(engineResult)) return;
-    downloadBlob(engineResult.blob, engineResult.fileName);
+    void downloadPdf(engineResult.blob, engineResult.fileName);
   };
 
   const handleReset = () => {
+    clearVerifications();
+    clearAnalysis();
     setFile(null);
     setResult(null);
     setPartialResults([]);
@@ -109,6 +290,7 @@ export default function CompressPage() {
   };
 
   const handleTryAgain = () => {
+    clearVerifications();
     setResult(null);
     setPartialResults([]);
     setError(null);
@@ -120,7 +302,17 @@ export default function CompressPage() {
 
   // Determine which engines have completed and which are still pending
   const completedEngines = new Set(partialResults.map((r) => r.engine));
-  const showLiveResults = isProcessing && quality === 'lossless' && partialResults.length > 0;
+  const showsEngineTable = quality === 'lossless' || quality === 'target' || quality === 'profiles';
+  const showLiveResults = isProcessing && showsEngineTable && partialResults.length > 0;
+  const expectedEngines = quality === 'profiles'
+    ? [
+      ...ALL_LOSSLESS_ENGINES,
+      ...GHOSTSCRIPT_PRESETS
+        .filter(({ preset }) => ghostscriptPresets.includes(preset))
+        .map(({ preset, label }) => ({ engine: `gs-${preset}` as const, label })),
+      ...(useCustomDownsampling ? [{ engine: 'gs-custom' as const, label: getCustomDownsamplingLabel(downsampling) }] : []),
+    ]
+    : ALL_LOSSLESS_ENGINES;
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-12">
@@ -139,10 +331,45 @@ export default function CompressPage() {
 
         {file && !result && !isProcessing && (
           <div className="bg-gray-50 rounded-2xl p-6">
+            <div className="mb-6">
+              <PresetBar
+                scope="compress"
+                value={{
+                  quality,
+                  compressionLevel,
+                  rasterDpi,
+                  colorMode,
+                  preserveText,
+                  ghostscriptPresets,
+                  customDownsampling: useCustomDownsampling ? downsampling : undefined,
+                  chainEngines,
+                  clean: cleanItems,
+                  targetDpi,
+                  jpegQuality,
+                  targetSize: Math.round(targetSizeMb * 1024 * 1024),
+                }}
+                onApply={({ options }) => {
+                  setQuality(options.quality);
+                  if (options.compressionLevel !== undefined) setCompressionLevel(options.compressionLevel);
+                  if (options.rasterDpi !== undefined) setRasterDpi(options.rasterDpi);
+                  if (options.colorMode !== undefined) setColorMode(options.colorMode);
+                  if (options.preserveText !== undefined) setPreserveText(options.preserveText);
+                  if (options.ghostscriptPresets !== undefined) setGhostscriptPresets(options.ghostscriptPresets);
+                  setUseCustomDownsampling(options.customDownsampling !== undefined);
+                  if (options.customDownsampling !== undefined) setDownsampling(options.customDownsampling);
+                  if (options.targetDpi !== undefined) setTargetDpi(options.targetDpi);
+                  if (options.jpegQuality !== undefined) setJpegQuality(options.jpegQuality);
+                  setChainEngines(options.chainEngines ?? false);
+                  setCleanItems(options.clean ?? []);
+                  if (options.targetSize !== undefined) setTargetSizeMb(Math.round((options.targetSize / (1024 * 1024)) * 10) / 10);
+                }}
+              />
+            </div>
+
             <h3 className="font-black text-lg mb-4">Compression Quality</h3>
 
-            <div className="grid grid-cols-2 gap-4">
-              {(['lossless', 'extreme'] as Quality[]).map((q) => (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+              {(['lossless', 'balanced', 'extreme', 'target', 'profiles'] as CompressionQuality[]).map((q) => (
                 <button
                   key={q}
                   onClick={() => setQuality(q)}
@@ -151,7 +378,7 @@ export default function CompressPage() {
                     ${quality === q ? 'border-black bg-black text-white' : 'border-gray-200 hover:border-black'}
                   `}
                 >
-                  <div className="font-black text-lg capitalize">{q}</div>
+                  <div className="font-black text-lg capitalize">{qualityLabel(q)}</div>
                   <div className={`text-sm ${quality === q ? 'text-gray-300' : 'text-gray-500'}`}>
                     {qualityDescription(q)}
                   </div>
@@ -159,33 +386,239 @@ export default function CompressPage() {
               ))}
             </div>
 
-            {quality === 'extreme' && (
-              <div className="mt-6 p-4 bg-gray-100 rounded-xl">
-                <div className="flex justify-between items-center mb-2">
-                  <label className="font-bold text-sm text-gray-700">Compression Level</label>
-                  <span className="font-bold text-sm bg-black text-white px-2 py-1 rounded">{compressionLevel}%</span>
+            {canChain && (
+              <label className="mt-6 flex items-start gap-3 p-4 bg-gray-100 rounded-xl cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={chainEngines}
+                  onChange={(event) => setChainEngines(event.target.checked)}
+                  className="w-5 h-5 mt-0.5 accent-black"
+                />
+                <span>
+                  <span className="block font-bold text-sm text-gray-700">Chain engines</span>
+                  <span className="block text-xs text-gray-500">
+                    Run the other lossless engines on the best output, again and again until it stops shrinking. Slower, often smaller.
+                  </span>
+                </span>
+              </label>
+            )}
+
+            {quality === 'balanced' && (
+              <div className="mt-6 p-4 bg-gray-100 rounded-xl space-y-4">
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="font-bold text-sm text-gray-700">Image Resolution</label>
+                    <span className="font-bold text-sm bg-black text-white px-2 py-1 rounded">{targetDpi} DPI</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="72"
+                    max="300"
+                    step="6"
+                    value={targetDpi}
+                    onChange={(event) => setTargetDpi(Number(event.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-black"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>Smaller File</span>
+                    <span>Sharper Images</span>
+                  </div>
+                </div>
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="font-bold text-sm text-gray-700">JPEG Quality</label>
+                    <span className="font-bold text-sm bg-black text-white px-2 py-1 rounded">{jpegQuality}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="10"
+                    max="95"
+                    value={jpegQuality}
+                    onChange={(event) => setJpegQuality(Number(event.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-black"
+                  />
                 </div>
+                <p className="text-xs text-gray-500">Only images shown above this resolution are re-encoded. Text, fonts, and vector graphics stay as they are.</p>
+              </div>
+            )}
+
+            {quality === 'target' && (
+              <div className="mt-6 p-4 bg-gray-100 rounded-xl">
+                <label htmlFor="target-size" className="block font-bold text-sm text-gray-700 mb-2">Maximum File Size (MB)</label>
                 <input
-                  type="range"
-                  min="1"
-                  max="99"
-                  value={compressionLevel}
-                  onChange={(event) => setCompressionLevel(Number(event.target.value))}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-black"
+                  id="target-size"
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={targetSizeMb}
+                  onChange={(event) => setTargetSizeMb(Number(event.target.value))}
+                  className="w-full px-4 py-3 font-bold border-2 border-gray-200 rounded-lg focus:border-black focus:outline-none"
                 />
-                <div className="flex justify-between text-xs text-gray-500 mt-1">
-                  <span>Lower Compression</span>
-                  <span>Higher Compression</span>
+                <p className="text-xs text-gray-500 mt-2">
+                  Lossless engines are tried first. If none fits, images are downsampled step by step until the file fits.
+                  The result is downloaded as measured, without fast web view.
+                  Currently {formatBytes(file.size)}.
+                </p>
+              </div>
+            )}
+
+            {quality === 'profiles' && (
+              <div className="mt-6 p-4 bg-gray-100 rounded-xl space-y-4">
+                <div>
+                  <label className="block font-bold text-sm text-gray-700 mb-2">Ghostscript Profiles</label>
+                  <div className="grid sm:grid-cols-2 gap-2">
+                    {GHOSTSCRIPT_PRESETS.map(({ preset, label, description }) => (
+                      <label key={preset} className="flex items-start gap-3 p-3 bg-white rounded-lg border-2 border-gray-200 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={ghostscriptPresets.includes(preset)}
+                          onChange={() => togglePreset(preset)}
+                          className="w-5 h-5 mt-0.5 accent-black"
+                        />
+                        <span>
+                          <span className="block font-bold text-sm">{label}</span>
+                          <span className="block text-xs text-gray-500">{description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-3 font-bold text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={useCustomDownsampling}
+                      onChange={(event) => setUseCustomDownsampling(event.target.checked)}
+                      className="w-5 h-5 accent-black"
+                    />
+                    Custom downsampling
+                  </label>
+                  {useCustomDownsampling && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mt-3">
+                      {DOWNSAMPLING_FIELDS.map(({ key, label, step }) => (
+                        <label key={key} className="block">
+                          <span className="block text-xs font-bold text-gray-500 mb-1">{label}</span>
+                          <input
+                            type="number"
+                            min={step}
+                            step={step}
+                            value={downsampling[key]}
+                            onChange={(event) => setDownsampling((current) => ({ ...current, [key]: Number(event.target.value) }))}
+                            className="w-full px-3 py-2 font-bold border-2 border-gray-200 rounded-lg focus:border-black focus:outline-none"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Profiles downsample and re-encode images, so they are lossy. They are ranked together with the lossless engines.
+                </p>
+              </div>
+            )}
+
+            {quality === 'extreme' && (
+              <div className="mt-6 p-4 bg-gray-100 rounded-xl space-y-4">
+                <div>
+                  <label className="block font-bold text-sm text-gray-700 mb-2">Resolution</label>
+                  <div className="flex flex-wrap gap-2">
+                    {RASTER_DPI_OPTIONS.map((dpi) => (
+                      <button
+                        key={dpi}
+                        onClick={() => setRasterDpi(dpi)}
+                        className={`px-3 py-1 rounded-lg border-2 font-bold text-sm ${rasterDpi === dpi ? 'border-black bg-black text-white' : 'border-gray-200 bg-white hover:border-black'}`}
+                      >
+                        {dpi} DPI
+                      </button>
+                    ))}
+                  </div>
                 </div>
+
+                <div>
+                  <label className="block font-bold text-sm text-gray-700 mb-2">Color</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {COLOR_MODES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setColorMode(value)}
+                        className={`px-3 py-2 rounded-lg border-2 font-bold text-sm ${colorMode === value ? 'border-black bg-black text-white' : 'border-gray-200 bg-white hover:border-black'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {colorMode === 'bitonal' && (
+                    <p className="text-xs text-gray-500 mt-2">1-bit fax encoding, best for scanned text. Use 150 DPI or more to keep it legible.</p>
+                  )}
+                </div>
+
+                {colorMode !== 'bitonal' && (
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="font-bold text-sm text-gray-700">Compression Level</label>
+                      <span className="font-bold text-sm bg-black text-white px-2 py-1 rounded">{compressionLevel}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="99"
+                      value={compressionLevel}
+                      onChange={(event) => setCompressionLevel(Number(event.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-black"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>Lower Compression</span>
+                      <span>Higher Compression</span>
+                    </div>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-3 font-bold text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={preserveText}
+                    onChange={(event) => setPreserveText(event.target.checked)}
+                    className="w-5 h-5 accent-black"
+                  />
+                  Keep text searchable (invisible text layer)
+                </label>
               </div>
             )}
 
+            <div className="mt-6 p-4 bg-gray-100 rounded-xl">
+              <h4 className="font-bold text-sm text-gray-700">Remove Before Compressing</h4>
+              <p className="text-xs text-gray-500 mb-3">Content the pages do not need to display. Only checked items are removed.</p>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {CLEAN_ITEMS.map(({ item, label, description }) => (
+                  <label key={item} className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={cleanItems.includes(item)}
+                      onChange={() => toggleCleanItem(item)}
+                      className="w-5 h-5 mt-0.5 accent-black"
+                    />
+                    <span>
+                      <span className="block font-bold text-sm text-gray-700">{label}</span>
+                      <span className="block text-xs text-gray-500">{description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <button
               onClick={handleCompress}
+              disabled={
+                (quality === 'target' && !(targetSizeMb > 0)) ||
+                (quality === 'profiles' && ghostscriptPresets.length === 0 && !useCustomDownsampling)
+              }
               className="
                 w-full mt-6 py-4 px-8 bg-black text-white font-black text-xl
                 rounded-xl hover:bg-gray-800 transition-all duration-200
                 hover:scale-[1.02] active:scale-[0.98]
+                disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100
               "
             >
               Compress PDF
@@ -193,9 +626,29 @@ export default function CompressPage() {
           </div>
         )}
 
+        {file && !result && !isProcessing && (
+          <div className="bg-gray-50 rounded-2xl p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div>
+                <h3 className="font-black text-lg">What Takes Space?</h3>
+                <p className="text-sm text-gray-500">Break {formatBytes(file.size)} down into images, fonts, content, metadata and more.</p>
+              </div>
+              <button
+                onClick={handleAnalyze}
+                disabled={analysisProgress !== null}
+                className="px-4 py-2 border-2 border-black font-bold rounded-lg hover:bg-gray-100 disabled:opacity-50"
+              >
+                {analysisProgress !== null ? `Analyzing... ${analysisProgress}%` : sizeReport ? 'Analyze Again' : 'Analyze'}
+              </button>
+            </div>
+            {analysisError && <p className="text-sm text-red-600">{analysisError}</p>}
+            {sizeReport && <SizeBreakdownReport report={sizeReport} fileName={file.name} />}
+          </div>
+        )}
+
         {isProcessing && (
           <div className="bg-gray-50 rounded-2xl p-8">
-            <ProgressIndicator progress={progress} status={progressStatus} />
+            <ProgressIndicator progress={progress} status={progressStatus} onCancel={handleCancel} />
           </div>
         )}
 
@@ -203,7 +656,7 @@ export default function CompressPage() {
           <div className="bg-gray-50 rounded-2xl p-8">
             <h3 className="font-black text-xl mb-4">Engine Results (live)</h3>
             <div className="space-y-3">
-              {ALL_LOSSLESS_ENGINES.map(({ engine, label }) => {
+              {expectedEngines.map(({ engine, label }) => {
                 const engineResult = partialResults.find((r) => r.engine === engine);
                 const pending = !completedEngines.has(engine);
 
@@ -282,7 +735,7 @@ export default function CompressPage() {
           <div className="bg-gray-50 rounded-2xl p-8">
             <h3 className="font-black text-2xl mb-2 text-center">Compression Complete!</h3>
 
-            {bestResult && result.engine !== 'extreme' && (
+            {bestResult && quality === 'lossless' && !result.chain && (
               <p className="text-center text-gray-600 mb-6">
                 Best result: <span className="font-black">{bestResult.label}</span>
               </p>
@@ -312,13 +765,105 @@ export default function CompressPage() {
               )}
             </div>
 
-            {quality === 'lossless' && (
+            <div className="mb-8 p-4 rounded-xl border-2 border-gray-200 bg-white space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h4 className="font-black text-lg">Visual Check</h4>
+                <div className="flex items-center gap-2 text-sm">
+                  <label htmlFor="diff-threshold" className="font-bold text-gray-700">Flag pages over</label>
+                  <input
+                    id="diff-threshold"
+                    type="number"
+                    min="0.1"
+                    max="100"
+                    step="0.5"
+                    value={diffThresholdPercent}
+                    onChange={(event) => setDiffThresholdPercent(Number(event.target.value))}
+                    className="w-20 px-2 py-1 font-bold border-2 border-gray-200 rounded-lg focus:border-black focus:outline-none"
+                  />
+                  <span className="font-bold text-gray-700">% changed</span>
+                  <button
+                    onClick={() => void runVerification('result', result.blob)}
+                    disabled={verifications.result?.status === 'running'}
+                    className="px-3 py-1 border-2 border-black font-bold rounded-lg hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Check Again
+                  </button>
+                </div>
+              </div>
+              {verifications.result && <VisualDiffPreview state={verifications.result} />}
+            </div>
+
+            {result.chain && (
+              <div className="mb-8 p-4 rounded-xl border-2 border-green-300 bg-white">
+                <div className="font-black text-lg">
+                  {result.chain.length > 1 ? `Chained ${result.chain.length} engines` : 'Chaining found no further gain'}
+                </div>
+                <ol className="mt-3 space-y-1 text-sm text-gray-600 list-decimal list-inside">
+                  {result.chain.map((step) => (
+                    <li key={step.engine}>
+                      {step.label}: {formatBytes(step.compressedSize)}{' '}
+                      ({formatDeltaLabel(getCompressionPercent(result.originalSize, step.compressedSize))})
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {result.clean && (
+              <div className="mb-8 p-4 rounded-xl border-2 border-green-300 bg-white">
+                <div className="font-black text-lg">
+                  {result.clean.bytesSaved > 0
+                    ? `Removed ${formatBytes(result.clean.bytesSaved)} before compressing`
+                    : 'Nothing to remove'}
+                </div>
+                <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                  {result.clean.removed.map((entry) => (
+                    <li key={entry.item}>
+                      {CLEAN_ITEMS.find(({ item }) => item === entry.item)?.label}:{' '}
+                      {entry.count > 0 ? `${entry.count} removed, ${formatBytes(entry.bytes)}` : 'none found'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.target && (
+              <div
+                className={`mb-8 p-4 rounded-xl border-2 ${result.target.reached ? 'border-green-300 bg-white' : 'border-yellow-300 bg-yellow-50'}`}
+              >
+                <div className="font-black text-lg">
+                  {result.target.reached
+                    ? `Fits in ${formatBytes(result.target.targetSize)}`
+                    : `Could not get under ${formatBytes(result.target.targetSize)}`}
+                </div>
+                <div className="text-sm text-gray-600">
+                  {result.target.settings
+                    ? `Images downsampled to ${result.target.settings.targetDpi} DPI at JPEG quality ${result.target.settings.jpegQuality}`
+                    : `Lossless output from ${bestResult?.label ?? result.engine}, no quality lost`}
+                  {!result.target.reached && ' — this is the smallest output found.'}
+                </div>
+                {result.target.attempts.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-gray-500">
+                    {result.target.attempts.map((attempt) => (
+                      <li key={`${attempt.settings.targetDpi}-${attempt.settings.jpegQuality}`}>
+                        {attempt.settings.targetDpi} DPI, JPEG {attempt.settings.jpegQuality}: {formatBytes(attempt.compressedSize)}{' '}
+                        {attempt.fits ? '(fits)' : '(too large)'}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {showsEngineTable && (
               <div className="mb-8">
-                <h4 className="font-black text-lg mb-4">Lossless Engine Results (best first)</h4>
+                <h4 className="font-black text-lg mb-4">
+                  {quality === 'profiles' ? 'Engine Results (smallest first)' : 'Lossless Engine Results (best first)'}
+                </h4>
                 <div className="space-y-3">
                   {result.engineResults.map((engineResult, index) => {
                     const successful = isSuccessful(engineResult);
-                    const isBest = index === 0 && successful;
+                    const isBest = index === 0 && successful && result.engine === engineResult.engine;
 
                     return (
                       <div
@@ -330,6 +875,11 @@ export default function CompressPage() {
                           <div>
                             <div className="font-black text-lg">
                               {engineResult.label} {isBest ? '(Best)' : ''}
+                              {isLossyEngine(engineResult.engine) && (
+                                <span className="ml-2 align-middle text-xs font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-yellow-100 text-yellow-700">
+                                  Lossy
+                                </span>
+                              )}
                             </div>
                             {successful ? (
                               <div className="text-sm text-gray-600">
@@ -346,14 +896,28 @@ export default function CompressPage() {
                           </div>
 
                           {successful && (
-                            <button
-                              onClick={() => handleDownloadEngine(engineResult)}
-                              className="px-4 py-2 border-2 border-black font-bold rounded-lg hover:bg-gray-100 transition-colors"
-                            >
-                              Download
-                            </button>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => void runVerification(engineResult.engine, engineResult.blob)}
+                                disabled={verifications[engineResult.engine]?.status === 'running'}
+                                className="px-4 py-2 border-2 border-gray-300 font-bold rounded-lg hover:border-black transition-colors disabled:opacity-50"
+                              >
+                                Compare
+                              </button>
+                              <button
+                                onClick={() => handleDownloadEngine(engineResult)}
+                                className="px-4 py-2 border-2 border-black font-bold rounded-lg hover:bg-gray-100 transition-colors"
+                              >
+                                Download
+                              </button>
+                            </div>
                           )}
                         </div>
+                        {verifications[engineResult.engine] && (
+                          <div className="mt-4">
+                            <VisualDiffPreview state={verifications[engineResult.engine]!} />
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -395,6 +959,8 @@ export default function CompressPage() {
             </div>
           </div>
         )}
+
+        <SaveOptionsPanel />
       </div>
     </div>
   );
@@ -1,51 +1,51 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
 import { Link } from 'react-router-dom';
+import { Shield, Zap, Globe, Award, Play, Upload, Download } from 'lucide-react';
+import { TOOL_CATEGORIES } from '../components/tool-catalog';
 import {
-    Shield, Zap, Globe, Award,
-    Merge, Scissors, Minimize2, Trash2, GripVertical, RotateCw,
-    Image, FileImage,
-    Hash, Droplets,
-    // Wrench, Lock, Unlock, PenTool, FileCheck,
-} from 'lucide-react';
+    exportPresets,
+    getPresetRoute,
+    importPresets,
+    listPresets,
+    PRESET_TOOLS,
+    type Preset,
+} from '../lib/presets';
+import { downloadBlob } from '../lib/shared';
 
-const toolCategories = [
-    {
-        name: 'Organize & Manage',
-        tools: [
-            { name: 'Merge PDF', route: '/merge-pdf', icon: Merge, description: 'Combine multiple PDFs into one' },
-            { name: 'Split PDF', route: '/split-pdf', icon: Scissors, description: 'Separate one PDF into multiple files' },
-            { name: 'Remove Pages', route: '/remove-pages', icon: Trash2, description: 'Delete specific pages from a file' },
-            { name: 'Organize PDF', route: '/organize-pdf', icon: GripVertical, description: 'Sort, add, and delete PDF pages' },
-            { name: 'Rotate PDF', route: '/rotate-pdf', icon: RotateCw, description: 'Rotate pages within a document' },
-        ],
-    },
-    {
-        name: 'Optimize',
-        tools: [
-            { name: 'Compress PDF', route: '/compress-pdf', icon: Minimize2, description: 'Reduce the file size of your PDF' },
-            // { name: 'Repair PDF', route: '/repair-pdf', icon: Wrench, description: 'Recover data from a corrupted PDF' },
-        ],
-    },
-    {
-        name: 'Convert',
-        tools: [
-            { name: 'JPG to PDF', route: '/jpg-to-pdf', icon: Image, description: 'Convert images to PDF' },
-            { name: 'PDF to JPG', route: '/pdf-to-jpg', icon: FileImage, description: 'Save pages as images' },
-            // { name: 'PDF to PDF/A', route: '/convert-pdf-to-pdfa', icon: FileCheck, description: 'Convert to archival format' },
-        ],
-    },
-    {
-        name: 'Edit & Security',
-        tools: [
-            { name: 'Add Page Numbers', route: '/add-pdf-page-number', icon: Hash, description: 'Add numbering to pages' },
-            { name: 'Add Watermark', route: '/pdf-add-watermark', icon: Droplets, description: 'Stamp text or images over PDF' },
-            // { name: 'Sign PDF', route: '/sign-pdf', icon: PenTool, description: 'Add a digital signature' },
-            // { name: 'Protect PDF', route: '/protect-pdf', icon: Lock, description: 'Add password protection' },
-            // { name: 'Unlock PDF', route: '/unlock-pdf', icon: Unlock, description: 'Remove password security' },
-        ],
-    },
-];
+function presetDescription(preset: Preset): string {
+    if (preset.type === 'tool') return PRESET_TOOLS[preset.tool].label;
+    return `Recipe · ${preset.steps.length} step${preset.steps.length === 1 ? '' : 's'}`;
+}
 
 export default function HomePage() {
+    const [presets, setPresets] = useState<Preset[]>([]);
+    const [presetError, setPresetError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        listPresets()
+            .then(setPresets)
+            .catch((err) => setPresetError(err instanceof Error ? err.message : 'Failed to load presets'));
+    }, []);
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const importFile = event.target.files?.[0];
+        event.target.value = '';
+        if (!importFile) return;
+
+        setPresetError(null);
+        try {
+            await importPresets(importFile);
+            setPresets(await listPresets());
+        } catch (err) {
+            setPresetError(err instanceof Error ? err.message : 'Failed to import presets');
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(exportPresets(presets), 'mydevicemypdf-presets.json');
+    };
+
     return (
         <>
             {/* Hero Section */}
@@ -68,10 +68,59 @@ export default function HomePage() {
                 </div>
             </section>
 
+            {/* Saved Presets */}
+            <section className="py-6">
+                <div className="max-w-6xl mx-auto px-4">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                        <h2 className="text-3xl font-black tracking-tight">Run a Preset</h2>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 transition-colors"
+                            >
+                                <Upload className="w-4 h-4" /> Import
+                            </button>
+                            <button
+                                onClick={handleExport}
+                                disabled={presets.length === 0}
+                                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <Download className="w-4 h-4" /> Export
+                            </button>
+                            <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                        </div>
+                    </div>
+
+                    {presetError && <p className="mb-4 font-bold text-red-600">{presetError}</p>}
+
+                    {presets.length === 0 ? (
+                        <p className="text-gray-500">
+                            Save settings from Add Page Numbers, Add Watermark, Compress PDF or the PDF Pipeline to run them again from here.
+                        </p>
+                    ) : (
+                        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {presets.map((preset) => (
+                                <Link
+                                    key={preset.id}
+                                    to={getPresetRoute(preset)}
+                                    className="flex items-start gap-4 p-4 bg-white border-4 border-black rounded-lg hover:-translate-y-1 hover:shadow-[0_6px_0_#000] active:translate-y-0 active:shadow-none transition-all"
+                                >
+                                    <Play className="w-6 h-6 text-black shrink-0 mt-0.5" />
+                                    <div className="min-w-0">
+                                        <h3 className="font-black truncate">{preset.name}</h3>
+                                        <p className="text-gray-500 text-sm">{presetDescription(preset)}</p>
+                                    </div>
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </section>
+
             {/* Tool Categories */}
             <section className="py-12">
                 <div className="max-w-6xl mx-auto px-4 space-y-16">
-                    {toolCategories.map((category) => (
+                    {TOOL_CATEGORIES.map((category) => (
                         <div key={category.name}>
                             <h2 className="text-3xl font-black mb-8 tracking-tight">{category.name}</h2>
                             <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -1,7 +1,10 @@
-import { useState, type DragEvent } from 'react';
+import { useRef, useState, type DragEvent } from 'react';
 import ToolPageTemplate from '../components/ToolPageTemplate';
 import ProgressIndicator from '../components/ProgressIndicator';
-import { imagesToPdf, downloadBlob, PAGE_SIZES, type PageSizeKey } from '../lib/pdf-images';
+import { downloadPdf } from '../lib/pdf-download';
+import { PAGE_SIZES, type PageSizeKey } from '../lib/pdf-images';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 import { GripVertical, Trash2, ImagePlus } from 'lucide-react';
 
 export default function JpgToPdfPage() {
@@ -12,6 +15,7 @@ export default function JpgToPdfPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
@@ -75,19 +79,26 @@ export default function JpgToPdfPage() {
         setIsProcessing(true);
         setProgress(0);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
-            const blob = await imagesToPdf(files, pageSize, setProgress);
+            const blob = await runPdfJob('images-to-pdf', { files, pageSize }, { onProgress: setProgress, signal: controller.signal });
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to convert images');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to convert images');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result) return;
-        downloadBlob(result, 'images_to_pdf.pdf');
+        void downloadPdf(result, 'images_to_pdf.pdf');
     };
 
     const handleReset = () => {
@@ -190,7 +201,7 @@ export default function JpgToPdfPage() {
                 </>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Converting images..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Converting images..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
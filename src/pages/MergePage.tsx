@@ -1,8 +1,12 @@
 
-import { useState, type DragEvent } from 'react';
+import { useRef, useState, type DragEvent } from 'react';
 import MultiFileDropzone from '../components/MultiFileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
-import { mergePdfs, downloadBlob, formatBytes } from '../lib/pdf-merge';
+import SaveOptionsPanel from '../components/SaveOptionsPanel';
+import { downloadPdf } from '../lib/pdf-download';
+import { formatBytes } from '../lib/pdf-merge';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 
 export default function MergePage() {
     const [files, setFiles] = useState<File[]>([]);
@@ -10,6 +14,7 @@ export default function MergePage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<{ blob: Blob; size: number } | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
@@ -92,23 +97,30 @@ export default function MergePage() {
         setProgress(0);
         setResult(null);
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
-            const mergedBlob = await mergePdfs(files, setProgress);
+            const mergedBlob = await runPdfJob('merge', { files }, { onProgress: setProgress, signal: controller.signal });
             setResult({
                 blob: mergedBlob,
                 size: mergedBlob.size
             });
             setProgress(100);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to merge PDFs');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to merge PDFs');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result) return;
-        downloadBlob(result.blob, 'merged.pdf');
+        void downloadPdf(result.blob, 'merged.pdf');
     };
 
     const handleReset = () => {
@@ -225,7 +237,7 @@ export default function MergePage() {
                 {/* Progress */}
                 {isProcessing && (
                     <div className="bg-gray-50 rounded-2xl p-8">
-                        <ProgressIndicator progress={progress} status="Merging PDFs..." />
+                        <ProgressIndicator progress={progress} status="Merging PDFs..." onCancel={handleCancel} />
                     </div>
                 )}
 
@@ -279,6 +291,8 @@ export default function MergePage() {
                         </button>
                     </div>
                 )}
+
+                <SaveOptionsPanel />
             </div>
         </div>
     );
@@ -0,0 +1,106 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { TOOL_CATEGORIES, type ToolInfo } from '../components/tool-catalog';
+import ToolPageTemplate from '../components/ToolPageTemplate';
+import {
+    clearIncomingFiles,
+    getIncomingFiles,
+    handOffFiles,
+    loadSharedFiles,
+    subscribeIncomingFiles,
+} from '../lib/file-handoff';
+import { formatBytes } from '../lib/shared';
+
+const PDF_TOOLS = TOOL_CATEGORIES.flatMap(category => category.tools).filter(tool => tool.input !== 'images');
+
+export default function OpenFilePage() {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const incoming = useSyncExternalStore(subscribeIncomingFiles, getIncomingFiles);
+    const isShare = searchParams.get('source') === 'share';
+    const [isLoadingShare, setIsLoadingShare] = useState(isShare);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isShare) return;
+        loadSharedFiles()
+            .catch((err) => setError(err instanceof Error ? err.message : 'Failed to read the shared files'))
+            .finally(() => setIsLoadingShare(false));
+    }, [isShare]);
+
+    const { files } = incoming;
+    const isMultiple = files.length > 1;
+
+    const handleChoose = (tool: ToolInfo) => {
+        handOffFiles(tool.route);
+        navigate(tool.route);
+    };
+
+    const handleDiscard = () => {
+        clearIncomingFiles();
+        navigate('/');
+    };
+
+    return (
+        <ToolPageTemplate title="Open PDF" description="Pick a tool for the file you opened." saveOptions={false}>
+            {isLoadingShare && (
+                <p className="text-center font-bold text-gray-500 uppercase tracking-wide text-sm">Receiving shared files...</p>
+            )}
+
+            {error && (
+                <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
+                    <p className="font-bold text-red-600">{error}</p>
+                </div>
+            )}
+
+            {!isLoadingShare && files.length === 0 && (
+                <div className="text-center p-8 bg-gray-50 border-4 border-gray-200 rounded-lg">
+                    <p className="text-gray-600 mb-6">
+                        No file was received. Open a PDF with MyDeviceMyPDF from your file manager, or share one to it.
+                    </p>
+                    <Link to="/" className="px-8 py-4 font-bold uppercase tracking-wide border-4 border-black rounded-lg hover:bg-gray-100 transition-all">
+                        All Tools
+                    </Link>
+                </div>
+            )}
+
+            {files.length > 0 && (
+                <>
+                    <div className="p-6 bg-gray-50 border-4 border-gray-200 rounded-lg space-y-2">
+                        <div className="flex justify-between items-center mb-2">
+                            <h3 className="font-black text-lg">{isMultiple ? `Files (${files.length})` : 'File'}</h3>
+                            <button onClick={handleDiscard} className="text-sm font-bold text-red-600 hover:text-red-700">Discard</button>
+                        </div>
+                        {files.map((file, index) => (
+                            <div key={`${file.name}-${index}`} className="flex items-center gap-3 bg-white p-3 rounded-lg border-2 border-gray-100">
+                                <span className="flex-1 min-w-0 font-bold truncate">{file.name}</span>
+                                <span className="text-xs text-gray-500">{formatBytes(file.size)}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div>
+                        <h3 className="font-black text-lg mb-4">Choose a Tool</h3>
+                        <div className="grid sm:grid-cols-2 gap-4">
+                            {PDF_TOOLS.map(tool => (
+                                <button
+                                    key={tool.route}
+                                    onClick={() => handleChoose(tool)}
+                                    className="group flex items-start gap-4 p-6 text-left bg-white border-4 border-black rounded-lg hover:-translate-y-1 hover:shadow-[0_6px_0_#000] active:translate-y-0 active:shadow-none transition-all"
+                                >
+                                    <tool.icon className="w-8 h-8 text-black shrink-0 mt-0.5" />
+                                    <div>
+                                        <h4 className="font-black text-lg">{tool.name}</h4>
+                                        <p className="text-gray-500 text-sm mt-1">
+                                            {isMultiple && tool.input === 'pdf' ? 'Uses the first file only' : tool.description}
+                                        </p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </ToolPageTemplate>
+    );
+}
@@ -1,10 +1,12 @@
-import { useEffect, useState, type DragEvent } from 'react';
+import { useEffect, useRef, useState, type DragEvent } from 'react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { reorderPages, removePages, getPdfPageCount, downloadBlob } from '../lib/pdf-pages';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 import { GripVertical, Trash2 } from 'lucide-react';
 
 GlobalWorkerOptions.workerSrc = pdfWorker;
@@ -20,6 +22,7 @@ export default function OrganizePdfPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
@@ -32,7 +35,7 @@ export default function OrganizePdfPage() {
         setResult(null);
         setError(null);
 
-        getPdfPageCount(file)
+        runPdfJob('page-count', { file })
             .then(count => {
                 setPageCount(count);
                 setPageOrder(Array.from({ length: count }, (_, i) => i + 1));
@@ -44,13 +47,17 @@ export default function OrganizePdfPage() {
     // Render thumbnails
     useEffect(() => {
         if (!file || !pageCount) return;
-        let cancelled = false;
+        const controller = new AbortController();
+        const { signal } = controller;
         const render = async () => {
             const fileBytes = new Uint8Array(await file.arrayBuffer());
-            const pdfDoc = await getDocument({ data: fileBytes }).promise;
+            const loadingTask = getDocument({ data: fileBytes });
+            // Destroying the task releases the pdf.js document and stops pending page renders.
+            signal.addEventListener('abort', () => void loadingTask.destroy(), { once: true });
+            const pdfDoc = await loadingTask.promise;
             const max = Math.min(pageCount, 50);
             for (let i = 1; i <= max; i++) {
-                if (cancelled) break;
+                if (signal.aborted) break;
                 try {
                     const page = await pdfDoc.getPage(i);
                     const baseVp = page.getViewport({ scale: 1 });
@@ -63,12 +70,12 @@ export default function OrganizePdfPage() {
                     const ctx = canvas.getContext('2d')!;
                     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
                     await page.render({ canvas, canvasContext: ctx, viewport: vp }).promise;
-                    if (!cancelled) setThumbnails(prev => ({ ...prev, [i]: canvas.toDataURL('image/jpeg', 0.8) }));
+                    if (!signal.aborted) setThumbnails(prev => ({ ...prev, [i]: canvas.toDataURL('image/jpeg', 0.8) }));
                 } catch { /* skip */ }
             }
         };
-        render();
-        return () => { cancelled = true; };
+        render().catch(() => { /* thumbnails are best-effort */ });
+        return () => controller.abort();
     }, [file, pageCount]);
 
     const visiblePages = pageOrder.filter(p => !deletedPages.has(p));
@@ -134,29 +141,36 @@ export default function OrganizePdfPage() {
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             let blob: Blob;
             if (deletedPages.size > 0 && visiblePages.some((p, i) => p !== i + 1)) {
                 // Both reorder and delete: use reorderPages with only visible pages
-                blob = await reorderPages(file, visiblePages);
+                blob = await runPdfJob('reorder-pages', { file, newOrder: visiblePages }, { signal: controller.signal });
             } else if (deletedPages.size > 0) {
-                blob = await removePages(file, Array.from(deletedPages));
+                blob = await runPdfJob('remove-pages', { file, pageNumbers: Array.from(deletedPages) }, { signal: controller.signal });
             } else {
-                blob = await reorderPages(file, visiblePages);
+                blob = await runPdfJob('reorder-pages', { file, newOrder: visiblePages }, { signal: controller.signal });
             }
             setProgress(100);
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to organize PDF');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to organize PDF');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_organized.pdf`);
+        void downloadPdf(result, `${baseName}_organized.pdf`);
     };
 
     const handleReset = () => {
@@ -257,7 +271,7 @@ export default function OrganizePdfPage() {
                 </>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Organizing pages..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Organizing pages..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
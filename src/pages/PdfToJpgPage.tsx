@@ -131,7 +131,7 @@ export default function PdfToJpgPage() {
     const totalSize = images.reduce((sum, img) => sum + img.data.size, 0);
 
     return (
-        <ToolPageTemplate title="PDF to JPG" description="Extract pages from your PDF as high-quality images.">
+        <ToolPageTemplate title="PDF to JPG" description="Extract pages from your PDF as high-quality images." saveOptions={false}>
             {!file && <FileDropzone onFileSelect={setFile} label="Drop your PDF here" />}
 
             {isLoadingPageCount && (
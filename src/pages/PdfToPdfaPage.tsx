@@ -3,34 +3,24 @@ import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
 import { downloadBlob, formatBytes } from '../lib/shared';
-
-// Dynamic mupdf loader (same pattern as pdf-compressor-mupdf.ts)
-let mupdfModule: any = null;
-async function getMupdf() {
-    if (mupdfModule) return mupdfModule;
-    (window as any)["$libmupdf_wasm_Module"] = {
-        locateFile: (path: string, prefix: string) => {
-            if (path.endsWith('.wasm')) return '/mupdf-wasm.wasm';
-            return prefix + path;
-        },
-    };
-    mupdfModule = await import('mupdf');
-    return mupdfModule;
-}
+import { withEngine } from '../lib/wasm-engines';
+import { runPdfJob } from '../lib/worker-pool';
 
 async function convertToPdfa(file: File): Promise<Blob> {
-    const m = await getMupdf();
     const buffer = await file.arrayBuffer();
-    const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
-    const pdfDoc = doc.asPDF();
-    if (!pdfDoc) throw new Error("Failed to open document as PDF");
 
-    // Save with garbage collection and cleanup to produce a clean PDF
-    // MuPDF's save will produce a well-formed document
-    const cleanBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes,linearize=yes");
-    const data = new Uint8Array(cleanBuffer.asUint8Array());
-    cleanBuffer.destroy();
-    return new Blob([data], { type: 'application/pdf' });
+    return withEngine('mupdf', (m) => {
+        const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+        const pdfDoc = doc.asPDF();
+        if (!pdfDoc) throw new Error("Failed to open document as PDF");
+
+        // Save with garbage collection and cleanup to produce a clean PDF
+        // MuPDF's save will produce a well-formed document; it no longer linearizes, QPDF does that next
+        const cleanBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
+        const data = new Uint8Array(cleanBuffer.asUint8Array());
+        cleanBuffer.destroy();
+        return new Blob([data], { type: 'application/pdf' });
+    });
 }
 
 export default function PdfToPdfaPage() {
@@ -47,7 +37,9 @@ export default function PdfToPdfaPage() {
         setError(null);
         try {
             setProgress(30);
-            const blob = await convertToPdfa(file);
+            const cleaned = await convertToPdfa(file);
+            setProgress(70);
+            const { blob } = await runPdfJob('save-pdf', { blob: cleaned, options: { linearize: true } });
             setProgress(100);
             setResult({ blob, originalSize: file.size });
         } catch (err) {
@@ -71,7 +63,7 @@ export default function PdfToPdfaPage() {
     };
 
     return (
-        <ToolPageTemplate title="PDF to PDF/A" description="Convert your PDF to ISO-standardized PDF/A for long-term archiving.">
+        <ToolPageTemplate title="PDF to PDF/A" description="Convert your PDF to ISO-standardized PDF/A for long-term archiving." saveOptions={false}>
             {!file && <FileDropzone onFileSelect={setFile} label="Drop your PDF here" />}
 
             {file && !result && !isProcessing && (
@@ -0,0 +1,213 @@
+import { useRef, useState } from 'react';
+import MultiFileDropzone from '../components/MultiFileDropzone';
+import PipelineStepEditor from '../components/PipelineStepEditor';
+import PresetBar from '../components/PresetBar';
+import ProgressIndicator from '../components/ProgressIndicator';
+import ToolPageTemplate from '../components/ToolPageTemplate';
+import { downloadPdf } from '../lib/pdf-download';
+import {
+    createPipelineStep,
+    formatBytes,
+    PIPELINE_STEP_LABELS,
+    validatePipeline,
+    type PipelineResult,
+    type PipelineStep,
+    type PipelineStepKind,
+} from '../lib/pdf-pipeline';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
+
+const STEP_KINDS = Object.keys(PIPELINE_STEP_LABELS) as PipelineStepKind[];
+
+function defaultSteps(): PipelineStep[] {
+    return [
+        createPipelineStep('merge'),
+        createPipelineStep('remove-pages'),
+        createPipelineStep('add-page-numbers'),
+        createPipelineStep('add-watermark'),
+        createPipelineStep('compress'),
+    ];
+}
+
+export default function PipelinePage() {
+    const [files, setFiles] = useState<File[]>([]);
+    const [steps, setSteps] = useState<PipelineStep[]>(defaultSteps);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [progressStatus, setProgressStatus] = useState('');
+    const [result, setResult] = useState<PipelineResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const validationError = validatePipeline(steps, files.length);
+
+    const handleFilesSelect = (newFiles: File[]) => {
+        setFiles(prev => [...prev, ...newFiles]);
+        setError(null);
+    };
+
+    const removeFile = (index: number) => {
+        setFiles(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const updateStep = (index: number, step: PipelineStep) => {
+        setSteps(prev => prev.map((current, i) => (i === index ? step : current)));
+    };
+
+    const moveStep = (index: number, direction: -1 | 1) => {
+        setSteps(prev => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const removeStep = (index: number) => {
+        setSteps(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const addStep = (kind: PipelineStepKind) => {
+        setSteps(prev => (kind === 'merge' ? [createPipelineStep(kind), ...prev] : [...prev, createPipelineStep(kind)]));
+    };
+
+    const handleRun = async () => {
+        if (validationError) return;
+        setIsProcessing(true);
+        setProgress(0);
+        setProgressStatus('Starting pipeline...');
+        setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        try {
+            const pipelineResult = await runPdfJob('pipeline', { files, steps }, {
+                onProgress: (nextProgress, status) => {
+                    setProgress(nextProgress);
+                    if (status) setProgressStatus(status);
+                },
+                signal: controller.signal,
+            });
+            setResult(pipelineResult);
+        } catch (err) {
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Pipeline failed');
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleDownload = () => {
+        if (!result) return;
+        void downloadPdf(result.blob, result.fileName);
+    };
+
+    const handleReset = () => {
+        setFiles([]);
+        setResult(null);
+        setError(null);
+        setProgress(0);
+    };
+
+    return (
+        <ToolPageTemplate title="PDF Pipeline" description="Chain several tools and get one finished file.">
+            {!result && !isProcessing && (
+                <>
+                    <MultiFileDropzone onFilesSelect={handleFilesSelect} label="Drop your PDFs here" />
+
+                    {files.length > 0 && (
+                        <div className="p-6 bg-gray-50 border-4 border-gray-200 rounded-lg space-y-2">
+                            <h3 className="font-black text-lg mb-2">Input Files ({files.length})</h3>
+                            {files.map((file, index) => (
+                                <div key={`${file.name}-${file.lastModified}-${index}`} className="flex items-center gap-3 bg-white p-3 rounded-lg border-2 border-gray-100">
+                                    <span className="w-8 h-8 flex items-center justify-center bg-gray-100 rounded-lg text-xs font-bold text-gray-500">{index + 1}</span>
+                                    <span className="flex-1 min-w-0 font-bold truncate">{file.name}</span>
+                                    <span className="text-xs text-gray-500">{formatBytes(file.size)}</span>
+                                    <button onClick={() => removeFile(index)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Remove file">✕</button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="space-y-4">
+                        <h3 className="font-black text-lg">Steps</h3>
+                        <PresetBar scope="recipe" value={steps} onApply={(recipe) => setSteps(recipe.steps)} />
+                        {steps.map((step, index) => (
+                            <div key={step.id} className="p-6 bg-white border-4 border-black rounded-lg space-y-4">
+                                <div className="flex items-center gap-3">
+                                    <span className="w-8 h-8 flex items-center justify-center bg-black text-white rounded-lg text-xs font-bold">{index + 1}</span>
+                                    <h4 className="flex-1 font-black">{PIPELINE_STEP_LABELS[step.kind]}</h4>
+                                    <div className="flex bg-gray-100 rounded-lg p-1">
+                                        <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="p-1 hover:bg-white rounded disabled:opacity-30 transition-colors" title="Move Up">↑</button>
+                                        <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="p-1 hover:bg-white rounded disabled:opacity-30 transition-colors" title="Move Down">↓</button>
+                                    </div>
+                                    <button onClick={() => removeStep(index)} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Remove step">✕</button>
+                                </div>
+                                <PipelineStepEditor step={step} onChange={(next) => updateStep(index, next)} />
+                            </div>
+                        ))}
+
+                        <div className="flex flex-wrap gap-2">
+                            {STEP_KINDS.map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => addStep(kind)}
+                                    className="px-4 py-2 text-sm font-bold uppercase tracking-wide border-2 border-black rounded-lg hover:bg-gray-100 transition-colors"
+                                >
+                                    + {PIPELINE_STEP_LABELS[kind]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-4">
+                        <p className="text-sm font-bold text-gray-500">{validationError}</p>
+                        <button
+                            onClick={handleRun}
+                            disabled={validationError !== null}
+                            className="px-6 py-3 font-bold uppercase tracking-wide text-white bg-black border-4 border-black rounded-lg hover:bg-gray-800 hover:-translate-y-0.5 hover:shadow-[0_4px_0_#000] active:translate-y-0 active:shadow-none disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                        >
+                            Run Pipeline
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {isProcessing && <ProgressIndicator progress={progress} status={progressStatus} onCancel={handleCancel} />}
+
+            {error && (
+                <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
+                    <p className="font-bold text-red-600">{error}</p>
+                </div>
+            )}
+
+            {result && (
+                <div className="p-8 bg-green-50 border-4 border-green-500 rounded-lg">
+                    <div className="text-center">
+                        <div className="text-5xl mb-4">✅</div>
+                        <h3 className="text-2xl font-black mb-2">Pipeline Complete!</h3>
+                        <p className="text-gray-600 mb-6">
+                            {formatBytes(result.originalSize)} → {formatBytes(result.blob.size)}
+                        </p>
+                    </div>
+                    <ol className="mb-6 space-y-2">
+                        {result.steps.map((step, index) => (
+                            <li key={index} className="flex justify-between p-3 bg-white border-2 border-gray-200 rounded-lg text-sm">
+                                <span className="font-bold">{index + 1}. {step.label}</span>
+                                <span className="text-gray-500">{step.pageCount} pages · {formatBytes(step.outputSize)}</span>
+                            </li>
+                        ))}
+                    </ol>
+                    <div className="flex gap-4 justify-center">
+                        <button onClick={handleDownload} className="px-8 py-4 font-bold uppercase tracking-wide text-white bg-black border-4 border-black rounded-lg hover:bg-gray-800 hover:-translate-y-0.5 hover:shadow-[0_4px_0_#000] active:translate-y-0 active:shadow-none transition-all">Download PDF</button>
+                        <button onClick={handleReset} className="px-8 py-4 font-bold uppercase tracking-wide border-4 border-black rounded-lg hover:bg-gray-100 transition-all">Process Another</button>
+                    </div>
+                </div>
+            )}
+        </ToolPageTemplate>
+    );
+}
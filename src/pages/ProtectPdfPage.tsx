@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { protectPdf, downloadBlob } from '../lib/pdf-security';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 import { Eye, EyeOff } from 'lucide-react';
 
 export default function ProtectPdfPage() {
@@ -15,6 +17,7 @@ export default function ProtectPdfPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const togglePermission = (key: keyof typeof permissions) => {
         setPermissions(prev => ({ ...prev, [key]: !prev[key] }));
@@ -33,22 +36,29 @@ export default function ProtectPdfPage() {
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(50);
-            const blob = await protectPdf(file, { userPassword: password, permissions });
+            const blob = await runPdfJob('protect', { file, options: { userPassword: password, permissions } }, { signal: controller.signal });
             setProgress(100);
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to protect PDF');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to protect PDF');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_protected.pdf`);
+        void downloadPdf(result, `${baseName}_protected.pdf`);
     };
 
     const handleReset = () => {
@@ -137,7 +147,7 @@ export default function ProtectPdfPage() {
                 </div>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Encrypting PDF..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Encrypting PDF..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
@@ -1,10 +1,12 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { removePages, getPdfPageCount, downloadBlob } from '../lib/pdf-pages';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 
 GlobalWorkerOptions.workerSrc = pdfWorker;
 
@@ -18,6 +20,7 @@ export default function RemovePagesPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<{ blob: Blob; removedCount: number; remainingCount: number } | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         if (!file) return;
@@ -27,7 +30,7 @@ export default function RemovePagesPage() {
         setResult(null);
         setError(null);
 
-        getPdfPageCount(file)
+        runPdfJob('page-count', { file })
             .then(count => setPageCount(count))
             .catch(err => setError(err instanceof Error ? err.message : 'Failed to read PDF'))
             .finally(() => setIsLoadingPageCount(false));
@@ -36,15 +39,19 @@ export default function RemovePagesPage() {
     // Render thumbnails
     useEffect(() => {
         if (!file || !pageCount) return;
-        let cancelled = false;
+        const controller = new AbortController();
+        const { signal } = controller;
 
         const render = async () => {
             const fileBytes = new Uint8Array(await file.arrayBuffer());
-            const pdfDoc = await getDocument({ data: fileBytes }).promise;
+            const loadingTask = getDocument({ data: fileBytes });
+            // Destroying the task releases the pdf.js document and stops pending page renders.
+            signal.addEventListener('abort', () => void loadingTask.destroy(), { once: true });
+            const pdfDoc = await loadingTask.promise;
             const maxPreview = Math.min(pageCount, 50);
 
             for (let i = 1; i <= maxPreview; i++) {
-                if (cancelled) break;
+                if (signal.aborted) break;
                 try {
                     const page = await pdfDoc.getPage(i);
                     const baseVp = page.getViewport({ scale: 1 });
@@ -57,14 +64,14 @@ export default function RemovePagesPage() {
                     const ctx = canvas.getContext('2d')!;
                     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
                     await page.render({ canvas, canvasContext: ctx, viewport: vp }).promise;
-                    if (!cancelled) {
+                    if (!signal.aborted) {
                         setThumbnails(prev => ({ ...prev, [i]: canvas.toDataURL('image/jpeg', 0.8) }));
                     }
                 } catch { /* skip failed thumbnails */ }
             }
         };
-        render();
-        return () => { cancelled = true; };
+        render().catch(() => { /* thumbnails are best-effort */ });
+        return () => controller.abort();
     }, [file, pageCount]);
 
     const allPages = useMemo(() => {
@@ -93,9 +100,12 @@ export default function RemovePagesPage() {
         setProgress(10);
         setError(null);
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(30);
-            const blob = await removePages(file, Array.from(selectedPages));
+            const blob = await runPdfJob('remove-pages', { file, pageNumbers: Array.from(selectedPages) }, { signal: controller.signal });
             setProgress(100);
             setResult({
                 blob,
@@ -103,16 +113,20 @@ export default function RemovePagesPage() {
                 remainingCount: pageCount - selectedPages.size,
             });
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to remove pages');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to remove pages');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result.blob, `${baseName}_pages_removed.pdf`);
+        void downloadPdf(result.blob, `${baseName}_pages_removed.pdf`);
     };
 
     const handleReset = () => {
@@ -213,7 +227,7 @@ export default function RemovePagesPage() {
             )}
 
             {/* Processing */}
-            {isProcessing && <ProgressIndicator progress={progress} status="Removing pages..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Removing pages..." onCancel={handleCancel} />}
 
             {/* Error */}
             {error && (
@@ -2,36 +2,25 @@ import { useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { downloadBlob, formatBytes } from '../lib/shared';
-
-// Dynamic mupdf loader
-let mupdfModule: any = null;
-async function getMupdf() {
-    if (mupdfModule) return mupdfModule;
-    (window as any)["$libmupdf_wasm_Module"] = {
-        locateFile: (path: string, prefix: string) => {
-            if (path.endsWith('.wasm')) return '/mupdf-wasm.wasm';
-            return prefix + path;
-        },
-    };
-    mupdfModule = await import('mupdf');
-    return mupdfModule;
-}
+import { downloadPdf } from '../lib/pdf-download';
+import { formatBytes } from '../lib/shared';
+import { withEngine } from '../lib/wasm-engines';
 
 async function repairPdf(file: File): Promise<Blob> {
-    const m = await getMupdf();
     const buffer = await file.arrayBuffer();
 
-    // MuPDF will attempt to repair the PDF on load
-    const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
-    const pdfDoc = doc.asPDF();
-    if (!pdfDoc) throw new Error("Could not open document as PDF");
+    return withEngine('mupdf', (m) => {
+        // MuPDF will attempt to repair the PDF on load
+        const doc = m.Document.openDocument(new Uint8Array(buffer), "application/pdf");
+        const pdfDoc = doc.asPDF();
+        if (!pdfDoc) throw new Error("Could not open document as PDF");
 
-    // Save with maximum cleanup
-    const repairedBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
-    const data = new Uint8Array(repairedBuffer.asUint8Array());
-    repairedBuffer.destroy();
-    return new Blob([data], { type: 'application/pdf' });
+        // Save with maximum cleanup
+        const repairedBuffer = pdfDoc.saveToBuffer("garbage=4,compress=yes,clean=yes");
+        const data = new Uint8Array(repairedBuffer.asUint8Array());
+        repairedBuffer.destroy();
+        return new Blob([data], { type: 'application/pdf' });
+    });
 }
 
 export default function RepairPdfPage() {
@@ -61,7 +50,7 @@ export default function RepairPdfPage() {
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result.blob, `${baseName}_repaired.pdf`);
+        void downloadPdf(result.blob, `${baseName}_repaired.pdf`);
     };
 
     const handleReset = () => {
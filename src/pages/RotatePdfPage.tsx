@@ -1,10 +1,12 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { rotatePages, getPdfPageCount, downloadBlob } from '../lib/pdf-pages';
+import { downloadPdf } from '../lib/pdf-download';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 import { RotateCw } from 'lucide-react';
 
 GlobalWorkerOptions.workerSrc = pdfWorker;
@@ -19,6 +21,7 @@ export default function RotatePdfPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<Blob | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         if (!file) return;
@@ -28,7 +31,7 @@ export default function RotatePdfPage() {
         setResult(null);
         setError(null);
 
-        getPdfPageCount(file)
+        runPdfJob('page-count', { file })
             .then(count => setPageCount(count))
             .catch(err => setError(err instanceof Error ? err.message : 'Failed to read PDF'))
             .finally(() => setIsLoadingPageCount(false));
@@ -37,13 +40,17 @@ export default function RotatePdfPage() {
     // Render thumbnails
     useEffect(() => {
         if (!file || !pageCount) return;
-        let cancelled = false;
+        const controller = new AbortController();
+        const { signal } = controller;
         const render = async () => {
             const fileBytes = new Uint8Array(await file.arrayBuffer());
-            const pdfDoc = await getDocument({ data: fileBytes }).promise;
+            const loadingTask = getDocument({ data: fileBytes });
+            // Destroying the task releases the pdf.js document and stops pending page renders.
+            signal.addEventListener('abort', () => void loadingTask.destroy(), { once: true });
+            const pdfDoc = await loadingTask.promise;
             const max = Math.min(pageCount, 50);
             for (let i = 1; i <= max; i++) {
-                if (cancelled) break;
+                if (signal.aborted) break;
                 try {
                     const page = await pdfDoc.getPage(i);
                     const baseVp = page.getViewport({ scale: 1 });
@@ -56,12 +63,12 @@ export default function RotatePdfPage() {
                     const ctx = canvas.getContext('2d')!;
                     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
                     await page.render({ canvas, canvasContext: ctx, viewport: vp }).promise;
-                    if (!cancelled) setThumbnails(prev => ({ ...prev, [i]: canvas.toDataURL('image/jpeg', 0.8) }));
+                    if (!signal.aborted) setThumbnails(prev => ({ ...prev, [i]: canvas.toDataURL('image/jpeg', 0.8) }));
                 } catch { /* skip */ }
             }
         };
-        render();
-        return () => { cancelled = true; };
+        render().catch(() => { /* thumbnails are best-effort */ });
+        return () => controller.abort();
     }, [file, pageCount]);
 
     const rotatePage = (pageNum: number) => {
@@ -94,22 +101,29 @@ export default function RotatePdfPage() {
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(50);
-            const blob = await rotatePages(file, rotations);
+            const blob = await runPdfJob('rotate-pages', { file, rotations }, { signal: controller.signal });
             setProgress(100);
             setResult(blob);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to rotate pages');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to rotate pages');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_rotated.pdf`);
+        void downloadPdf(result, `${baseName}_rotated.pdf`);
     };
 
     const handleReset = () => {
@@ -195,7 +209,7 @@ export default function RotatePdfPage() {
                 </>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Rotating pages..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Rotating pages..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
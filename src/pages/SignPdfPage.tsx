@@ -5,8 +5,8 @@ import { PDFDocument } from 'pdf-lib';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { downloadBlob } from '../lib/shared';
 import { Eraser } from 'lucide-react';
+import { downloadPdf } from '../lib/pdf-download';
 
 GlobalWorkerOptions.workerSrc = pdfWorker;
 
@@ -159,7 +159,7 @@ export default function SignPdfPage() {
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result, `${baseName}_signed.pdf`);
+        void downloadPdf(result, `${baseName}_signed.pdf`);
     };
 
     const handleReset = () => {
@@ -29,6 +29,13 @@ const sections = [
       { name: 'Add Watermark', to: '/pdf-add-watermark' },
     ],
   },
+  {
+    name: 'Workflows',
+    links: [
+      { name: 'PDF Pipeline', to: '/pdf-pipeline' },
+      { name: 'Batch Process', to: '/batch-pdf' },
+    ],
+  },
 ];
 
 export default function SitemapPage() {
@@ -1,62 +1,67 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
+import SaveOptionsPanel from '../components/SaveOptionsPanel';
+import { downloadMeasuredPdf, downloadPdf, preparePdf } from '../lib/pdf-download';
+import { findSeparatorPages, type SeparatorReport } from '../lib/pdf-separators';
 import {
     downloadAsZip,
-    downloadBlob,
-    extractPages,
     formatBytes,
-    getPdfPageCount,
+    formatPageRanges,
+    groupBySeparators,
+    groupEveryNPages,
+    groupIntoParts,
+    parsePageGroups,
     parsePageRange,
-    splitPdfAllPages,
-    splitPdfByRange,
+    planOutlineSections,
+    type OutlineEntry,
     type SplitPage as SplitPageType,
     type SplitResult,
     validatePageRange,
 } from '../lib/pdf-split';
-
-type SplitMode = 'all' | 'selected';
+import { DEFAULT_BLANK_THRESHOLD } from '../lib/ink-coverage';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
+
+type SplitMode = 'all' | 'selected' | 'every' | 'parts' | 'bookmarks' | 'size' | 'blank';
+
+const MODE_BUTTONS: { mode: SplitMode; label: string }[] = [
+    { mode: 'all', label: 'Extract all pages' },
+    { mode: 'selected', label: 'Select pages' },
+    { mode: 'every', label: 'Every N pages' },
+    { mode: 'parts', label: 'Equal parts' },
+    { mode: 'bookmarks', label: 'By bookmarks' },
+    { mode: 'size', label: 'By file size' },
+    { mode: 'blank', label: 'At blank pages' },
+];
 
 GlobalWorkerOptions.workerSrc = pdfWorker;
 
-
-function formatPageRanges(pageNumbers: number[]): string {
-    if (pageNumbers.length === 0) return '';
-
-    const ranges: string[] = [];
-    let start = pageNumbers[0];
-    let end = pageNumbers[0];
-
-    for (let i = 1; i < pageNumbers.length; i += 1) {
-        if (pageNumbers[i] === end + 1) {
-            end = pageNumbers[i];
-            continue;
-        }
-
-        ranges.push(start === end ? `${start}` : `${start}-${end}`);
-        start = pageNumbers[i];
-        end = pageNumbers[i];
-    }
-
-    ranges.push(start === end ? `${start}` : `${start}-${end}`);
-    return ranges.join(',');
-}
-
-
-
 export default function SplitPage() {
     const [file, setFile] = useState<File | null>(null);
     const [pageCount, setPageCount] = useState<number | null>(null);
     const [splitMode, setSplitMode] = useState<SplitMode>('selected');
     const [mergeSelectedPages, setMergeSelectedPages] = useState(true);
+    const [pagesPerFile, setPagesPerFile] = useState(2);
+    const [partCount, setPartCount] = useState(2);
+    const [outline, setOutline] = useState<OutlineEntry[] | null>(null);
+    const [outlineDepth, setOutlineDepth] = useState(1);
+    const [maxSizeMb, setMaxSizeMb] = useState(10);
+    const [blankThresholdPercent, setBlankThresholdPercent] = useState(DEFAULT_BLANK_THRESHOLD * 100);
+    const [detectCodes, setDetectCodes] = useState(false);
+    const [codeText, setCodeText] = useState('');
+    const [dropSeparators, setDropSeparators] = useState(true);
+    const [dropCodePages, setDropCodePages] = useState(false);
+    const [separatorReport, setSeparatorReport] = useState<SeparatorReport | null>(null);
     const [rangeInput, setRangeInput] = useState('');
     const [rangeError, setRangeError] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<SplitResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
     const [isLoadingPageCount, setIsLoadingPageCount] = useState(false);
     const [thumbnailByPage, setThumbnailByPage] = useState<Record<number, string>>({});
     const [thumbnailErrorPages, setThumbnailErrorPages] = useState<Set<number>>(new Set());
@@ -65,7 +70,7 @@ export default function SplitPage() {
         if (!file) return;
 
         setIsLoadingPageCount(true);
-        getPdfPageCount(file)
+        runPdfJob('page-count', { file })
             .then((count) => {
                 setPageCount(count);
                 setRangeInput(`1-${count}`);
@@ -79,7 +84,15 @@ export default function SplitPage() {
     }, [file]);
 
     useEffect(() => {
-        if (!pageCount || splitMode === 'all') {
+        if (!file || splitMode !== 'bookmarks' || outline) return;
+
+        runPdfJob('read-outline', { file })
+            .then(setOutline)
+            .catch(() => setOutline([]));
+    }, [file, splitMode, outline]);
+
+    useEffect(() => {
+        if (!pageCount || splitMode !== 'selected') {
             setRangeError(null);
             return;
         }
@@ -95,7 +108,7 @@ export default function SplitPage() {
 
     const selectedPages = useMemo(() => {
         if (!pageCount) return [];
-        if (splitMode === 'all') {
+        if (splitMode !== 'selected') {
             return Array.from({ length: pageCount }, (_, index) => index + 1);
         }
 
@@ -112,6 +125,15 @@ export default function SplitPage() {
 
     const selectedSet = useMemo(() => new Set(selectedPages), [selectedPages]);
 
+    const groupCount = useMemo(() => {
+        if (!pageCount || splitMode !== 'selected' || selectedPages.length === 0) return 0;
+        try {
+            return parsePageGroups(rangeInput, pageCount).length;
+        } catch {
+            return 0;
+        }
+    }, [rangeInput, pageCount, splitMode, selectedPages]);
+
     const previewPages = useMemo(() => {
         if (!pageCount) return [];
         const maxPreview = Math.min(pageCount, 12);
@@ -200,20 +222,65 @@ export default function SplitPage() {
         };
     }, [file, previewPages]);
 
-    const outputCount = splitMode === 'all' ? pageCount ?? 0 : selectedPages.length;
+    const plannedGroups = useMemo(() => {
+        if (!pageCount || splitMode === 'all' || splitMode === 'selected' || splitMode === 'size' || splitMode === 'blank') return null;
+        if (splitMode === 'bookmarks' && !outline) return { groups: [], error: 'Reading bookmarks...' };
+        try {
+            const groups = splitMode === 'every'
+                ? groupEveryNPages(pageCount, pagesPerFile)
+                : splitMode === 'parts'
+                    ? groupIntoParts(pageCount, partCount)
+                    : planOutlineSections(outline!, pageCount, outlineDepth).map((section) => section.pageNumbers);
+            return { groups, error: null };
+        } catch (err) {
+            return { groups: [], error: err instanceof Error ? err.message : 'Invalid number' };
+        }
+    }, [pageCount, splitMode, pagesPerFile, partCount, outline, outlineDepth]);
+
+    const outlineDepthCount = outline && outline.length > 0 ? Math.max(...outline.map((entry) => entry.depth)) : 0;
+
+    const outputCount = plannedGroups
+        ? plannedGroups.groups.length
+        : splitMode === 'all'
+            ? pageCount ?? 0
+            : mergeSelectedPages ? groupCount : selectedPages.length;
 
     const canSplit = Boolean(
         file
         && pageCount
         && !isLoadingPageCount
-        && (splitMode === 'all' || (!rangeError && selectedPages.length > 0)),
+        && (plannedGroups
+            ? !plannedGroups.error
+            : splitMode === 'all'
+                || (splitMode === 'size' && maxSizeMb > 0)
+                || (splitMode === 'blank' && blankThresholdPercent > 0 && (!detectCodes || codeText.trim() !== ''))
+                || (splitMode === 'selected' && !rangeError && selectedPages.length > 0)),
     );
 
+    const partLengths = plannedGroups ? plannedGroups.groups.map((group) => group.length) : [];
+    const shortestPart = Math.min(...partLengths);
+    const longestPart = Math.max(...partLengths);
+    const filesText = `${outputCount} PDF ${outputCount === 1 ? 'file' : 'files'} will be created.`;
+
     const infoText = splitMode === 'selected'
         ? mergeSelectedPages
-            ? 'Selected pages will be merged into one PDF file.'
-            : `Selected pages will be converted into separate PDF files. ${outputCount} PDF ${outputCount === 1 ? 'file' : 'files'} will be created.`
-        : `All pages will be converted into separate PDF files. ${outputCount} PDF ${outputCount === 1 ? 'file' : 'files'} will be created.`;
+            ? groupCount > 1
+                ? `Each group of pages separated by ";" will be merged into its own PDF file. ${filesText}`
+                : 'Selected pages will be merged into one PDF file.'
+            : `Selected pages will be converted into separate PDF files. ${filesText}`
+        : plannedGroups
+            ? plannedGroups.error
+                ? plannedGroups.error
+                : splitMode === 'every'
+                    ? `Every ${pagesPerFile} ${pagesPerFile === 1 ? 'page' : 'pages'} will be saved as a separate PDF file. ${filesText}`
+                    : splitMode === 'bookmarks'
+                        ? `Each bookmarked section will be saved as a separate PDF file named after its bookmark. ${filesText}`
+                        : `The pages will be divided into files of ${shortestPart === longestPart ? shortestPart : `${shortestPart}-${longestPart}`} pages. ${filesText}`
+            : splitMode === 'size'
+                ? `Consecutive pages will be grouped into PDF files of at most ${maxSizeMb} MB each. Every file is saved and measured while splitting, and downloaded as measured, without fast web view.`
+                : splitMode === 'blank'
+                    ? `Pages with less than ${blankThresholdPercent}% ink${detectCodes ? ` or with a code containing "${codeText.trim()}"` : ''} separate the documents. Each document will be saved as a separate PDF file${dropSeparators ? ` without its ${detectCodes && !dropCodePages ? 'blank ' : ''}separator pages` : ''}.`
+                    : `All pages will be converted into separate PDF files. ${filesText}`;
 
     const panelRangeValue = splitMode === 'all' && pageCount ? `1-${pageCount}` : rangeInput;
 
@@ -229,6 +296,9 @@ export default function SplitPage() {
         setRangeError(null);
         setSplitMode('selected');
         setMergeSelectedPages(true);
+        setOutline(null);
+        setOutlineDepth(1);
+        setSeparatorReport(null);
     };
 
     const handleSplit = async () => {
@@ -238,24 +308,51 @@ export default function SplitPage() {
         setError(null);
         setProgress(0);
         setResult(null);
+        setSeparatorReport(null);
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         try {
             let splitResult: SplitResult;
 
             if (splitMode === 'all') {
-                splitResult = await splitPdfAllPages(file, setProgress);
+                splitResult = await runPdfJob('split-all', { file }, { onProgress: setProgress, signal: controller.signal });
+            } else if (splitMode === 'every') {
+                splitResult = await runPdfJob('split-every', { file, pagesPerFile }, { onProgress: setProgress, signal: controller.signal });
+            } else if (splitMode === 'parts') {
+                splitResult = await runPdfJob('split-parts', { file, parts: partCount }, { onProgress: setProgress, signal: controller.signal });
+            } else if (splitMode === 'size') {
+                const maxBytes = Math.floor(maxSizeMb * 1024 * 1024);
+                splitResult = await runPdfJob('split-size', { file, maxBytes }, { onProgress: setProgress, signal: controller.signal });
+            } else if (splitMode === 'blank') {
+                const report = await findSeparatorPages(file, {
+                    blankThreshold: blankThresholdPercent / 100,
+                    detectCodes,
+                    codeText: codeText.trim(),
+                    onProgress: (value) => setProgress(Math.round(value / 2)),
+                    signal: controller.signal,
+                });
+                setSeparatorReport(report);
+                const groups = groupBySeparators(pageCount, report.separatorPages, dropSeparators, dropCodePages ? [] : report.codePages);
+                splitResult = await runPdfJob('split-groups', { file, groups }, {
+                    onProgress: (value) => setProgress(50 + Math.round(value / 2)),
+                    signal: controller.signal,
+                });
+            } else if (splitMode === 'bookmarks') {
+                splitResult = await runPdfJob('split-outline', { file, depth: outlineDepth }, { onProgress: setProgress, signal: controller.signal });
             } else {
                 const pageNumbers = parsePageRange(rangeInput, pageCount);
 
                 if (mergeSelectedPages) {
-                    splitResult = await splitPdfByRange(file, formatPageRanges(pageNumbers));
+                    splitResult = await runPdfJob('split-range', { file, rangeStr: rangeInput }, { signal: controller.signal });
                 } else {
                     const baseName = file.name.replace(/\.pdf$/i, '');
                     const splitPages: SplitPageType[] = [];
 
                     for (let i = 0; i < pageNumbers.length; i += 1) {
                         const pageNumber = pageNumbers[i];
-                        const blob = await extractPages(file, [pageNumber]);
+                        const blob = await runPdfJob('extract-pages', { file, pageNumbers: [pageNumber] }, { signal: controller.signal });
 
                         splitPages.push({
                             pageNumbers: [pageNumber],
@@ -277,20 +374,35 @@ export default function SplitPage() {
             setResult(splitResult);
             setProgress(100);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to split PDF');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to split PDF');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Size-limited parts are saved as measured; linearizing could push them over the limit
+    const sizeLimited = result?.oversizedPages !== undefined;
+
     const handleDownloadSingle = (page: SplitPageType) => {
-        downloadBlob(page.blob, page.fileName);
+        if (sizeLimited) {
+            downloadMeasuredPdf(page.blob, page.fileName);
+        } else {
+            void downloadPdf(page.blob, page.fileName);
+        }
     };
 
     const handleDownloadAll = async () => {
         if (!result) return;
         const baseName = file?.name.replace(/\.pdf$/i, '') || 'split';
-        await downloadAsZip(result.pages, `${baseName}_split.zip`);
+        const pages: SplitPageType[] = [];
+        for (const page of result.pages) {
+            pages.push(sizeLimited ? page : { ...page, blob: await preparePdf(page.blob, page.fileName) });
+        }
+        await downloadAsZip(pages, `${baseName}_split.zip`);
     };
 
     const handleReset = () => {
@@ -305,6 +417,9 @@ export default function SplitPage() {
         setRangeError(null);
         setSplitMode('selected');
         setMergeSelectedPages(true);
+        setOutline(null);
+        setOutlineDepth(1);
+        setSeparatorReport(null);
     };
 
     const handleTryAgain = () => {
@@ -332,7 +447,7 @@ export default function SplitPage() {
             <div className="mb-8 text-center">
                 <h1 className="mb-3 text-5xl font-black">Split PDF</h1>
                 <p className="mx-auto max-w-3xl text-lg text-gray-600">
-                    Extract specific pages or split every page into separate PDF files.
+                    Extract specific pages, or split by page groups, page count, bookmarks, file size or separator sheets.
                 </p>
             </div>
 
@@ -439,37 +554,137 @@ export default function SplitPage() {
                                         <div>
                                             <p className="mb-3 text-2xl font-semibold text-[#343947]">Extract mode:</p>
                                             <div className="grid grid-cols-2 gap-3">
-                                                <button
-                                                    type="button"
-                                                    onClick={() => setSplitMode('all')}
-                                                    className={`rounded-xl border px-4 py-4 text-xl font-medium transition ${splitMode === 'all' ? 'border-[#ef4444] bg-white text-[#ef4444]' : 'border-transparent bg-[#eef0f5] text-[#83899a] hover:text-[#565d72]'}`}
-                                                >
-                                                    Extract all pages
-                                                </button>
-                                                <button
-                                                    type="button"
-                                                    onClick={() => setSplitMode('selected')}
-                                                    className={`rounded-xl border px-4 py-4 text-xl font-medium transition ${splitMode === 'selected' ? 'border-[#ef4444] bg-white text-[#ef4444]' : 'border-transparent bg-[#eef0f5] text-[#83899a] hover:text-[#565d72]'}`}
-                                                >
-                                                    Select pages
-                                                </button>
+                                                {MODE_BUTTONS.map(({ mode, label }) => (
+                                                    <button
+                                                        key={mode}
+                                                        type="button"
+                                                        onClick={() => setSplitMode(mode)}
+                                                        className={`rounded-xl border px-4 py-4 text-xl font-medium transition ${splitMode === mode ? 'border-[#ef4444] bg-white text-[#ef4444]' : 'border-transparent bg-[#eef0f5] text-[#83899a] hover:text-[#565d72]'}`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
                                             </div>
                                         </div>
 
-                                        <div>
-                                            <label className="mb-2 block text-2xl font-semibold text-[#343947]">Pages to extract:</label>
-                                            <input
-                                                type="text"
-                                                value={panelRangeValue}
-                                                onChange={(event) => setRangeInput(event.target.value)}
-                                                disabled={splitMode === 'all'}
-                                                placeholder="1-2,4-6"
-                                                className={`w-full rounded-lg border px-4 py-3 text-lg font-medium outline-none transition sm:text-xl ${rangeError ? 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]' : 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]'} ${splitMode === 'all' ? 'cursor-not-allowed bg-[#f3f4f7] text-[#9aa1b1]' : 'bg-white'}`}
-                                            />
-                                            {rangeError && splitMode === 'selected' && (
-                                                <p className="mt-2 text-sm font-medium text-[#d43737]">{rangeError}</p>
-                                            )}
-                                        </div>
+                                        {splitMode === 'bookmarks' ? (
+                                            <div>
+                                                <label className="mb-2 block text-2xl font-semibold text-[#343947]">Split at bookmark level:</label>
+                                                <select
+                                                    value={outlineDepth}
+                                                    onChange={(event) => setOutlineDepth(Number(event.target.value))}
+                                                    disabled={outlineDepthCount === 0}
+                                                    className="w-full rounded-lg border border-[#aeb4c4] bg-white px-4 py-3 text-lg font-medium text-[#323847] outline-none transition focus:border-[#5f6f90] disabled:cursor-not-allowed disabled:bg-[#f3f4f7] disabled:text-[#9aa1b1] sm:text-xl"
+                                                >
+                                                    {Array.from({ length: Math.max(outlineDepthCount, 1) }, (_, index) => (
+                                                        <option key={index} value={index + 1}>
+                                                            {index === 0 ? 'Top-level bookmarks' : `Down to level ${index + 1}`}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        ) : splitMode === 'blank' ? (
+                                            <div className="space-y-4">
+                                                <div>
+                                                    <label className="mb-2 block text-2xl font-semibold text-[#343947]">Blank below (% ink):</label>
+                                                    <input
+                                                        type="number"
+                                                        min={0.1}
+                                                        max={10}
+                                                        step={0.1}
+                                                        value={blankThresholdPercent}
+                                                        onChange={(event) => setBlankThresholdPercent(Number(event.target.value))}
+                                                        className={`w-full rounded-lg border bg-white px-4 py-3 text-lg font-medium outline-none transition sm:text-xl ${blankThresholdPercent > 0 ? 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]' : 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]'}`}
+                                                    />
+                                                    <p className="mt-2 text-sm text-[#6b7285]">
+                                                        Raise it if scanner noise or bleed-through keeps blank sheets from being found.
+                                                    </p>
+                                                </div>
+                                                <label className="flex items-start gap-3 text-lg text-[#404756]">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={dropSeparators}
+                                                        onChange={(event) => setDropSeparators(event.target.checked)}
+                                                        className="mt-1 h-6 w-6 rounded border border-[#9da4b7] accent-[#ef4444]"
+                                                    />
+                                                    <span>Leave the separator pages out.</span>
+                                                </label>
+                                                <label className="flex items-start gap-3 text-lg text-[#404756]">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={detectCodes}
+                                                        onChange={(event) => setDetectCodes(event.target.checked)}
+                                                        className="mt-1 h-6 w-6 rounded border border-[#9da4b7] accent-[#ef4444]"
+                                                    />
+                                                    <span>Pages with a separator barcode or QR code are separators too.</span>
+                                                </label>
+                                                {detectCodes && (
+                                                    <>
+                                                        <input
+                                                            type="text"
+                                                            value={codeText}
+                                                            onChange={(event) => setCodeText(event.target.value)}
+                                                            placeholder="Text the separator code contains"
+                                                            className={`w-full rounded-lg border bg-white px-4 py-3 text-lg font-medium outline-none transition ${codeText.trim() ? 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]' : 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]'}`}
+                                                        />
+                                                        <label className="flex items-start gap-3 text-lg text-[#404756]">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={dropCodePages}
+                                                                onChange={(event) => setDropCodePages(event.target.checked)}
+                                                                className="mt-1 h-6 w-6 rounded border border-[#9da4b7] accent-[#ef4444]"
+                                                            />
+                                                            <span>Leave the pages with a separator code out as well.</span>
+                                                        </label>
+                                                    </>
+                                                )}
+                                            </div>
+                                        ) : splitMode === 'size' ? (
+                                            <div>
+                                                <label className="mb-2 block text-2xl font-semibold text-[#343947]">Maximum size per file (MB):</label>
+                                                <input
+                                                    type="number"
+                                                    min={0.1}
+                                                    step={0.5}
+                                                    value={maxSizeMb}
+                                                    onChange={(event) => setMaxSizeMb(Number(event.target.value))}
+                                                    className={`w-full rounded-lg border bg-white px-4 py-3 text-lg font-medium outline-none transition sm:text-xl ${maxSizeMb > 0 ? 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]' : 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]'}`}
+                                                />
+                                            </div>
+                                        ) : splitMode === 'every' || splitMode === 'parts' ? (
+                                            <div>
+                                                <label className="mb-2 block text-2xl font-semibold text-[#343947]">
+                                                    {splitMode === 'every' ? 'Pages per file:' : 'Number of files:'}
+                                                </label>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    max={pageCount}
+                                                    value={splitMode === 'every' ? pagesPerFile : partCount}
+                                                    onChange={(event) => (splitMode === 'every' ? setPagesPerFile : setPartCount)(Number(event.target.value))}
+                                                    className={`w-full rounded-lg border bg-white px-4 py-3 text-lg font-medium outline-none transition sm:text-xl ${plannedGroups?.error ? 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]' : 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]'}`}
+                                                />
+                                            </div>
+                                        ) : (
+                                            <div>
+                                                <label className="mb-2 block text-2xl font-semibold text-[#343947]">Pages to extract:</label>
+                                                <input
+                                                    type="text"
+                                                    value={panelRangeValue}
+                                                    onChange={(event) => setRangeInput(event.target.value)}
+                                                    disabled={splitMode === 'all'}
+                                                    placeholder="1-2,4-6; 7-end"
+                                                    className={`w-full rounded-lg border px-4 py-3 text-lg font-medium outline-none transition sm:text-xl ${rangeError ? 'border-[#f48b8b] text-[#d43838] focus:border-[#ef4444]' : 'border-[#aeb4c4] text-[#323847] focus:border-[#5f6f90]'} ${splitMode === 'all' ? 'cursor-not-allowed bg-[#f3f4f7] text-[#9aa1b1]' : 'bg-white'}`}
+                                                />
+                                                {splitMode === 'selected' && (rangeError ? (
+                                                    <p className="mt-2 text-sm font-medium text-[#d43737]">{rangeError}</p>
+                                                ) : (
+                                                    <p className="mt-2 text-sm text-[#6b7285]">
+                                                        Separate groups with ";" to get one file per group. Also understands end, odd, even and last-N.
+                                                    </p>
+                                                ))}
+                                            </div>
+                                        )}
 
                                         <label className={`flex items-start gap-3 text-xl text-[#404756] ${splitMode !== 'selected' ? 'opacity-50' : ''}`}>
                                             <input
@@ -509,7 +724,8 @@ export default function SplitPage() {
                     <div className="rounded-2xl bg-gray-50 p-8">
                         <ProgressIndicator
                             progress={progress}
-                            status={splitMode === 'all' ? 'Splitting pages...' : 'Extracting pages...'}
+                            status={splitMode === 'selected' ? 'Extracting pages...' : 'Splitting pages...'}
+                            onCancel={handleCancel}
                         />
                     </div>
                 )}
@@ -537,6 +753,24 @@ export default function SplitPage() {
                             </div>
                         </div>
 
+                        {separatorReport && (
+                            <div className="mb-6 rounded-xl border-2 border-gray-200 bg-white p-4 text-sm font-bold text-gray-700">
+                                {separatorReport.separatorPages.length > 0
+                                    ? `Separator ${separatorReport.separatorPages.length === 1 ? 'page' : 'pages'}: ${formatPageRanges(separatorReport.separatorPages)}${dropSeparators ? (dropCodePages || separatorReport.codePages.length === 0 ? ' (left out)' : ' (blank ones left out)') : ''}`
+                                    : 'No separator pages were found, so the PDF was kept as one file.'}
+                                {separatorReport.codeDetection === 'unsupported' && (
+                                    <p className="mt-1 font-normal text-gray-500">This browser cannot read barcodes, so only blank pages were used.</p>
+                                )}
+                            </div>
+                        )}
+
+                        {result.oversizedPages && result.oversizedPages.length > 0 && (
+                            <div className="mb-6 rounded-xl border-2 border-yellow-200 bg-yellow-50 p-4 text-sm font-bold text-yellow-800">
+                                Over {maxSizeMb} MB on their own, saved as single-page files:
+                                {' '}{result.oversizedPages.length === 1 ? 'page' : 'pages'} {formatPageRanges(result.oversizedPages)}
+                            </div>
+                        )}
+
                         {result.pages.length > 1 && (
                             <button
                                 onClick={handleDownloadAll}
@@ -590,6 +824,8 @@ export default function SplitPage() {
                         </div>
                     </div>
                 )}
+
+                <SaveOptionsPanel />
             </div>
         </div>
     );
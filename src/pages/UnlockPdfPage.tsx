@@ -1,8 +1,11 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import FileDropzone from '../components/FileDropzone';
 import ProgressIndicator from '../components/ProgressIndicator';
 import ToolPageTemplate from '../components/ToolPageTemplate';
-import { unlockPdf, downloadBlob, formatBytes } from '../lib/pdf-security';
+import { downloadPdf } from '../lib/pdf-download';
+import { formatBytes } from '../lib/pdf-security';
+import { isAbortError } from '../lib/shared';
+import { runPdfJob } from '../lib/worker-pool';
 import { Eye, EyeOff } from 'lucide-react';
 
 export default function UnlockPdfPage() {
@@ -13,28 +16,36 @@ export default function UnlockPdfPage() {
     const [progress, setProgress] = useState(0);
     const [result, setResult] = useState<{ blob: Blob; originalSize: number } | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const handleUnlock = async () => {
         if (!file) return;
         setIsProcessing(true);
         setProgress(20);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
             setProgress(50);
-            const blob = await unlockPdf(file, password);
+            const blob = await runPdfJob('unlock', { file, password }, { signal: controller.signal });
             setProgress(100);
             setResult({ blob, originalSize: file.size });
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'Failed to unlock PDF');
+            if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to unlock PDF');
         } finally {
             setIsProcessing(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleDownload = () => {
         if (!result || !file) return;
         const baseName = file.name.replace(/\.pdf$/i, '');
-        downloadBlob(result.blob, `${baseName}_unlocked.pdf`);
+        void downloadPdf(result.blob, `${baseName}_unlocked.pdf`);
     };
 
     const handleReset = () => {
@@ -82,7 +93,7 @@ export default function UnlockPdfPage() {
                 </div>
             )}
 
-            {isProcessing && <ProgressIndicator progress={progress} status="Unlocking PDF..." />}
+            {isProcessing && <ProgressIndicator progress={progress} status="Unlocking PDF..." onCancel={handleCancel} />}
 
             {error && (
                 <div className="p-4 bg-red-50 border-4 border-red-500 rounded-lg">
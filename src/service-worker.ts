@@ -0,0 +1,125 @@
+/**
+ * Service Worker
+ *
+ * Precaches the app shell, every built asset and the WASM engines so all
+ * tools keep working offline. The precache list and cache version are
+ * injected at build time (see the service-worker plugin in vite.config.ts);
+ * a new deploy produces a new version, which installs alongside the old one
+ * and waits until the page asks it to take over. It also receives PDFs
+ * shared to the installed app (Web Share Target).
+ *
+ * @module service-worker
+ */
+
+declare const self: ServiceWorkerGlobalScope;
+
+/** Replaced with `{ version, shell, engines }` when the app is built */
+declare const __PRECACHE_MANIFEST__: {
+    version: string;
+    /** Must all be cached for the install to succeed */
+    shell: string[];
+    /** Cached when available; a missing engine only disables that engine offline */
+    engines: string[];
+};
+
+/** The only reference to the placeholder, so the build pastes the manifest in once */
+const MANIFEST = __PRECACHE_MANIFEST__;
+
+const CACHE_PREFIX = 'mydevicemypdf-';
+const CACHE_NAME = `${CACHE_PREFIX}${MANIFEST.version}`;
+const SHELL_URL = '/index.html';
+
+// Web Share Target (see public/site.webmanifest). Keep SHARE_CACHE in sync
+// with src/lib/file-handoff.ts, which reads the files back.
+const SHARE_TARGET_PATH = '/share-target';
+const SHARE_CACHE = 'mydevicemypdf-share';
+const OPEN_ROUTE = '/open';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LIFECYCLE
+// ─────────────────────────────────────────────────────────────────────────────
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.addAll(MANIFEST.shell);
+
+        const engines = await Promise.allSettled(MANIFEST.engines.map((url) => cache.add(url)));
+        engines.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                console.warn(`Could not precache ${MANIFEST.engines[index]}:`, result.reason);
+            }
+        });
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(
+            names
+                .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME && name !== SHARE_CACHE)
+                .map((name) => caches.delete(name))
+        );
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type === 'SKIP_WAITING') {
+        self.skipWaiting();
+    }
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REQUESTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parks shared PDFs in a cache and sends the page to the tool chooser, which
+ * picks them up from there.
+ */
+async function receiveSharedFiles(request: Request): Promise<Response> {
+    try {
+        const formData = await request.formData();
+        const files = formData.getAll('file').filter((entry): entry is File => entry instanceof File);
+
+        await caches.delete(SHARE_CACHE);
+        const cache = await caches.open(SHARE_CACHE);
+        await Promise.all(files.map((file, index) => cache.put(
+            `/shared-files/${index}`,
+            new Response(file, {
+                headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+            })
+        )));
+    } catch (error) {
+        console.error('Failed to receive shared files:', error);
+    }
+
+    return Response.redirect(`${OPEN_ROUTE}?source=share`, 303);
+}
+
+/** Client-side routes have no file extension; files like /sitemap.xml do */
+function isAppRoute(url: URL): boolean {
+    return !/\.[a-z0-9]+$/i.test(url.pathname);
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === SHARE_TARGET_PATH) {
+        event.respondWith(receiveSharedFiles(request));
+        return;
+    }
+
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate' && isAppRoute(url)) {
+        // Every route renders the same shell; the router takes it from there.
+        event.respondWith((async () => (await caches.match(SHELL_URL, { cacheName: CACHE_NAME })) ?? fetch(request))());
+        return;
+    }
+
+    event.respondWith((async () => (await caches.match(request, { cacheName: CACHE_NAME })) ?? fetch(request))());
+});
@@ -3,6 +3,10 @@ declare module '@jspawn/qpdf-wasm' {
     locateFile?: (path: string, prefix: string) => string;
     print?: (text: string) => void;
     printErr?: (text: string) => void;
+    instantiateWasm?: (
+      imports: WebAssembly.Imports,
+      receiveInstance: (instance: WebAssembly.Instance, module: WebAssembly.Module) => void
+    ) => object;
   }
 
   export interface WasmModule {
@@ -24,6 +28,10 @@ declare module '@jspawn/ghostscript-wasm' {
     locateFile?: (path: string, prefix: string) => string;
     print?: (text: string) => void;
     printErr?: (text: string) => void;
+    instantiateWasm?: (
+      imports: WebAssembly.Imports,
+      receiveInstance: (instance: WebAssembly.Instance, module: WebAssembly.Module) => void
+    ) => object;
   }
 
   export interface WasmModule {
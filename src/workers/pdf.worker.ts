@@ -0,0 +1,157 @@
+/**
+ * PDF Worker
+ *
+ * Hosts the pdf-lib, mupdf, qpdf and ghostscript engines off the UI thread.
+ * Receives {@link WorkerJobRequest} messages from the worker pool, runs the
+ * matching lib function and posts progress, events and results back.
+ *
+ * @module pdf-worker
+ */
+
+import { analyzePdfSize } from '../lib/pdf-analyze';
+import { addPageNumbers, addWatermark } from '../lib/pdf-annotations';
+import { applyBatchTool } from '../lib/pdf-batch';
+import { imagesToPdf } from '../lib/pdf-images';
+import { mergePdfs } from '../lib/pdf-merge';
+import { removePages, reorderPages, rotatePages } from '../lib/pdf-pages';
+import { runPipeline } from '../lib/pdf-pipeline';
+import { applySaveOptions } from '../lib/pdf-save';
+import { protectPdf, unlockPdf } from '../lib/pdf-security';
+import {
+    extractPages,
+    getPdfPageCount,
+    readOutline,
+    splitPdfAllPages,
+    splitPdfByGroups,
+    splitPdfByOutline,
+    splitPdfByRange,
+    splitPdfBySize,
+    splitPdfEveryNPages,
+    splitPdfIntoParts,
+} from '../lib/pdf-split';
+import { compressPDF } from '../lib/pdf-utils';
+import { isAbortError } from '../lib/shared';
+import { engineNeedsRestart, subscribeEngineState } from '../lib/wasm-engines';
+import {
+    decodeTransferable,
+    encodeTransferable,
+    type PdfJobEvent,
+    type PdfJobInput,
+    type PdfJobOutput,
+    type PdfJobType,
+    type WorkerJobRequest,
+    type WorkerJobResponse,
+} from '../lib/worker-protocol';
+
+interface JobContext<T extends PdfJobType> {
+    onProgress: (progress: number, status?: string) => void;
+    emit: (event: PdfJobEvent<T>) => void;
+    signal: AbortSignal;
+}
+
+type JobHandlers = {
+    [T in PdfJobType]: (input: PdfJobInput<T>, context: JobContext<T>) => Promise<PdfJobOutput<T>>;
+};
+
+const handlers: JobHandlers = {
+    'compress': ({ file, options }, { onProgress, emit, signal }) =>
+        compressPDF(file, { ...options, onProgress, onEngineResult: emit, signal }),
+    'analyze-size': ({ file }, { onProgress, signal }) => analyzePdfSize(file, onProgress, signal),
+    'merge': ({ files }, { onProgress, signal }) => mergePdfs(files, onProgress, signal),
+    'page-count': ({ file }, { signal }) => getPdfPageCount(file, signal),
+    'extract-pages': ({ file, pageNumbers }, { signal }) => extractPages(file, pageNumbers, signal),
+    'split-range': ({ file, rangeStr }, { signal }) => splitPdfByRange(file, rangeStr, signal),
+    'split-all': ({ file }, { onProgress, signal }) => splitPdfAllPages(file, onProgress, signal),
+    'split-every': ({ file, pagesPerFile }, { onProgress, signal }) =>
+        splitPdfEveryNPages(file, pagesPerFile, onProgress, signal),
+    'split-parts': ({ file, parts }, { onProgress, signal }) => splitPdfIntoParts(file, parts, onProgress, signal),
+    'split-groups': ({ file, groups }, { onProgress, signal }) => splitPdfByGroups(file, groups, onProgress, signal),
+    'split-size': ({ file, maxBytes }, { onProgress, signal }) => splitPdfBySize(file, maxBytes, onProgress, signal),
+    'read-outline': ({ file }, { signal }) => readOutline(file, signal),
+    'split-outline': ({ file, depth }, { onProgress, signal }) => splitPdfByOutline(file, depth, onProgress, signal),
+    'remove-pages': ({ file, pageNumbers }, { signal }) => removePages(file, pageNumbers, signal),
+    'rotate-pages': ({ file, rotations }, { signal }) => rotatePages(file, rotations, signal),
+    'reorder-pages': ({ file, newOrder }, { signal }) => reorderPages(file, newOrder, signal),
+    'add-page-numbers': ({ file, options }, { signal }) => addPageNumbers(file, options, signal),
+    'add-watermark': ({ file, options }, { signal }) => addWatermark(file, options, signal),
+    'images-to-pdf': ({ files, pageSize }, { onProgress, signal }) =>
+        imagesToPdf(files, pageSize, onProgress, signal),
+    'protect': ({ file, options }, { signal }) => protectPdf(file, options, signal),
+    'unlock': ({ file, password }, { signal }) => unlockPdf(file, password, signal),
+    'batch-item': ({ job, file }, { signal }) => applyBatchTool(job, file, signal),
+    'pipeline': ({ files, steps }, { onProgress, signal }) => runPipeline(files, steps, onProgress, signal),
+    'save-pdf': ({ blob, options }, { signal }) => applySaveOptions(blob, options, signal),
+};
+
+const controllers = new Map<number, AbortController>();
+
+// The pool hands each worker one job at a time, so engine load/crash updates
+// belong to whichever job is currently running.
+let activeJobId: number | null = null;
+
+// The app tsconfig only ships DOM typings; postMessage on a dedicated worker
+// scope accepts the same (message, { transfer }) signature as Window.
+function post(message: WorkerJobResponse, transfer: Transferable[] = []): void {
+    self.postMessage(message, { transfer });
+}
+
+async function runJob<T extends PdfJobType>(
+    type: T,
+    jobId: number,
+    rawInput: unknown,
+    signal: AbortSignal
+): Promise<void> {
+    const input = decodeTransferable<PdfJobInput<T>>(rawInput);
+    const handler = handlers[type] as JobHandlers[T];
+
+    // Events are encoded asynchronously; chain them so they arrive in order
+    // and always before the final result.
+    let pendingEvents = Promise.resolve();
+
+    const context: JobContext<T> = {
+        onProgress: (progress, status) => post({ kind: 'progress', jobId, progress, status }),
+        emit: (event) => {
+            pendingEvents = pendingEvents
+                .then(() => encodeTransferable(event))
+                .then(({ value, transfer }) => post({ kind: 'event', jobId, event: value }, transfer));
+        },
+        signal,
+    };
+
+    const output = await handler(input, context);
+    await pendingEvents;
+    const { value, transfer } = await encodeTransferable(output);
+    post({ kind: 'result', jobId, output: value, restart: engineNeedsRestart() }, transfer);
+}
+
+subscribeEngineState((state) => {
+    if (activeJobId !== null) post({ kind: 'engine', jobId: activeJobId, state });
+});
+
+self.onmessage = (event: MessageEvent<WorkerJobRequest>) => {
+    const request = event.data;
+
+    if (request.kind === 'cancel') {
+        controllers.get(request.jobId)?.abort();
+        return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.jobId, controller);
+    activeJobId = request.jobId;
+
+    runJob(request.type, request.jobId, request.input, controller.signal)
+        .catch((error: unknown) => {
+            post({
+                kind: 'error',
+                jobId: request.jobId,
+                message: error instanceof Error ? error.message : String(error),
+                aborted: controller.signal.aborted || isAbortError(error),
+                restart: engineNeedsRestart(),
+            });
+        })
+        .finally(() => {
+            controllers.delete(request.jobId);
+            if (activeJobId === request.jobId) activeJobId = null;
+        });
+};
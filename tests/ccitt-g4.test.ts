@@ -0,0 +1,53 @@
+import * as mupdf from 'mupdf';
+import { describe, expect, it } from 'vitest';
+import { encodeCcittG4 } from '../src/lib/ccitt-g4';
+
+/** Decodes with MuPDF's CCITTFaxDecode filter; returns 1 for black pixels */
+function decode(data: Uint8Array, width: number, height: number): Uint8Array {
+    const doc = new mupdf.PDFDocument();
+    const ref = doc.addRawStream(data, {
+        Type: 'XObject', Subtype: 'Image', Width: width, Height: height, BitsPerComponent: 1,
+        ColorSpace: 'DeviceGray', Filter: 'CCITTFaxDecode', DecodeParms: { K: -1, Columns: width, Rows: height },
+    });
+    const samples = doc.loadImage(ref).toPixmap().getPixels();
+    return Uint8Array.from(samples, (value) => (value < 128 ? 1 : 0));
+}
+
+/** Rows of alternating runs drawn from `runLength`; some rows repeat the one above */
+function createBitmap(width: number, height: number, runLength: (random: () => number) => number): Uint8Array {
+    let seed = 7;
+    const random = () => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return seed / 0x7fffffff;
+    };
+
+    const pixels = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        if (y > 0 && random() < 0.3) {
+            pixels.copyWithin(y * width, (y - 1) * width, y * width);
+            continue;
+        }
+        let color = random() < 0.5 ? 1 : 0;
+        for (let x = 0; x < width; color ^= 1) {
+            const end = Math.min(width, x + runLength(random));
+            pixels.fill(color, y * width + x, y * width + end);
+            x = end;
+        }
+    }
+    return pixels;
+}
+
+describe('encodeCcittG4', () => {
+    it.each([
+        ['short runs', 64, 10, (random: () => number) => 1 + Math.floor(random() * 4)],
+        ['make-up runs', 1700, 30, (random: () => number) => Math.floor(random() * 1800)],
+        ['extended make-up runs', 6000, 6, (random: () => number) => Math.floor(random() * 3000)],
+    ])('round-trips %s through a PDF decoder', (_, width, height, runLength) => {
+        const pixels = createBitmap(width, height, runLength);
+        expect(decode(encodeCcittG4(pixels, width, height), width, height)).toEqual(pixels);
+    });
+
+    it('encodes blank pages in a few bytes', () => {
+        expect(encodeCcittG4(new Uint8Array(2000 * 2000), 2000, 2000).length).toBeLessThan(1000);
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * Test Fixtures
+ *
+ * Generates PDFs and images in memory so the suite needs no binary files.
+ * Every generated page is 300 + n points wide (n = 1-indexed page number),
+ * which lets tests identify pages after they have been moved or removed.
+ *
+ * @module fixtures
+ */
+
+import * as mupdf from 'mupdf';
+import { degrees, PDFDocument, PDFName, PDFRef, PDFString, StandardFonts } from 'pdf-lib';
+import { protectPdf } from '../src/lib/pdf-security';
+
+const PAGE_HEIGHT = 400;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function pageWidthFor(pageNumber: number): number {
+    return 300 + pageNumber;
+}
+
+function toFile(bytes: Uint8Array, name: string, type = 'application/pdf'): File {
+    return new File([new Uint8Array(bytes)], name, { type });
+}
+
+async function createDocument(pageCount: number): Promise<PDFDocument> {
+    const doc = await PDFDocument.create();
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+
+    for (let n = 1; n <= pageCount; n++) {
+        const page = doc.addPage([pageWidthFor(n), PAGE_HEIGHT]);
+        page.drawText(`Page ${n}`, { x: 40, y: PAGE_HEIGHT / 2, size: 24, font });
+    }
+
+    return doc;
+}
+
+/**
+ * Loads a generated output back into pdf-lib for assertions.
+ */
+export async function loadPdf(blob: Blob): Promise<PDFDocument> {
+    return PDFDocument.load(await blob.arrayBuffer());
+}
+
+/**
+ * Returns the identifying page numbers of a PDF built from these fixtures.
+ */
+export async function pageNumbersOf(blob: Blob): Promise<number[]> {
+    const doc = await loadPdf(blob);
+    return doc.getPages().map((page) => Math.round(page.getWidth()) - 300);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PDF FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function createMultiPagePdf(pageCount = 5, name = 'multi.pdf'): Promise<File> {
+    const doc = await createDocument(pageCount);
+    return toFile(await doc.save(), name);
+}
+
+/**
+ * Pages are pre-rotated by `rotation` degrees.
+ */
+export async function createRotatedPdf(pageCount = 3, rotation = 90): Promise<File> {
+    const doc = await createDocument(pageCount);
+    doc.getPages().forEach((page) => page.setRotation(degrees(rotation)));
+    return toFile(await doc.save(), 'rotated.pdf');
+}
+
+/**
+ * Each page carries a full-page photo-like image (`imageSize` pixels square),
+ * so lossless engines have real streams to work on.
+ */
+export async function createImagePdf(pageCount = 2, imageSize = 200): Promise<File> {
+    const doc = await createDocument(pageCount);
+    const image = await doc.embedPng(createImage('image/png', imageSize, imageSize));
+
+    for (const page of doc.getPages()) {
+        page.drawImage(image, { x: 0, y: 0, width: page.getWidth(), height: PAGE_HEIGHT });
+    }
+
+    return toFile(await doc.save({ useObjectStreams: false }), 'images.pdf');
+}
+
+export interface OutlineSpec {
+    title: string;
+    page: number;
+    children?: OutlineSpec[];
+}
+
+/**
+ * Pages carry bookmarks as given; each points to its 1-indexed page with /Fit.
+ */
+export async function createOutlinePdf(pageCount: number, outline: OutlineSpec[], name = 'book.pdf'): Promise<File> {
+    const doc = await createDocument(pageCount);
+    const pages = doc.getPages();
+
+    const addItems = (parent: PDFRef, items: OutlineSpec[]) => {
+        const refs = items.map(() => doc.context.nextRef());
+        items.forEach((item, i) => {
+            const dict = doc.context.obj({
+                Title: PDFString.of(item.title),
+                Parent: parent,
+                Dest: [pages[item.page - 1].ref, 'Fit'],
+            });
+            if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+            if (i < items.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+            if (item.children) {
+                const kids = addItems(refs[i], item.children);
+                dict.set(PDFName.of('First'), kids[0]);
+                dict.set(PDFName.of('Last'), kids[kids.length - 1]);
+                dict.set(PDFName.of('Count'), doc.context.obj(kids.length));
+            }
+            doc.context.assign(refs[i], dict);
+        });
+        return refs;
+    };
+
+    const root = doc.context.nextRef();
+    const top = addItems(root, outline);
+    doc.context.assign(root, doc.context.obj({ Type: 'Outlines', First: top[0], Last: top[top.length - 1], Count: top.length }));
+    doc.catalog.set(PDFName.of('Outlines'), root);
+
+    return toFile(await doc.save(), name);
+}
+
+export async function createFormPdf(): Promise<File> {
+    const doc = await createDocument(2);
+    const form = doc.getForm();
+    const [first] = doc.getPages();
+
+    const name = form.createTextField('name');
+    name.setText('Jane Doe');
+    name.addToPage(first, { x: 40, y: 80, width: 200, height: 24 });
+
+    const agree = form.createCheckBox('agree');
+    agree.check();
+    agree.addToPage(first, { x: 40, y: 40, width: 16, height: 16 });
+
+    return toFile(await doc.save(), 'form.pdf');
+}
+
+/**
+ * Two text pages plus things that take space without being drawn: an
+ * attached file, XMP metadata and a stream nothing refers to.
+ */
+export async function createClutteredPdf(): Promise<File> {
+    const doc = await createDocument(2);
+    await doc.attach(createImage('image/jpeg', 64, 64), 'photo.jpg', { mimeType: 'image/jpeg' });
+
+    const xmp = doc.context.stream('<x:xmpmeta xmlns:x="adobe:ns:meta/"></x:xmpmeta>', { Type: 'Metadata', Subtype: 'XML' });
+    doc.catalog.set(PDFName.of('Metadata'), doc.context.register(xmp));
+    doc.context.register(doc.context.stream(new Uint8Array(3000).fill(66)));
+
+    return toFile(await doc.save({ useObjectStreams: false }), 'cluttered.pdf');
+}
+
+/**
+ * A form with everything the clean step removes: page thumbnails, a document
+ * script and an open action script, XMP metadata, an attached file, a used
+ * and an unused named destination, PieceInfo, and a text field appearance
+ * (next to a check box, whose appearance has to stay).
+ */
+export async function createCleanablePdf(): Promise<File> {
+    const formFile = await createFormPdf();
+    const doc = await PDFDocument.load(await formFile.arrayBuffer());
+    const { context, catalog } = doc;
+    const [first, second] = doc.getPages();
+    await doc.attach(createImage('image/jpeg', 64, 64), 'photo.jpg', { mimeType: 'image/jpeg' });
+
+    for (const page of [first, second]) {
+        page.node.set(PDFName.of('Thumb'), context.register(context.stream(new Uint8Array(2000).fill(67))));
+    }
+    first.node.set(PDFName.of('PieceInfo'), context.obj({
+        Illustrator: { LastModified: PDFString.of('D:20240101'), Private: context.register(context.stream(new Uint8Array(1000).fill(68))) },
+    }));
+
+    const script = () => context.obj({ S: 'JavaScript', JS: PDFString.of('app.alert("hello");') });
+    catalog.set(PDFName.of('OpenAction'), context.register(script()));
+    catalog.set(PDFName.of('Metadata'), context.register(
+        context.stream('<x:xmpmeta xmlns:x="adobe:ns:meta/"></x:xmpmeta>', { Type: 'Metadata', Subtype: 'XML' }),
+    ));
+    catalog.set(PDFName.of('Names'), context.obj({
+        JavaScript: { Names: [PDFString.of('init'), context.register(script())] },
+        Dests: context.register(context.obj({
+            Names: [PDFString.of('intro'), [first.ref, 'Fit'], PDFString.of('unused'), [second.ref, 'Fit']],
+        })),
+    }));
+    first.node.addAnnot(context.register(context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 0, 10, 10], Dest: PDFString.of('intro') })));
+
+    return toFile(await doc.save({ useObjectStreams: false }), 'cleanable.pdf');
+}
+
+/**
+ * Pages that each embed their own full copy of the same font, the way
+ * merging several documents from one source leaves it.
+ */
+export function createDuplicateFontPdf(pageCount = 3): File {
+    const doc = new mupdf.PDFDocument();
+
+    for (let n = 1; n <= pageCount; n++) {
+        // MuPDF reuses a font within one document, so each page starts in its own.
+        const source = new mupdf.PDFDocument();
+        const font = new mupdf.Font('Times-Roman');
+        const text = Array.from(`Page ${n}`, (char) => font.encodeCharacter(char.codePointAt(0)!).toString(16).padStart(4, '0')).join('');
+        const resources = source.addObject({ Font: { F1: source.addFont(font) } });
+        const contents = `BT /F1 24 Tf 40 ${PAGE_HEIGHT / 2} Td <${text}> Tj ET`;
+        source.insertPage(-1, source.addPage([0, 0, pageWidthFor(n), PAGE_HEIGHT], 0, resources, contents));
+        doc.graftPage(-1, source, 0);
+        source.destroy();
+    }
+
+    const bytes = doc.saveToBuffer('compress=yes').asUint8Array();
+    doc.destroy();
+    return toFile(bytes, 'fonts.pdf');
+}
+
+export async function createEncryptedPdf(password: string, pageCount = 3): Promise<File> {
+    const blob = await protectPdf(await createMultiPagePdf(pageCount), { userPassword: password });
+    return toFile(new Uint8Array(await blob.arrayBuffer()), 'encrypted.pdf');
+}
+
+/**
+ * A file with a PDF header and nothing usable after it.
+ */
+export function createMalformedPdf(): File {
+    return toFile(new TextEncoder().encode('%PDF-1.7\n1 0 obj\n<< /Type /Catalog\nthis is not a pdf'), 'malformed.pdf');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IMAGE FIXTURES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Encodes a noisy RGB image (noise keeps encoders from collapsing it).
+ */
+export function createImage(type: 'image/png' | 'image/jpeg', width: number, height: number): Uint8Array {
+    const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, width, height], false);
+    const pixels = pixmap.getPixels();
+    let seed = 42;
+    for (let i = 0; i < pixels.length; i++) {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        pixels[i] = (i % 3 === 0 ? (i / 3) % width : seed >> 16) & 0xff;
+    }
+
+    const bytes = type === 'image/png' ? pixmap.asPNG() : pixmap.asJPEG(90);
+    pixmap.destroy();
+    return new Uint8Array(bytes);
+}
+
+export function createImageFile(type: 'image/png' | 'image/jpeg', width: number, height: number): File {
+    const extension = type === 'image/png' ? 'png' : 'jpg';
+    return toFile(createImage(type, width, height), `image.${extension}`, type);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EDGE_MARGIN, inkCoverage } from '../src/lib/ink-coverage';
+
+/** RGBA pixels of a white page */
+function whitePage(width: number, height: number): Uint8ClampedArray {
+    return new Uint8ClampedArray(width * height * 4).fill(255);
+}
+
+function paint(pixels: Uint8ClampedArray, width: number, x: number, y: number, level: number): void {
+    const i = (y * width + x) * 4;
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = level;
+}
+
+describe('inkCoverage', () => {
+    it('scores a white page as blank', () => {
+        expect(inkCoverage(whitePage(20, 20), 20, 20)).toBe(0);
+    });
+
+    it('returns the share of dark pixels inside the margins', () => {
+        const pixels = whitePage(20, 20);
+        for (let x = 5; x < 15; x++) paint(pixels, 20, x, 10, 0);
+
+        expect(inkCoverage(pixels, 20, 20, 0)).toBe(10 / 400);
+        expect(inkCoverage(pixels, 20, 20, DEFAULT_EDGE_MARGIN)).toBe(10 / 324);
+    });
+
+    it('ignores light bleed-through and edge shadows', () => {
+        const pixels = whitePage(20, 20);
+        for (let x = 0; x < 20; x++) paint(pixels, 20, x, 5, 200);
+        for (let y = 0; y < 20; y++) paint(pixels, 20, 0, y, 0);
+
+        expect(inkCoverage(pixels, 20, 20)).toBe(0);
+    });
+
+    it('rejects pixel data of the wrong size', () => {
+        expect(() => inkCoverage(whitePage(10, 10), 20, 20)).toThrow('does not match');
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePdfSize } from '../src/lib/pdf-analyze';
+import { createClutteredPdf, createImagePdf } from './fixtures';
+
+describe('analyzePdfSize', () => {
+    it('reports images with their size, resolution and pages', async () => {
+        const file = await createImagePdf(2, 200);
+        const report = await analyzePdfSize(file);
+
+        expect(report.fileSize).toBe(file.size);
+        expect(report.images).toHaveLength(1);
+        // 200 pixels stretched over 400 points of page height.
+        expect(report.images[0]).toMatchObject({ width: 200, height: 200, bitsPerComponent: 8, colorSpace: 'DeviceRGB', filter: 'FlateDecode', dpi: 36, pages: [1, 2] });
+        expect(report.totals.images).toBe(report.images[0].bytes);
+        expect(report.totals.images).toBeGreaterThan(report.totals.content);
+
+        expect(report.pages.map((page) => page.pageNumber)).toEqual([1, 2]);
+        expect(report.pages[0].images).toBe(report.images[0].bytes);
+        expect(report.pages[0].total).toBe(report.pages[0].images + report.pages[0].fonts + report.pages[0].content);
+    });
+
+    it('lists fonts and splits out attachments, metadata and unused objects', async () => {
+        const file = await createClutteredPdf();
+        const report = await analyzePdfSize(file);
+
+        expect(report.fonts).toEqual([
+            expect.objectContaining({ name: 'Helvetica', type: 'Type1', subset: false, embedded: false, pages: [1, 2] }),
+        ]);
+        expect(report.attachments).toEqual([{ name: 'photo.jpg', bytes: expect.any(Number) }]);
+        expect(report.attachments[0].bytes).toBeGreaterThan(2000);
+        expect(report.totals.attachments).toBe(report.attachments[0].bytes);
+        expect(report.totals.metadata).toBeGreaterThan(0);
+        expect(report.unusedObjectCount).toBe(1);
+        expect(report.totals.unused).toBeGreaterThan(3000);
+
+        const total = Object.values(report.totals).reduce((sum, bytes) => sum + bytes, 0);
+        expect(total).toBe(file.size);
+    });
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(analyzePdfSize(await createImagePdf(1), undefined, controller.signal)).rejects.toThrow();
+    });
+});
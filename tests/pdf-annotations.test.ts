@@ -0,0 +1,87 @@
+import { decodePDFRawStream, PDFArray, PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { addPageNumbers, addWatermark, type PageNumberOptions, type WatermarkOptions } from '../src/lib/pdf-annotations';
+import { createMultiPagePdf, createRotatedPdf, loadPdf, pageNumbersOf } from './fixtures';
+
+const NUMBER_OPTIONS: PageNumberOptions = {
+    position: 'bottom-center',
+    fontSize: 12,
+    format: 'numeric',
+    startFrom: 1,
+    margin: 30,
+};
+
+const WATERMARK_OPTIONS: WatermarkOptions = {
+    text: 'CONFIDENTIAL',
+    fontSize: 48,
+    opacity: 0.2,
+    rotation: -30,
+    color: { r: 0.5, g: 0.5, b: 0.5 },
+    position: 'center',
+};
+
+/** Concatenated, decoded content streams of one page */
+async function contentOf(blob: Blob, pageIndex: number): Promise<string> {
+    const doc = await loadPdf(blob);
+    const contents = doc.getPages()[pageIndex].node.Contents();
+    const streams = contents instanceof PDFArray
+        ? contents.asArray().map((ref) => doc.context.lookup(ref))
+        : [contents];
+
+    return streams
+        .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+        .map((stream) => new TextDecoder('latin1').decode(decodePDFRawStream(stream).decode()))
+        .join('\n');
+}
+
+/** Text shown with the Tj operator (pdf-lib writes hex strings) */
+function shownText(content: string): string[] {
+    return [...content.matchAll(/<([0-9A-F]+)> Tj/g)].map(([, hex]) =>
+        String.fromCharCode(...(hex.match(/../g) ?? []).map((pair) => parseInt(pair, 16))),
+    );
+}
+
+describe('addPageNumbers', () => {
+    it('stamps every page without changing the page set', async () => {
+        const result = await addPageNumbers(await createMultiPagePdf(3), NUMBER_OPTIONS);
+
+        expect(await pageNumbersOf(result)).toEqual([1, 2, 3]);
+        expect(shownText(await contentOf(result, 0))).toContain('1');
+        expect(shownText(await contentOf(result, 2))).toContain('3');
+    });
+
+    it('honours the start number and format', async () => {
+        const file = await createMultiPagePdf(3);
+
+        const roman = await addPageNumbers(file, { ...NUMBER_OPTIONS, format: 'roman', startFrom: 4 });
+        expect(shownText(await contentOf(roman, 0))).toContain('iv');
+
+        const pageOf = await addPageNumbers(file, { ...NUMBER_OPTIONS, format: 'page-of' });
+        expect(shownText(await contentOf(pageOf, 1))).toContain('Page 2 of 3');
+    });
+
+    it('works on rotated pages', async () => {
+        const result = await addPageNumbers(await createRotatedPdf(2), NUMBER_OPTIONS);
+        const doc = await loadPdf(result);
+        expect(doc.getPages().map((page) => page.getRotation().angle)).toEqual([90, 90]);
+    });
+});
+
+describe('addWatermark', () => {
+    it('draws the text once per page when centered', async () => {
+        const result = await addWatermark(await createMultiPagePdf(2), WATERMARK_OPTIONS);
+        const marks = shownText(await contentOf(result, 1)).filter((text) => text === 'CONFIDENTIAL');
+        expect(marks).toHaveLength(1);
+    });
+
+    it('repeats the text when tiled', async () => {
+        const result = await addWatermark(await createMultiPagePdf(1), { ...WATERMARK_OPTIONS, position: 'tiled' });
+        const marks = shownText(await contentOf(result, 0)).filter((text) => text === 'CONFIDENTIAL');
+        expect(marks.length).toBeGreaterThan(1);
+    });
+
+    it('keeps the page count', async () => {
+        const result = await addWatermark(await createMultiPagePdf(4), WATERMARK_OPTIONS);
+        expect(await pageNumbersOf(result)).toEqual([1, 2, 3, 4]);
+    });
+});
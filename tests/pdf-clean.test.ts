@@ -0,0 +1,75 @@
+import * as mupdf from 'mupdf';
+import { describe, expect, it } from 'vitest';
+import { CLEAN_ITEMS, cleanPdf } from '../src/lib/pdf-clean';
+import { createCleanablePdf, createMultiPagePdf, pageNumbersOf } from './fixtures';
+
+const ALL_ITEMS = CLEAN_ITEMS.map(({ item }) => item);
+
+async function openPdf(blob: Blob): Promise<mupdf.PDFDocument> {
+    return new mupdf.PDFDocument(new Uint8Array(await blob.arrayBuffer()));
+}
+
+function widget(doc: mupdf.PDFDocument, fieldName: string): mupdf.PDFObject {
+    let found: mupdf.PDFObject | null = null;
+    doc.findPage(0).get('Annots').forEach((annot) => {
+        const name = annot.getInheritable('T');
+        if (name.isString() && name.asString() === fieldName) found = annot;
+    });
+    return found!;
+}
+
+describe('cleanPdf', () => {
+    it('removes every selected kind of content and reports what it saved', async () => {
+        const file = await createCleanablePdf();
+        const { blob, report } = await cleanPdf(file, ALL_ITEMS);
+
+        expect(report.removed.map(({ item, count }) => [item, count])).toEqual([
+            ['thumbnails', 2],
+            ['javascript', 2],
+            ['metadata', 1],
+            ['attachments', 1],
+            ['destinations', 1],
+            ['pieceInfo', 1],
+            ['appearances', 1],
+        ]);
+        expect(report.removed.every((entry) => entry.bytes > 0)).toBe(true);
+        expect(report.removed.find((entry) => entry.item === 'thumbnails')!.bytes).toBeGreaterThan(4000);
+        expect(report.bytesSaved).toBe(report.removed.reduce((sum, entry) => sum + entry.bytes, 0));
+        expect(blob.size).toBeLessThan(file.size - 6000);
+        expect(await pageNumbersOf(blob)).toEqual([1, 2]);
+
+        const doc = await openPdf(blob);
+        const root = doc.getTrailer().get('Root');
+        expect(root.get('OpenAction').isNull()).toBe(true);
+        expect(root.get('Metadata').isNull()).toBe(true);
+        expect(root.get('Names', 'JavaScript').isNull()).toBe(true);
+        expect(root.get('Names', 'EmbeddedFiles').isNull()).toBe(true);
+        expect(root.get('Names', 'Dests', 'Names').toString()).toMatch(/^\[\(intro\)\[\d+ 0 R\/Fit\]\]$/);
+        expect(doc.findPage(0).get('Thumb').isNull()).toBe(true);
+        expect(doc.findPage(0).get('PieceInfo').isNull()).toBe(true);
+
+        expect(widget(doc, 'name').get('AP').isNull()).toBe(true);
+        expect(widget(doc, 'agree').get('AP').isDictionary()).toBe(true);
+        expect(root.get('AcroForm', 'NeedAppearances').asBoolean()).toBe(true);
+        doc.destroy();
+    });
+
+    it('leaves content that was not selected', async () => {
+        const { blob, report } = await cleanPdf(await createCleanablePdf(), ['thumbnails', 'pieceInfo']);
+
+        expect(report.removed.map((entry) => entry.item)).toEqual(['thumbnails', 'pieceInfo']);
+        const doc = await openPdf(blob);
+        expect(Object.keys(doc.getEmbeddedFiles())).toEqual(['photo.jpg']);
+        expect(doc.getTrailer().get('Root', 'OpenAction').isDictionary()).toBe(true);
+        doc.destroy();
+    });
+
+    it('returns the input untouched when there is nothing to remove', async () => {
+        const file = await createMultiPagePdf(2);
+        const { blob, report } = await cleanPdf(file, ALL_ITEMS);
+
+        expect(blob).toBe(file);
+        expect(report.bytesSaved).toBe(0);
+        expect(report.removed.every((entry) => entry.count === 0)).toBe(true);
+    });
+});
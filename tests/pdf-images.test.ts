@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { imagesToPdf, PAGE_SIZES } from '../src/lib/pdf-images';
+import { createImageFile, loadPdf } from './fixtures';
+
+async function pageSizesOf(blob: Blob): Promise<{ width: number; height: number }[]> {
+    const doc = await loadPdf(blob);
+    return doc.getPages().map((page) => page.getSize());
+}
+
+describe('imagesToPdf', () => {
+    it('creates one page per image, PNG and JPEG alike', async () => {
+        const result = await imagesToPdf([
+            createImageFile('image/png', 40, 30),
+            createImageFile('image/jpeg', 30, 40),
+        ]);
+        expect(await pageSizesOf(result)).toHaveLength(2);
+    });
+
+    it('uses the selected page size', async () => {
+        const a4 = await imagesToPdf([createImageFile('image/png', 40, 30)], 'A4');
+        expect(await pageSizesOf(a4)).toEqual([PAGE_SIZES.A4]);
+
+        const letter = await imagesToPdf([createImageFile('image/png', 40, 30)], 'Letter');
+        expect(await pageSizesOf(letter)).toEqual([PAGE_SIZES.Letter]);
+    });
+
+    it('sizes pages to the image with Fit to Image', async () => {
+        const result = await imagesToPdf([createImageFile('image/jpeg', 64, 48)], 'Fit to Image');
+        expect(await pageSizesOf(result)).toEqual([{ width: 64, height: 48 }]);
+    });
+
+    it('reports progress per image', async () => {
+        const progress: number[] = [];
+        await imagesToPdf(
+            [createImageFile('image/png', 10, 10), createImageFile('image/png', 10, 10)],
+            'A4',
+            (value) => progress.push(value),
+        );
+        expect(progress).toEqual([50, 100]);
+    });
+
+    it('rejects files that are not images', async () => {
+        const notAnImage = new File(['hello'], 'notes.jpg', { type: 'image/jpeg' });
+        await expect(imagesToPdf([notAnImage])).rejects.toThrow();
+    });
+});
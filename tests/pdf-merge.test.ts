@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { mergePdfs } from '../src/lib/pdf-merge';
+import { createFormPdf, createMalformedPdf, createMultiPagePdf, createRotatedPdf, loadPdf, pageNumbersOf } from './fixtures';
+
+describe('mergePdfs', () => {
+    it('concatenates every page in file order', async () => {
+        const merged = await mergePdfs([await createMultiPagePdf(2), await createMultiPagePdf(3)]);
+        expect(await pageNumbersOf(merged)).toEqual([1, 2, 1, 2, 3]);
+    });
+
+    it('reports progress per file', async () => {
+        const progress: number[] = [];
+        await mergePdfs([await createMultiPagePdf(1), await createMultiPagePdf(1)], (value) => progress.push(value));
+        expect(progress).toEqual([50, 100]);
+    });
+
+    it('keeps existing page rotation', async () => {
+        const merged = await loadPdf(await mergePdfs([await createRotatedPdf(1, 90), await createMultiPagePdf(1)]));
+        expect(merged.getPages().map((page) => page.getRotation().angle)).toEqual([90, 0]);
+    });
+
+    it('merges documents that contain forms', async () => {
+        const merged = await mergePdfs([await createFormPdf(), await createMultiPagePdf(1)]);
+        expect(await pageNumbersOf(merged)).toEqual([1, 2, 1]);
+    });
+
+    it('rejects malformed input', async () => {
+        await expect(mergePdfs([await createMultiPagePdf(1), createMalformedPdf()])).rejects.toThrow();
+    });
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(mergePdfs([await createMultiPagePdf(1)], undefined, controller.signal)).rejects.toThrow();
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getPdfPageCount, removePages, reorderPages, rotatePages } from '../src/lib/pdf-pages';
+import { createMultiPagePdf, createRotatedPdf, loadPdf, pageNumbersOf } from './fixtures';
+
+async function rotationsOf(blob: Blob): Promise<number[]> {
+    const doc = await loadPdf(blob);
+    return doc.getPages().map((page) => page.getRotation().angle);
+}
+
+describe('removePages', () => {
+    it('drops the listed pages', async () => {
+        const result = await removePages(await createMultiPagePdf(5), [2, 4]);
+        expect(await pageNumbersOf(result)).toEqual([1, 3, 5]);
+    });
+
+    it('ignores page numbers that do not exist', async () => {
+        const result = await removePages(await createMultiPagePdf(3), [3, 9]);
+        expect(await pageNumbersOf(result)).toEqual([1, 2]);
+    });
+
+    it('refuses to remove every page', async () => {
+        await expect(removePages(await createMultiPagePdf(2), [1, 2])).rejects.toThrow('Cannot remove all pages');
+    });
+});
+
+describe('rotatePages', () => {
+    it('rotates only the listed pages', async () => {
+        const result = await rotatePages(await createMultiPagePdf(3), { 1: 90, 3: 270 });
+        expect(await rotationsOf(result)).toEqual([90, 0, 270]);
+    });
+
+    it('adds to the existing rotation and wraps at 360', async () => {
+        const result = await rotatePages(await createRotatedPdf(2, 90), { 1: 90, 2: 270 });
+        expect(await rotationsOf(result)).toEqual([180, 0]);
+    });
+});
+
+describe('reorderPages', () => {
+    it('writes pages in the new order', async () => {
+        const result = await reorderPages(await createMultiPagePdf(4), [4, 2, 1, 3]);
+        expect(await pageNumbersOf(result)).toEqual([4, 2, 1, 3]);
+    });
+
+    it('can duplicate and drop pages', async () => {
+        const result = await reorderPages(await createMultiPagePdf(3), [1, 1, 3]);
+        expect(await pageNumbersOf(result)).toEqual([1, 1, 3]);
+    });
+});
+
+describe('getPdfPageCount', () => {
+    it('counts pages', async () => {
+        expect(await getPdfPageCount(await createMultiPagePdf(7))).toBe(7);
+    });
+});
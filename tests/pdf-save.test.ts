@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { applySaveOptions, checkLinearization, linearizePdf } from '../src/lib/pdf-save';
+import { createMultiPagePdf, pageNumbersOf } from './fixtures';
+
+async function bytesOf(blob: Blob): Promise<Uint8Array> {
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('linearizePdf', () => {
+    it('writes a file that checks out as linearized and keeps every page', async () => {
+        const linearized = await linearizePdf(await createMultiPagePdf(3));
+
+        expect(checkLinearization(await bytesOf(linearized))).toEqual({ linearized: true, problem: null });
+        expect(await pageNumbersOf(linearized)).toEqual([1, 2, 3]);
+    });
+});
+
+describe('checkLinearization', () => {
+    it('reports a plain PDF as not linearized', async () => {
+        const status = checkLinearization(await bytesOf(await createMultiPagePdf(2)));
+
+        expect(status.linearized).toBe(false);
+        expect(status.problem).toMatch(/No linearization dictionary/);
+    });
+
+    it('reports a linearized PDF that was appended to as changed', async () => {
+        const linearized = await bytesOf(await linearizePdf(await createMultiPagePdf(2)));
+        const appended = new Uint8Array([...linearized, ...new TextEncoder().encode('\n% appended\n')]);
+
+        expect(checkLinearization(appended)).toEqual({ linearized: false, problem: 'The file was changed after it was linearized' });
+    });
+});
+
+describe('applySaveOptions', () => {
+    it('returns the input untouched when no option is set', async () => {
+        const blob = await createMultiPagePdf(2);
+        const saved = await applySaveOptions(blob, { linearize: false });
+
+        expect(saved.blob).toBe(blob);
+        expect(saved.linearization).toBeNull();
+    });
+
+    it('verifies the output when linearizing', async () => {
+        const saved = await applySaveOptions(await createMultiPagePdf(2), { linearize: true });
+
+        expect(saved.linearization).toEqual({ linearized: true, problem: null });
+    });
+});
@@ -0,0 +1,54 @@
+import * as mupdf from 'mupdf';
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { protectPdf, unlockPdf } from '../src/lib/pdf-security';
+import { createEncryptedPdf, createMultiPagePdf, pageNumbersOf } from './fixtures';
+
+async function openAsUser(blob: Blob, password: string): Promise<mupdf.Document> {
+    const doc = mupdf.Document.openDocument(new Uint8Array(await blob.arrayBuffer()), 'application/pdf');
+    expect(doc.authenticatePassword(password)).toBeGreaterThan(0);
+    return doc;
+}
+
+describe('protectPdf / unlockPdf', () => {
+    it('encrypts the document', async () => {
+        const file = await createEncryptedPdf('secret');
+        const doc = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+        expect(doc.isEncrypted).toBe(true);
+    });
+
+    it('grants only the requested permissions to the user password', async () => {
+        const protectedPdf = await protectPdf(await createMultiPagePdf(2), {
+            userPassword: 'reader',
+            ownerPassword: 'owner',
+            permissions: { printing: true },
+        });
+        const doc = await openAsUser(protectedPdf, 'reader');
+
+        expect(doc.hasPermission('print')).toBe(true);
+        expect(doc.hasPermission('copy')).toBe(false);
+        expect(doc.hasPermission('edit')).toBe(false);
+        doc.destroy();
+    });
+
+    it('grants every permission to the owner password', async () => {
+        const protectedPdf = await protectPdf(await createMultiPagePdf(2), {
+            userPassword: 'reader',
+            ownerPassword: 'owner',
+        });
+        const doc = await openAsUser(protectedPdf, 'owner');
+
+        expect(doc.hasPermission('copy')).toBe(true);
+        expect(doc.hasPermission('edit')).toBe(true);
+        doc.destroy();
+    });
+
+    it('removes the password when it is correct', async () => {
+        const unlocked = await unlockPdf(await createEncryptedPdf('secret'), 'secret');
+        expect(await pageNumbersOf(unlocked)).toEqual([1, 2, 3]);
+    });
+
+    it('rejects a wrong password', async () => {
+        await expect(unlockPdf(await createEncryptedPdf('secret'), 'guess')).rejects.toThrow('Incorrect password');
+    });
+});
@@ -0,0 +1,369 @@
+import { describe, expect, it } from 'vitest';
+import {
+    extractPages,
+    groupBySeparators,
+    groupEveryNPages,
+    groupIntoParts,
+    parsePageGroups,
+    parsePageRange,
+    planOutlineSections,
+    readOutline,
+    sanitizeFileName,
+    splitPdfAllPages,
+    splitPdfByGroups,
+    splitPdfByOutline,
+    splitPdfByRange,
+    splitPdfBySize,
+    splitPdfEveryNPages,
+    splitPdfIntoParts,
+    validatePageRange,
+} from '../src/lib/pdf-split';
+import {
+    createEncryptedPdf,
+    createFormPdf,
+    createMalformedPdf,
+    createMultiPagePdf,
+    createOutlinePdf,
+    pageNumbersOf,
+    type OutlineSpec,
+} from './fixtures';
+
+describe('parsePageRange', () => {
+    it('parses single pages, ranges and mixed lists', () => {
+        expect(parsePageRange('3', 10)).toEqual([3]);
+        expect(parsePageRange('2-4', 10)).toEqual([2, 3, 4]);
+        expect(parsePageRange('1-3, 5, 7-8', 10)).toEqual([1, 2, 3, 5, 7, 8]);
+    });
+
+    it('sorts and de-duplicates pages', () => {
+        expect(parsePageRange('5, 1-3, 2', 10)).toEqual([1, 2, 3, 5]);
+    });
+
+    it('ignores whitespace and empty entries', () => {
+        expect(parsePageRange(' 1 - 2 ,, 4 ', 10)).toEqual([1, 2, 4]);
+    });
+
+    it('rejects invalid input', () => {
+        expect(() => parsePageRange('abc', 10)).toThrow('Invalid page number');
+        expect(() => parsePageRange('1-x', 10)).toThrow('Invalid range');
+        expect(() => parsePageRange('5-2', 10)).toThrow('start > end');
+        expect(() => parsePageRange('', 10)).toThrow('No pages specified');
+    });
+
+    it('rejects pages outside the document', () => {
+        expect(() => parsePageRange('0', 10)).toThrow('out of bounds');
+        expect(() => parsePageRange('11', 10)).toThrow('out of bounds');
+        expect(() => parsePageRange('8-12', 10)).toThrow('out of bounds');
+    });
+
+    it('understands end, odd, even and last-N', () => {
+        expect(parsePageRange('8-end', 10)).toEqual([8, 9, 10]);
+        expect(parsePageRange('end', 10)).toEqual([10]);
+        expect(parsePageRange('odd', 5)).toEqual([1, 3, 5]);
+        expect(parsePageRange('EVEN', 5)).toEqual([2, 4]);
+        expect(parsePageRange('last-3', 10)).toEqual([8, 9, 10]);
+        expect(parsePageRange('1, last-2', 10)).toEqual([1, 9, 10]);
+        expect(() => parsePageRange('last-11', 10)).toThrow('out of bounds');
+    });
+
+    it('combines the pages of all groups', () => {
+        expect(parsePageRange('4-5; 1-2', 10)).toEqual([1, 2, 4, 5]);
+    });
+
+    it('is mirrored by validatePageRange', () => {
+        expect(validatePageRange('1-3', 5)).toEqual({ isValid: true });
+        expect(validatePageRange('1-9', 5).isValid).toBe(false);
+    });
+});
+
+describe('parsePageGroups', () => {
+    it('returns one group per semicolon-separated part', () => {
+        expect(parsePageGroups('1-3; 4-6, 9; 10-end', 12)).toEqual([[1, 2, 3], [4, 5, 6, 9], [10, 11, 12]]);
+        expect(parsePageGroups('odd; even;', 4)).toEqual([[1, 3], [2, 4]]);
+    });
+
+    it('rejects groups that select no pages', () => {
+        expect(() => parsePageGroups('1; even', 1)).toThrow('No pages in "even"');
+        expect(() => parsePageGroups(' ; ', 4)).toThrow('No pages specified');
+    });
+});
+
+describe('groupEveryNPages', () => {
+    it('puts the leftover pages in the last group', () => {
+        expect(groupEveryNPages(5, 2)).toEqual([[1, 2], [3, 4], [5]]);
+        expect(groupEveryNPages(2, 5)).toEqual([[1, 2]]);
+    });
+
+    it('rejects sizes that are not positive whole numbers', () => {
+        expect(() => groupEveryNPages(5, 0)).toThrow('at least 1');
+        expect(() => groupEveryNPages(5, 1.5)).toThrow('whole number');
+    });
+});
+
+describe('groupIntoParts', () => {
+    it('gives earlier parts the extra pages', () => {
+        expect(groupIntoParts(10, 3)).toEqual([[1, 2, 3, 4], [5, 6, 7], [8, 9, 10]]);
+        expect(groupIntoParts(4, 4)).toEqual([[1], [2], [3], [4]]);
+    });
+
+    it('rejects more parts than pages', () => {
+        expect(() => groupIntoParts(3, 4)).toThrow('Cannot split 3 pages into 4 parts');
+        expect(() => groupIntoParts(3, 0)).toThrow('at least 1');
+    });
+});
+
+describe('groupBySeparators', () => {
+    it('starts a document after each run of separators', () => {
+        expect(groupBySeparators(8, [3, 6, 7], true)).toEqual([[1, 2], [4, 5], [8]]);
+    });
+
+    it('keeps separators at the start of the document that follows them', () => {
+        expect(groupBySeparators(8, [1, 3, 6, 7], false)).toEqual([[1, 2], [3, 4, 5], [6, 7, 8]]);
+        expect(groupBySeparators(5, [2, 4, 5], false)).toEqual([[1], [2, 3, 4, 5]]);
+    });
+
+    it('keeps the listed separators when dropping the others', () => {
+        expect(groupBySeparators(8, [3, 6, 7], true, [6])).toEqual([[1, 2], [4, 5], [6, 8]]);
+    });
+
+    it('returns the whole document when there are no separators', () => {
+        expect(groupBySeparators(3, [], true)).toEqual([[1, 2, 3]]);
+    });
+
+    it('rejects documents made only of separators', () => {
+        expect(() => groupBySeparators(2, [1, 2], true)).toThrow('Every page is a separator');
+    });
+});
+
+describe('planOutlineSections', () => {
+    const outline = [
+        { title: 'One', pageNumber: 2, depth: 1 },
+        { title: 'One A', pageNumber: 3, depth: 2 },
+        { title: 'Two', pageNumber: 5, depth: 1 },
+        { title: 'Two intro', pageNumber: 5, depth: 2 },
+    ];
+
+    it('splits at top-level bookmarks and keeps leading pages as front matter', () => {
+        expect(planOutlineSections(outline, 6, 1)).toEqual([
+            { title: 'Front matter', pageNumbers: [1] },
+            { title: 'One', pageNumbers: [2, 3, 4] },
+            { title: 'Two', pageNumbers: [5, 6] },
+        ]);
+    });
+
+    it('splits at deeper bookmarks, naming shared start pages after the first', () => {
+        expect(planOutlineSections(outline, 6, 2).map((section) => [section.title, section.pageNumbers])).toEqual([
+            ['Front matter', [1]],
+            ['One', [2]],
+            ['One A', [3, 4]],
+            ['Two', [5, 6]],
+        ]);
+    });
+
+    it('rejects documents without bookmarks', () => {
+        expect(() => planOutlineSections([], 3, 1)).toThrow('no bookmarks');
+    });
+});
+
+describe('sanitizeFileName', () => {
+    it('keeps titles safe for every file system', () => {
+        expect(sanitizeFileName('Chapter 1: Costs / Benefits?')).toBe('Chapter_1_Costs_Benefits');
+        expect(sanitizeFileName('  ..\u0007  ')).toBe('section');
+        expect(sanitizeFileName('x'.repeat(100))).toHaveLength(80);
+    });
+});
+
+describe('splitPdfByRange', () => {
+    it('extracts the requested pages into one file', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(6, 'report.pdf'), '2-3, 6');
+
+        expect(result.totalPages).toBe(6);
+        expect(result.originalName).toBe('report.pdf');
+        expect(result.pages).toHaveLength(1);
+        expect(result.pages[0].pageNumbers).toEqual([2, 3, 6]);
+        expect(result.pages[0].fileName).toBe('report_pages_2-3,6.pdf');
+        expect(await pageNumbersOf(result.pages[0].blob)).toEqual([2, 3, 6]);
+    });
+
+    it('names single-page extracts after the page', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(3, 'report.pdf'), '2');
+        expect(result.pages[0].fileName).toBe('report_page_2.pdf');
+    });
+
+    it('writes one file per group', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(6, 'report.pdf'), '1-2; 3; last-3');
+
+        expect(result.pages.map((page) => page.fileName)).toEqual([
+            'report_pages_1-2.pdf',
+            'report_page_3.pdf',
+            'report_pages_4-6.pdf',
+        ]);
+        expect(await pageNumbersOf(result.pages[2].blob)).toEqual([4, 5, 6]);
+    });
+
+    it('names groups with gaps after every page they hold', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(6, 'report.pdf'), 'odd');
+        expect(result.pages[0].fileName).toBe('report_pages_1,3,5.pdf');
+    });
+
+    it('numbers the files when the page list is too long for a file name', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(60, 'report.pdf'), 'odd; even');
+        expect(result.pages.map((page) => page.fileName)).toEqual(['report_part_1_of_2.pdf', 'report_part_2_of_2.pdf']);
+    });
+
+    it('numbers groups that would get the same file name', async () => {
+        const result = await splitPdfByRange(await createMultiPagePdf(3, 'report.pdf'), '1-3; 1-3');
+        expect(result.pages.map((page) => page.fileName)).toEqual(['report_pages_1-3.pdf', 'report_pages_1-3_2.pdf']);
+    });
+
+    it('keeps pages of documents with forms', async () => {
+        const result = await splitPdfByRange(await createFormPdf(), '1');
+        expect(await pageNumbersOf(result.pages[0].blob)).toEqual([1]);
+    });
+
+    it('counts pages of encrypted documents without the password', async () => {
+        const result = await splitPdfByRange(await createEncryptedPdf('secret', 4), '1-2');
+        expect(result.totalPages).toBe(4);
+    });
+
+    it('rejects ranges outside the document', async () => {
+        await expect(splitPdfByRange(await createMultiPagePdf(3), '2-5')).rejects.toThrow('out of bounds');
+    });
+
+    it('rejects malformed files', async () => {
+        await expect(splitPdfByRange(createMalformedPdf(), '1')).rejects.toThrow();
+    });
+});
+
+describe('splitPdfAllPages', () => {
+    it('writes one file per page and reports progress', async () => {
+        const progress: number[] = [];
+        const result = await splitPdfAllPages(await createMultiPagePdf(3, 'report.pdf'), (value) => progress.push(value));
+
+        expect(result.pages.map((page) => page.fileName)).toEqual([
+            'report_page_1.pdf',
+            'report_page_2.pdf',
+            'report_page_3.pdf',
+        ]);
+        expect(await pageNumbersOf(result.pages[2].blob)).toEqual([3]);
+        expect(progress).toEqual([33, 67, 100]);
+    });
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(splitPdfAllPages(await createMultiPagePdf(3), undefined, controller.signal)).rejects.toThrow();
+    });
+});
+
+describe('splitPdfEveryNPages', () => {
+    it('writes a file per run of pages and reports progress', async () => {
+        const progress: number[] = [];
+        const result = await splitPdfEveryNPages(await createMultiPagePdf(5, 'scans.pdf'), 2, (value) => progress.push(value));
+
+        expect(result.pages.map((page) => page.fileName)).toEqual([
+            'scans_pages_1-2.pdf',
+            'scans_pages_3-4.pdf',
+            'scans_page_5.pdf',
+        ]);
+        expect(await pageNumbersOf(result.pages[1].blob)).toEqual([3, 4]);
+        expect(progress).toEqual([33, 67, 100]);
+    });
+});
+
+describe('splitPdfIntoParts', () => {
+    it('writes numbered parts of nearly equal length', async () => {
+        const result = await splitPdfIntoParts(await createMultiPagePdf(7, 'scans.pdf'), 3);
+
+        expect(result.pages.map((page) => page.fileName)).toEqual([
+            'scans_part_1_of_3.pdf',
+            'scans_part_2_of_3.pdf',
+            'scans_part_3_of_3.pdf',
+        ]);
+        expect(result.pages.map((page) => page.pageNumbers)).toEqual([[1, 2, 3], [4, 5], [6, 7]]);
+        expect(await pageNumbersOf(result.pages[2].blob)).toEqual([6, 7]);
+    });
+
+    it('rejects more parts than pages', async () => {
+        await expect(splitPdfIntoParts(await createMultiPagePdf(2), 3)).rejects.toThrow('Cannot split');
+    });
+});
+
+describe('splitPdfByOutline', () => {
+    const outline: OutlineSpec[] = [
+        { title: 'Introduction', page: 1 },
+        { title: 'Methods', page: 2, children: [{ title: 'Sampling', page: 3 }] },
+        { title: 'Results', page: 4 },
+    ];
+
+    it('reads nested bookmarks in document order', async () => {
+        expect(await readOutline(await createOutlinePdf(5, outline))).toEqual([
+            { title: 'Introduction', pageNumber: 1, depth: 1 },
+            { title: 'Methods', pageNumber: 2, depth: 1 },
+            { title: 'Sampling', pageNumber: 3, depth: 2 },
+            { title: 'Results', pageNumber: 4, depth: 1 },
+        ]);
+    });
+
+    it('writes one file per section, named after its bookmark', async () => {
+        const result = await splitPdfByOutline(await createOutlinePdf(5, outline, 'study.pdf'), 1);
+
+        expect(result.pages.map((page) => page.fileName)).toEqual([
+            'study_1_Introduction.pdf',
+            'study_2_Methods.pdf',
+            'study_3_Results.pdf',
+        ]);
+        expect(await pageNumbersOf(result.pages[1].blob)).toEqual([2, 3]);
+        expect(await pageNumbersOf(result.pages[2].blob)).toEqual([4, 5]);
+    });
+
+    it('rejects documents without bookmarks', async () => {
+        await expect(splitPdfByOutline(await createMultiPagePdf(3), 1)).rejects.toThrow('no bookmarks');
+    });
+});
+
+describe('splitPdfBySize', () => {
+    it('fills each part with as many pages as fit under the limit', async () => {
+        const file = await createMultiPagePdf(9, 'scans.pdf');
+        const limit = (await extractPages(file, [1, 2, 3])).size;
+        const progress: number[] = [];
+        const result = await splitPdfBySize(file, limit, (value) => progress.push(value));
+
+        expect(result.oversizedPages).toEqual([]);
+        expect(result.pages.flatMap((page) => page.pageNumbers)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(result.pages[0].pageNumbers).toEqual([1, 2, 3]);
+        for (const page of result.pages) {
+            expect(page.blob.size).toBeLessThanOrEqual(limit);
+            const last = page.pageNumbers[page.pageNumbers.length - 1];
+            if (last < 9) {
+                expect((await extractPages(file, [...page.pageNumbers, last + 1])).size).toBeGreaterThan(limit);
+            }
+        }
+        expect(progress[progress.length - 1]).toBe(100);
+    });
+
+    it('reports pages that are over the limit on their own', async () => {
+        const file = await createMultiPagePdf(3, 'scans.pdf');
+        const result = await splitPdfBySize(file, 100);
+
+        expect(result.oversizedPages).toEqual([1, 2, 3]);
+        expect(result.pages.map((page) => page.fileName)).toEqual(['scans_page_1.pdf', 'scans_page_2.pdf', 'scans_page_3.pdf']);
+    });
+
+    it('rejects limits that are not positive', async () => {
+        await expect(splitPdfBySize(await createMultiPagePdf(2), 0)).rejects.toThrow('more than 0 bytes');
+    });
+});
+
+describe('splitPdfByGroups', () => {
+    it('writes one file per group', async () => {
+        const result = await splitPdfByGroups(await createMultiPagePdf(5, 'scans.pdf'), [[1, 2], [4, 5]]);
+
+        expect(result.pages.map((page) => page.fileName)).toEqual(['scans_pages_1-2.pdf', 'scans_pages_4-5.pdf']);
+        expect(await pageNumbersOf(result.pages[1].blob)).toEqual([4, 5]);
+    });
+
+    it('rejects groups with pages the PDF does not have', async () => {
+        await expect(splitPdfByGroups(await createMultiPagePdf(2), [[1], [2, 3]])).rejects.toThrow('do not fit a PDF with 2 pages');
+    });
+});
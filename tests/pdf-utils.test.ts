@@ -0,0 +1,254 @@
+import * as mupdf from 'mupdf';
+import { describe, expect, it, vi } from 'vitest';
+import { analyzePdfSize } from '../src/lib/pdf-analyze';
+import { compressLosslessQpdf } from '../src/lib/pdf-compressor-lossless-engines';
+import { compressFonts } from '../src/lib/pdf-compressor-mupdf';
+import { compressPDF, TARGET_SIZE_LADDER } from '../src/lib/pdf-utils';
+import { createCleanablePdf, createDuplicateFontPdf, createFormPdf, createImagePdf, createMalformedPdf, createMultiPagePdf, pageNumbersOf } from './fixtures';
+
+vi.mock('../src/lib/pdf-compressor-lossless-engines', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../src/lib/pdf-compressor-lossless-engines')>();
+    return { ...actual, compressLosslessQpdf: vi.fn(actual.compressLosslessQpdf) };
+});
+
+describe('compressPDF (lossless)', () => {
+    it('runs every engine and returns the smallest output', async () => {
+        const file = await createImagePdf();
+        const reported: string[] = [];
+        const result = await compressPDF(file, {
+            quality: 'lossless',
+            onEngineResult: (engineResult) => reported.push(engineResult.engine),
+        });
+
+        expect(reported).toEqual(['mupdf', 'pdf-lib', 'ghostscript', 'qpdf', 'mupdf-fonts']);
+        expect(result.engineResults.every((engineResult) => engineResult.status === 'success')).toBe(true);
+
+        const sizes = result.engineResults.map((engineResult) => engineResult.compressedSize as number);
+        expect(sizes).toEqual([...sizes].sort((a, b) => a - b));
+
+        expect(result.engine).toBe(result.engineResults[0].engine);
+        expect(result.compressedSize).toBe(sizes[0]);
+        expect(result.blob.size).toBe(sizes[0]);
+        expect(result.fileName).toBe('images_compressed.pdf');
+        expect(await pageNumbersOf(result.blob)).toEqual([1, 2]);
+    });
+
+    it('ranks failed engines last and still returns the best success', async () => {
+        vi.mocked(compressLosslessQpdf).mockRejectedValueOnce(new Error('qpdf crashed'));
+
+        const result = await compressPDF(await createFormPdf(), { quality: 'lossless' });
+        const last = result.engineResults[result.engineResults.length - 1];
+
+        expect(last).toMatchObject({ engine: 'qpdf', status: 'failed', error: 'qpdf crashed', blob: null });
+        expect(result.engine).not.toBe('qpdf');
+    });
+
+    it('fails with every engine error when nothing succeeds', async () => {
+        const notAPdf = new File(['just some text'], 'notes.pdf', { type: 'application/pdf' });
+        await expect(compressPDF(notAPdf, { quality: 'lossless' })).rejects.toThrow(/MuPDF: .* \| pdf-lib: .* \| Ghostscript: .* \| QPDF: .* \| MuPDF Fonts: /);
+    });
+
+    it('repairs a truncated file with at least one engine', async () => {
+        const result = await compressPDF(createMalformedPdf(), { quality: 'lossless' });
+        expect(result.engineResults.find((engineResult) => engineResult.engine === 'pdf-lib')?.status).toBe('failed');
+        expect(result.engineResults[0].status).toBe('success');
+    });
+
+    it('cleans the file before the engines run', async () => {
+        const file = await createCleanablePdf();
+        const plain = await compressPDF(file, { quality: 'lossless' });
+        const result = await compressPDF(file, { quality: 'lossless', clean: ['thumbnails', 'attachments'] });
+
+        expect(plain.clean).toBeUndefined();
+        expect(result.clean?.removed.map((entry) => entry.item)).toEqual(['thumbnails', 'attachments']);
+        expect(result.originalSize).toBe(file.size);
+        expect(result.compressedSize).toBeLessThan(plain.compressedSize);
+    });
+
+    it('stops when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(compressPDF(await createImagePdf(1), { quality: 'lossless', signal: controller.signal })).rejects.toThrow();
+    });
+});
+
+describe('compressFonts', () => {
+    it('merges duplicate embedded fonts into one subset font', async () => {
+        const file = createDuplicateFontPdf(3);
+        const before = await analyzePdfSize(file);
+        expect(before.fonts).toHaveLength(3);
+        expect(before.fonts.every((font) => font.embedded && !font.subset)).toBe(true);
+
+        const blob = await compressFonts(file);
+        const after = await analyzePdfSize(new File([blob], 'fonts.pdf'));
+
+        expect(after.fonts).toHaveLength(1);
+        expect(after.fonts[0]).toMatchObject({ embedded: true, subset: true, pages: [1, 2, 3] });
+        expect(blob.size).toBeLessThan(file.size / 3);
+
+        const doc = mupdf.Document.openDocument(new Uint8Array(await blob.arrayBuffer()), 'application/pdf');
+        expect(doc.loadPage(1).toStructuredText().asText().trim()).toBe('Page 2');
+        doc.destroy();
+    });
+});
+
+describe('compressPDF (chained engines)', () => {
+    it('feeds the best output into the other engines while it keeps shrinking', async () => {
+        const result = await compressPDF(await createMultiPagePdf(6), { quality: 'lossless', chainEngines: true });
+        const chain = result.chain!;
+        const [best] = result.engineResults;
+
+        expect(chain[0]).toEqual({ engine: best.engine, label: best.label, compressedSize: best.compressedSize });
+        expect(new Set(chain.map((step) => step.engine)).size).toBe(chain.length);
+        chain.slice(1).forEach((step, index) => expect(step.compressedSize).toBeLessThan(chain[index].compressedSize));
+
+        expect(result.compressedSize).toBe(chain[chain.length - 1].compressedSize);
+        expect(result.blob.size).toBe(result.compressedSize);
+        expect(result.engine).toBe(chain.length > 1 ? 'chain' : best.engine);
+        expect(await pageNumbersOf(result.blob)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('never adds an engine whose output is not smaller', async () => {
+        // QPDF hands back its input untouched, so it can never win a chain step.
+        vi.mocked(compressLosslessQpdf).mockImplementation(async (file) => new Blob([await file.arrayBuffer()]));
+
+        try {
+            const result = await compressPDF(await createImagePdf(), { quality: 'lossless', chainEngines: true });
+            expect(result.chain!.map((step) => step.engine)).not.toContain('qpdf');
+            expect(result.compressedSize).toBeLessThanOrEqual(result.engineResults[0].compressedSize as number);
+        } finally {
+            vi.mocked(compressLosslessQpdf).mockReset();
+        }
+    });
+});
+
+/** Text and first image XObject of each page, read back with MuPDF */
+async function inspectPages(blob: Blob): Promise<{ text: string; imageWidth: number; filter: string; colorSpace: string }[]> {
+    const doc = new mupdf.PDFDocument(new Uint8Array(await blob.arrayBuffer()));
+    return Array.from({ length: doc.countPages() }, (_, index) => {
+        const page = doc.loadPage(index);
+        let image: mupdf.PDFObject | null = null;
+        page.getObject().get('Resources').get('XObject').forEach((ref) => { image ??= ref; });
+        return {
+            text: page.toStructuredText().asText(),
+            imageWidth: image!.get('Width').asNumber(),
+            filter: image!.get('Filter').toString(),
+            colorSpace: image!.get('ColorSpace').toString(),
+        };
+    });
+}
+
+describe('compressPDF (balanced)', () => {
+    it('downsamples images above the target DPI and keeps the text', async () => {
+        // 1200px over a 400pt tall page is shown at 216 DPI.
+        const file = await createImagePdf(2, 1200);
+        const result = await compressPDF(file, { quality: 'balanced', targetDpi: 108, jpegQuality: 70 });
+
+        expect(result.engine).toBe('balanced');
+        expect(result.compressedSize).toBeLessThan(file.size);
+
+        const pages = await inspectPages(result.blob);
+        expect(pages.map((page) => page.text.trim())).toEqual(['Page 1', 'Page 2']);
+        expect(pages.every((page) => page.imageWidth === 600 && page.filter === '/DCTDecode')).toBe(true);
+    });
+
+    it('leaves images at or below the target DPI alone', async () => {
+        const result = await compressPDF(await createImagePdf(1), { quality: 'balanced', targetDpi: 150 });
+        const [page] = await inspectPages(result.blob);
+
+        expect(page.imageWidth).toBe(200);
+        expect(page.filter).toBe('/FlateDecode');
+    });
+});
+
+describe('compressPDF (target size)', () => {
+    it('returns a lossless output when one already fits', async () => {
+        const file = await createImagePdf(1);
+        const result = await compressPDF(file, { quality: 'target', targetSize: file.size * 2 });
+
+        expect(result.target).toEqual({ targetSize: file.size * 2, reached: true, settings: null, attempts: [] });
+        expect(result.engine).toBe(result.engineResults[0].engine);
+    });
+
+    it('picks the highest-quality setting that fits the budget', async () => {
+        const result = await compressPDF(await createImagePdf(1, 1200), { quality: 'target', targetSize: 50_000 });
+        const target = result.target!;
+
+        expect(target.reached).toBe(true);
+        expect(result.engine).toBe('balanced');
+        expect(result.compressedSize).toBeLessThanOrEqual(50_000);
+
+        // Every higher-quality setting that was tried did not fit.
+        const chosen = TARGET_SIZE_LADDER.indexOf(target.settings!);
+        for (const attempt of target.attempts) {
+            expect(attempt.fits).toBe(TARGET_SIZE_LADDER.indexOf(attempt.settings) >= chosen);
+        }
+        expect(await pageNumbersOf(result.blob)).toEqual([1]);
+    });
+
+    it('reports an unreachable budget after trying the smallest setting', async () => {
+        const result = await compressPDF(await createImagePdf(1, 1200), { quality: 'target', targetSize: 1_000 });
+
+        expect(result.target!.reached).toBe(false);
+        expect(result.target!.attempts).toHaveLength(1);
+        expect(result.target!.attempts[0].settings).toBe(TARGET_SIZE_LADDER.at(-1));
+    });
+});
+
+describe('compressPDF (Ghostscript profiles)', () => {
+    it('ranks the selected profiles together with the lossless engines', async () => {
+        const file = await createImagePdf(1, 1200);
+        const reported: string[] = [];
+        const result = await compressPDF(file, {
+            quality: 'profiles',
+            ghostscriptPresets: ['screen', 'printer'],
+            customDownsampling: { colorDpi: 100, grayDpi: 100, monoDpi: 300, threshold: 1.5 },
+            onEngineResult: (engineResult) => reported.push(engineResult.engine),
+        });
+
+        expect(reported).toEqual(['mupdf', 'pdf-lib', 'ghostscript', 'qpdf', 'mupdf-fonts', 'gs-screen', 'gs-printer', 'gs-custom']);
+        expect(result.engineResults.every((engineResult) => engineResult.status === 'success')).toBe(true);
+
+        const sizes = result.engineResults.map((engineResult) => engineResult.compressedSize as number);
+        expect(sizes).toEqual([...sizes].sort((a, b) => a - b));
+
+        const size = (engine: string) => result.engineResults.find((entry) => entry.engine === engine)!.compressedSize!;
+        expect(size('gs-screen')).toBeLessThan(size('gs-printer'));
+        expect(result.engineResults.find((entry) => entry.engine === 'gs-custom')!.label).toBe('Ghostscript custom (100/100/300 DPI)');
+    });
+});
+
+describe('compressPDF (extreme)', () => {
+    it('rasterizes every page with MuPDF', async () => {
+        const result = await compressPDF(await createImagePdf(2), { quality: 'extreme', compressionLevel: 80 });
+
+        expect(result.engine).toBe('extreme');
+        expect(result.engineResults).toHaveLength(1);
+        expect(result.compressedSize).toBe(result.blob.size);
+        expect(await pageNumbersOf(result.blob)).toEqual([1, 2]);
+        expect((await inspectPages(result.blob)).map((page) => page.text.trim())).toEqual(['', '']);
+    });
+
+    it('renders grayscale pages at the requested DPI', async () => {
+        const result = await compressPDF(await createImagePdf(1), { quality: 'extreme', rasterDpi: 144, colorMode: 'grayscale' });
+        const [page] = await inspectPages(result.blob);
+
+        // Page 1 is 301pt wide; 144 DPI is twice the 72pt/inch page scale.
+        expect(page.imageWidth).toBe(602);
+        expect(page.filter).toBe('/DCTDecode');
+        expect(page.colorSpace).toBe('/DeviceGray');
+    });
+
+    it('stores bitonal pages as CCITT Group 4 and keeps an invisible text layer', async () => {
+        const result = await compressPDF(await createMultiPagePdf(2), {
+            quality: 'extreme',
+            rasterDpi: 200,
+            colorMode: 'bitonal',
+            preserveText: true,
+        });
+        const pages = await inspectPages(result.blob);
+
+        expect(pages.map((page) => page.filter)).toEqual(['/CCITTFaxDecode', '/CCITTFaxDecode']);
+        expect(pages.map((page) => page.text.trim())).toEqual(['Page 1', 'Page 2']);
+    });
+});
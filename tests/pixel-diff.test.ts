@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { comparePixels, DEFAULT_DIFF_TOLERANCE } from '../src/lib/pixel-diff';
+
+/** RGBA pixels all set to one gray level */
+function grayPixels(count: number, level: number): Uint8ClampedArray {
+    const pixels = new Uint8ClampedArray(count * 4).fill(level);
+    for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+    return pixels;
+}
+
+describe('comparePixels', () => {
+    it('scores identical images as unchanged', () => {
+        expect(comparePixels(grayPixels(100, 200), grayPixels(100, 200))).toBe(0);
+    });
+
+    it('ignores differences within the tolerance', () => {
+        expect(comparePixels(grayPixels(100, 200), grayPixels(100, 200 - DEFAULT_DIFF_TOLERANCE))).toBe(0);
+    });
+
+    it('returns the share of pixels that changed', () => {
+        const compressed = grayPixels(100, 255);
+        for (let pixel = 0; pixel < 25; pixel++) compressed[pixel * 4 + 1] = 0;
+
+        expect(comparePixels(grayPixels(100, 255), compressed)).toBe(0.25);
+        expect(comparePixels(grayPixels(100, 255), compressed, 255)).toBe(0);
+    });
+
+    it('ignores the alpha channel', () => {
+        const compressed = grayPixels(4, 128);
+        compressed[3] = 0;
+        expect(comparePixels(grayPixels(4, 128), compressed)).toBe(0);
+    });
+
+    it('rejects images of different sizes', () => {
+        expect(() => comparePixels(grayPixels(4, 0), grayPixels(5, 0))).toThrow(/same size/);
+    });
+});
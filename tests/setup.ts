@@ -0,0 +1,3 @@
+import { setupNodeEnvironment } from '../src/cli/node-env';
+
+setupNodeEnvironment();
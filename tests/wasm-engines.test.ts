@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { isEngineCrash, isOutOfMemoryError } from '../src/lib/wasm-engines';
+
+describe('isOutOfMemoryError', () => {
+    it('matches allocation failures', () => {
+        expect(isOutOfMemoryError(new Error('Cannot enlarge memory arrays to size 4294967296 bytes'))).toBe(true);
+        expect(isOutOfMemoryError(new RangeError('Array buffer allocation failed'))).toBe(true);
+        expect(isOutOfMemoryError(new Error('Aborted(OOM)'))).toBe(true);
+        expect(isOutOfMemoryError('out of memory')).toBe(true);
+    });
+
+    it('does not count other WASM traps as out of memory', () => {
+        expect(isOutOfMemoryError(new WebAssembly.RuntimeError('unreachable'))).toBe(false);
+        expect(isOutOfMemoryError(new WebAssembly.RuntimeError('memory access out of bounds'))).toBe(false);
+        expect(isOutOfMemoryError(new Error('cannot parse object'))).toBe(false);
+    });
+});
+
+describe('isEngineCrash', () => {
+    it('matches WASM traps', () => {
+        expect(isEngineCrash(new WebAssembly.RuntimeError('unreachable'))).toBe(true);
+        expect(isEngineCrash(new WebAssembly.RuntimeError('divide by zero'))).toBe(true);
+        expect(isEngineCrash(new Error('memory access out of bounds'))).toBe(true);
+    });
+
+    it('leaves ordinary engine errors alone', () => {
+        expect(isEngineCrash(new Error('cannot find startxref'))).toBe(false);
+    });
+});
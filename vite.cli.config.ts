@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless CLI (src/cli) as a Node ES module. Dependencies stay
+// external so mupdf and the @jspawn engines are loaded from node_modules.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'src/cli/main.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'mydevicemypdf.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
@@ -1,14 +1,82 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import { fileURLToPath } from 'url'
 import { resolve, dirname } from 'path'
+import { createHash } from 'crypto'
+import { existsSync, readFileSync } from 'fs'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
+// Files from public/ that the app shell needs offline.
+const PUBLIC_SHELL = [
+  '/site.webmanifest',
+  '/favicon.ico',
+  '/favicon-16x16.png',
+  '/favicon-32x32.png',
+  '/apple-touch-icon.png',
+  '/android-chrome-192x192.png',
+  '/android-chrome-512x512.png',
+]
+
+// Engine binaries fetched from the site root by src/lib/wasm-engines.ts.
+const PUBLIC_ENGINES = ['/mupdf-wasm.wasm', '/qpdf-wasm.wasm', '/ghostscript-wasm.wasm']
+
+/**
+ * Emits src/service-worker.ts as /sw.js and injects the precache manifest.
+ * The cache version hashes every precached URL plus the engine binaries in
+ * public/, so any change to the build or an engine busts the old cache.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'mydevicemypdf:service-worker',
+    apply: 'build',
+    // Run after Vite has emitted index.html into the bundle.
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const sw = Object.values(bundle).find((file) => file.type === 'chunk' && file.name === 'sw')
+      if (!sw || sw.type !== 'chunk') return
+
+      // Engines are always fetched from the root URLs above, so the copies
+      // bundlers emit under assets/ (e.g. mupdf's own .wasm) are never used.
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName !== sw.fileName && !fileName.endsWith('.wasm') && !fileName.endsWith('.map'))
+        .map((fileName) => `/${fileName}`)
+      const shell = [...assets, ...PUBLIC_SHELL]
+
+      const hash = createHash('sha256')
+      hash.update([...shell, ...PUBLIC_ENGINES].join('\n'))
+      for (const url of PUBLIC_ENGINES) {
+        const path = resolve(__dirname, 'public', url.slice(1))
+        if (existsSync(path)) hash.update(readFileSync(path))
+      }
+
+      const manifest = { version: hash.digest('hex').slice(0, 12), shell, engines: PUBLIC_ENGINES }
+      sw.code = sw.code.replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(manifest))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), serviceWorker()],
+  worker: {
+    // The PDF worker lazily imports the WASM engines, which needs code-splitting
+    // and therefore ES module output instead of the default IIFE bundle.
+    format: 'es',
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: resolve(__dirname, 'index.html'),
+        sw: resolve(__dirname, 'src/service-worker.ts'),
+      },
+      output: {
+        // The service worker must live at the root to control every route.
+        entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
   resolve: {
     alias: {
       // The @jspawn packages ship .mjs wrappers that rely on a globalThis.exports
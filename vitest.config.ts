@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests run headless in Node against src/lib, with the WASM engines loaded
+// from node_modules (see tests/setup.ts).
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Instantiating MuPDF, QPDF and Ghostscript takes a few seconds on a cold run.
+    testTimeout: 60_000,
+  },
+})